@@ -1,98 +1,183 @@
-// VRF Worker for heavy block elimination calculations
-self.onmessage = function(e) {
-  const { type, data } = e.data
-
-  switch (type) {
-    case 'CALCULATE_ELIMINATIONS':
-      calculateEliminations(data)
-      break
-    case 'PROCESS_ROUND_RESULTS':
-      processRoundResults(data)
-      break
-    default:
-      console.warn('Unknown worker message type:', type)
-  }
+// VRF Worker for heavy block elimination calculations.
+// Speaks the request-id protocol of src/lib/workerRpc.ts: every request is
+// answered with RESULT or ERROR for its id, followed by PERFORMANCE_DATA.
+// Block lists travel as typed arrays so they can be transferred, not copied.
+
+const handlers = {
+  CALCULATE_ELIMINATIONS: calculateEliminations,
+  PROCESS_ROUND_RESULTS: processRoundResults,
+  VERIFY_ROUND: verifyRound
 }
 
-function calculateEliminations({ seed, roundNumber, blockIds, eliminationRate }) {
-  const results = []
-  
-  for (const blockId of blockIds) {
-    const vrfValue = generateBlockRandomness(seed, roundNumber, blockId)
-    const eliminated = vrfValue < eliminationRate
-    
-    results.push({
-      blockId,
-      eliminated,
-      vrfValue
-    })
+// Ids of requests still running, and those of them the caller gave up on
+// (timeout or abort). A cancel for a request that already finished is ignored.
+const inFlight = new Set()
+const cancelled = new Set()
+
+class CancelledError extends Error {}
+
+self.onmessage = async function(e) {
+  const { id, type, data } = e.data
+
+  if (type === 'CANCEL') {
+    if (inFlight.has(id)) cancelled.add(id)
+    return
   }
 
-  self.postMessage({
-    type: 'ELIMINATIONS_CALCULATED',
-    data: {
-      results,
-      roundNumber,
-      eliminationRate
+  const handler = handlers[type]
+  if (!handler) {
+    self.postMessage({ id, type: 'ERROR', error: `Unknown worker message type: ${type}` })
+    return
+  }
+
+  inFlight.add(id)
+  const startTime = performance.now()
+  const checkCancelled = () => {
+    if (cancelled.has(id)) throw new CancelledError()
+  }
+
+  try {
+    const { result, transfer = [], dataSize } = await handler(data, checkCancelled)
+    checkCancelled()
+    self.postMessage({ id, type: 'RESULT', data: result }, transfer)
+    sendPerformanceData(id, type, startTime, dataSize)
+  } catch (error) {
+    if (!(error instanceof CancelledError)) {
+      self.postMessage({ id, type: 'ERROR', error: error instanceof Error ? error.message : String(error) })
     }
-  })
+  } finally {
+    inFlight.delete(id)
+    cancelled.delete(id)
+  }
 }
 
-function processRoundResults({ results, gameState }) {
-  const survivors = results.filter(r => !r.eliminated)
-  const eliminated = results.filter(r => r.eliminated)
-  
+// Digests hashed concurrently; long loops look for a cancel between batches
+const BATCH_SIZE = 256
+
+async function calculateEliminations({ seed, roundNumber, blockIds, eliminationRate }, checkCancelled) {
+  const vrfValues = await generateRandomnessBatched(seed, roundNumber, blockIds, checkCancelled)
+  const eliminated = new Uint8Array(blockIds.length)
+
+  for (let i = 0; i < blockIds.length; i++) {
+    eliminated[i] = vrfValues[i] < eliminationRate ? 1 : 0
+  }
+
+  return {
+    result: { roundNumber, eliminationRate, results: { blockIds, eliminated, vrfValues } },
+    transfer: [blockIds.buffer, eliminated.buffer, vrfValues.buffer],
+    dataSize: blockIds.length
+  }
+}
+
+function processRoundResults({ results }) {
+  const { blockIds, eliminated, vrfValues } = results
+  let eliminatedCount = 0
+  let vrfSum = 0
+  for (let i = 0; i < blockIds.length; i++) {
+    eliminatedCount += eliminated[i]
+    vrfSum += vrfValues[i]
+  }
+
+  const survivors = new Uint32Array(blockIds.length - eliminatedCount)
+  const eliminatedIds = new Uint32Array(eliminatedCount)
+  for (let i = 0, s = 0, x = 0; i < blockIds.length; i++) {
+    if (eliminated[i]) eliminatedIds[x++] = blockIds[i]
+    else survivors[s++] = blockIds[i]
+  }
+
   // Calculate new stats
-  const newStats = {
+  const stats = {
     aliveCount: survivors.length,
-    eliminatedCount: eliminated.length,
-    survivalRate: survivors.length / results.length,
-    averageVRF: results.reduce((sum, r) => sum + r.vrfValue, 0) / results.length
+    eliminatedCount,
+    survivalRate: blockIds.length > 0 ? survivors.length / blockIds.length : 0,
+    averageVRF: blockIds.length > 0 ? vrfSum / blockIds.length : 0
   }
 
-  self.postMessage({
-    type: 'ROUND_RESULTS_PROCESSED',
-    data: {
-      survivors: survivors.map(r => r.blockId),
-      eliminated: eliminated.map(r => r.blockId),
-      stats: newStats
+  return {
+    result: { survivors, eliminated: eliminatedIds, stats },
+    transfer: [survivors.buffer, eliminatedIds.buffer],
+    dataSize: blockIds.length
+  }
+}
+
+// Recomputes a round from its published seed and compares every block with
+// what the server announced. A block is eliminated when its draw is below
+// the round's elimination rate.
+async function verifyRound({ roundNumber, seed, proof, eliminationRate, results }, checkCancelled) {
+  const { blockIds, eliminated, vrfValues } = results
+  const mismatches = []
+  let proofValid = null
+
+  // The seed is the VRF output, i.e. the SHA-256 of the proof
+  if (proof) {
+    proofValid = (await sha256Hex(proof)) === seed.toLowerCase()
+  }
+
+  const expectedValues = await generateRandomnessBatched(seed, roundNumber, blockIds, checkCancelled)
+  for (let i = 0; i < blockIds.length; i++) {
+    const vrfValue = expectedValues[i]
+    const expected = vrfValue < eliminationRate
+    const reported = eliminated[i] === 1
+    if (expected !== reported || Math.abs(vrfValue - vrfValues[i]) > 1e-9) {
+      mismatches.push({
+        blockId: blockIds[i],
+        expected: { eliminated: expected, vrfValue },
+        reported: { eliminated: reported, vrfValue: vrfValues[i] }
+      })
     }
-  })
+  }
+
+  return {
+    result: {
+      roundNumber,
+      verified: mismatches.length === 0 && proofValid !== false,
+      proofValid,
+      checked: blockIds.length,
+      mismatches
+    },
+    dataSize: blockIds.length
+  }
+}
+
+// Deterministic block randomness: the first 32 bits of
+// SHA-256("<seed>:<round>:<blockId>") as a fraction in [0, 1)
+async function generateBlockRandomness(seed, roundNumber, blockId) {
+  const bytes = new TextEncoder().encode(`${seed}:${roundNumber}:${blockId}`)
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return new DataView(digest).getUint32(0) / 4294967296
 }
 
-// Deterministic random number generation
-function generateBlockRandomness(seed, roundNumber, blockId) {
-  const combined = `${seed}_${roundNumber}_${blockId}`
-  
-  // Simple hash function for demo (in production, use crypto.subtle)
-  let hash = 0
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32-bit integer
+async function generateRandomnessBatched(seed, roundNumber, blockIds, checkCancelled) {
+  const values = new Float64Array(blockIds.length)
+  for (let start = 0; start < blockIds.length; start += BATCH_SIZE) {
+    checkCancelled()
+    const end = Math.min(start + BATCH_SIZE, blockIds.length)
+    const batch = []
+    for (let i = start; i < end; i++) {
+      batch.push(generateBlockRandomness(seed, roundNumber, blockIds[i]))
+    }
+    values.set(await Promise.all(batch), start)
   }
-  
-  // Convert to 0-1 range
-  return Math.abs(hash) / 2147483647
+  return values
+}
+
+async function sha256Hex(text) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
 }
 
 // Performance monitoring
-let startTime
-self.addEventListener('message', function(e) {
-  startTime = performance.now()
-})
-
-function sendPerformanceData(operationType, dataSize) {
-  const endTime = performance.now()
-  const duration = endTime - startTime
-  
+function sendPerformanceData(id, operationType, startTime, dataSize = 0) {
+  const duration = performance.now() - startTime
+
   self.postMessage({
+    id,
     type: 'PERFORMANCE_DATA',
     data: {
       operation: operationType,
       duration,
       dataSize,
-      throughput: dataSize / duration * 1000 // items per second
+      throughput: duration > 0 ? dataSize / duration * 1000 : 0 // items per second
     }
   })
-}
\ No newline at end of file
+}
@@ -1,15 +1,28 @@
 import { Routes, Route } from 'react-router-dom'
 import { HomePage } from './pages/HomePage'
 import { GamePage } from './pages/GamePage'
+import { BenchmarkPage } from './pages/BenchmarkPage'
+import { AdminPage } from './pages/AdminPage'
+import { CreateGamePage } from './pages/CreateGamePage'
+import { PortfolioPage } from './pages/PortfolioPage'
+import { WalletProvider } from './hooks/useWallet'
+import { ReplayControls } from './components/ReplayControls'
 
 function App() {
   return (
-    <div className="App">
-      <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/game/:gameId" element={<GamePage />} />
-      </Routes>
-    </div>
+    <WalletProvider>
+      <div className="App">
+        <Routes>
+          <Route path="/" element={<HomePage />} />
+          <Route path="/create" element={<CreateGamePage />} />
+          <Route path="/game/:gameId" element={<GamePage />} />
+          <Route path="/portfolio" element={<PortfolioPage />} />
+          <Route path="/benchmark" element={<BenchmarkPage />} />
+          <Route path="/admin" element={<AdminPage />} />
+        </Routes>
+        <ReplayControls />
+      </div>
+    </WalletProvider>
   )
 }
 
@@ -4,11 +4,14 @@ import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { ZoomIn, ZoomOut, Move, RotateCcw } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { BlockData, GameData } from '../../../shared/types'
+import { PackedBlocks } from '@/lib/blockCodec'
+import type { BlockData, GameData } from '@/shared/types'
 
 interface CanvasGameGridProps {
   game: GameData
   blocks: BlockData[]
+  // Packed block state from the store; built from `blocks` when absent
+  packed?: PackedBlocks | null
   selectedBlocks?: Set<number>
   userAddress?: string
   onBlockSelect?: (blockId: number) => void
@@ -35,6 +38,7 @@ interface BlockColors {
 export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
   game,
   blocks,
+  packed,
   selectedBlocks = new Set(),
   userAddress,
   onBlockSelect,
@@ -55,14 +59,11 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
   const cellSize = Math.max(2, baseCellSize * viewport.zoom)
   const gap = Math.max(1, viewport.zoom)
 
-  // Create block map for O(1) lookup
-  const blockMap = useMemo(() => {
-    const map = new Map<number, BlockData>()
-    blocks.forEach(block => {
-      map.set(block.blockId, block)
-    })
-    return map
-  }, [blocks])
+  // Bitset lookup: status and owner in O(1) without a per-block object
+  const grid = useMemo(
+    () => packed ?? PackedBlocks.fromBlocks(blocks, game.totalBlocks),
+    [packed, blocks, game.totalBlocks]
+  )
 
   // Colors configuration
   const colors: BlockColors = {
@@ -96,7 +97,8 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
     for (let row = visibleStartY; row < visibleEndY; row++) {
       for (let col = visibleStartX; col < visibleEndX; col++) {
         const blockId = row * cols + col
-        const block = blockMap.get(blockId)
+        const status = grid.statusOf(blockId)
+        const isOwned = !!userAddress && grid.ownerOf(blockId) === userAddress
         
         const x = viewport.x + col * (cellSize + gap)
         const y = viewport.y + row * (cellSize + gap)
@@ -110,11 +112,11 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
         let fillColor = colors.unsold
         let strokeColor = '#D1D5DB'
         
-        if (block) {
-          if (block.status === 'alive') fillColor = colors.alive
-          else if (block.status === 'eliminated') fillColor = colors.eliminated
+        if (status !== 'unsold') {
+          if (status === 'alive') fillColor = colors.alive
+          else if (status === 'eliminated') fillColor = colors.eliminated
           
-          if (block.ownerId === userAddress) {
+          if (isOwned) {
             strokeColor = colors.owned
             ctx.lineWidth = 2
           } else {
@@ -158,15 +160,15 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
         if (cellSize > 6) {
           const indicatorSize = Math.max(2, cellSize / 8)
           
-          if (block?.status === 'alive') {
+          if (status === 'alive') {
             ctx.fillStyle = '#059669'
             ctx.fillRect(x + cellSize - indicatorSize - 1, y + 1, indicatorSize, indicatorSize)
-          } else if (block?.status === 'eliminated') {
+          } else if (status === 'eliminated') {
             ctx.fillStyle = '#DC2626'
             ctx.fillRect(x + cellSize - indicatorSize - 1, y + 1, indicatorSize, indicatorSize)
           }
           
-          if (block?.ownerId === userAddress) {
+          if (isOwned) {
             ctx.fillStyle = '#D97706'
             ctx.fillRect(x + 1, y + cellSize - indicatorSize - 1, indicatorSize, indicatorSize)
           }
@@ -192,7 +194,7 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
     gap, 
     rows, 
     cols, 
-    blockMap, 
+    grid, 
     selectedBlocks, 
     revealingBlocks, 
     userAddress,
@@ -237,12 +239,13 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
   useEffect(() => {
     if (revealingBlocks.size === 0) return
 
+    let animationId = 0
     const animate = () => {
       drawGrid()
-      requestAnimationFrame(animate)
+      animationId = requestAnimationFrame(animate)
     }
 
-    const animationId = requestAnimationFrame(animate)
+    animationId = requestAnimationFrame(animate)
     return () => cancelAnimationFrame(animationId)
   }, [revealingBlocks.size, drawGrid])
 
@@ -287,9 +290,7 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
 
     if (row >= 0 && row < rows && col >= 0 && col < cols) {
       const blockId = row * cols + col
-      const block = blockMap.get(blockId)
-      
-      if (!block || block.status !== 'unsold') return
+      if (grid.statusOf(blockId) !== 'unsold') return
 
       if (selectedBlocks.has(blockId)) {
         onBlockDeselect?.(blockId)
@@ -305,7 +306,7 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
     gap, 
     rows, 
     cols, 
-    blockMap, 
+    grid, 
     selectedBlocks, 
     onBlockSelect, 
     onBlockDeselect
@@ -362,18 +363,20 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
   }, [canvasSize, cols, rows, baseCellSize])
 
   const centerOnAliveBlocks = useCallback(() => {
-    const aliveBlocks = blocks.filter(b => b.status === 'alive')
-    if (aliveBlocks.length === 0) return
-
     // Calculate bounding box of alive blocks
     let minRow = rows, maxRow = 0, minCol = cols, maxCol = 0
+    let aliveCount = 0
     
-    aliveBlocks.forEach(block => {
-      minRow = Math.min(minRow, block.position.row)
-      maxRow = Math.max(maxRow, block.position.row)
-      minCol = Math.min(minCol, block.position.col)
-      maxCol = Math.max(maxCol, block.position.col)
+    grid.forEachWithStatus('alive', blockId => {
+      const row = Math.floor(blockId / cols)
+      const col = blockId % cols
+      minRow = Math.min(minRow, row)
+      maxRow = Math.max(maxRow, row)
+      minCol = Math.min(minCol, col)
+      maxCol = Math.max(maxCol, col)
+      aliveCount++
     })
+    if (aliveCount === 0) return
 
     const centerRow = (minRow + maxRow) / 2
     const centerCol = (minCol + maxCol) / 2
@@ -386,17 +389,15 @@ export const CanvasGameGrid: React.FC<CanvasGameGridProps> = ({
       x: targetX,
       y: targetY
     }))
-  }, [blocks, rows, cols, canvasSize, cellSize, gap])
+  }, [grid, rows, cols, canvasSize, cellSize, gap])
 
   // Stats
   const stats = useMemo(() => {
-    const alive = blocks.filter(b => b.status === 'alive').length
-    const eliminated = blocks.filter(b => b.status === 'eliminated').length
-    const unsold = game.totalBlocks - blocks.length
-    const owned = userAddress ? blocks.filter(b => b.ownerId === userAddress).length : 0
+    const { alive, eliminated, unsold } = grid.counts()
+    const owned = userAddress ? grid.countOwnedBy(userAddress) : 0
     
     return { alive, eliminated, unsold, owned }
-  }, [blocks, game.totalBlocks, userAddress])
+  }, [grid, userAddress])
 
   return (
     <div className={cn('w-full space-y-4', className)}>
@@ -0,0 +1,40 @@
+'use client'
+
+import React from 'react'
+import { Wifi, WifiOff, Loader2, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useConnectionStatus, type ConnectionHealth } from '@/lib/websocket'
+
+interface ConnectionStatusBadgeProps {
+  className?: string
+}
+
+const healthDisplay: Record<ConnectionHealth, { label: string; icon: typeof Wifi; color: string }> = {
+  connected: { label: 'Live', icon: Wifi, color: 'text-green-700 bg-green-50 border-green-200' },
+  degraded: { label: 'Degraded', icon: AlertTriangle, color: 'text-yellow-700 bg-yellow-50 border-yellow-200' },
+  reconnecting: { label: 'Reconnecting', icon: Loader2, color: 'text-blue-700 bg-blue-50 border-blue-200' },
+  offline: { label: 'Offline', icon: WifiOff, color: 'text-red-700 bg-red-50 border-red-200' },
+}
+
+export const ConnectionStatusBadge: React.FC<ConnectionStatusBadgeProps> = ({ className }) => {
+  const { state, health, latencyMs } = useConnectionStatus()
+  const { label, icon: Icon, color } = healthDisplay[health]
+  const text = state === 'idle' || state === 'connecting' ? 'Connecting' : label
+
+  const title = health === 'connected' || health === 'degraded'
+    ? `Realtime updates ${health}${latencyMs ? ` • last server ping ${latencyMs}ms late` : ''}`
+    : 'Realtime updates unavailable • refreshing periodically'
+
+  return (
+    <div
+      title={title}
+      className={cn('flex items-center gap-1 px-2 py-1 rounded border text-xs font-medium', color, className)}
+    >
+      <Icon className={cn('w-3 h-3', health === 'reconnecting' && 'animate-spin')} />
+      <span className="hidden md:inline">{text}</span>
+      {!!latencyMs && health !== 'offline' && (
+        <span className="hidden md:inline opacity-70">+{latencyMs}ms</span>
+      )}
+    </div>
+  )
+}
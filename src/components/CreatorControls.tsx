@@ -0,0 +1,83 @@
+import React, { useState } from 'react'
+import { PlayCircle, Rocket, Loader2, CheckCircle } from 'lucide-react'
+import { gameAPI } from '../lib/api'
+import { signRequest } from '../lib/signing'
+import { cn } from '../lib/utils'
+import { useWallet } from '../hooks/useWallet'
+import type { GameData } from '../shared/types'
+
+interface CreatorControlsProps {
+  game: GameData
+  // Called with the updated game when the backend returns it
+  onGameUpdate?: (game: GameData) => void
+  className?: string
+}
+
+// Lifecycle buttons for the game's creator: pending -> minting -> active
+export const CreatorControls: React.FC<CreatorControlsProps> = ({ game, onGameUpdate, className }) => {
+  const { signer } = useWallet()
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: 'startMinting' | 'startGame') => {
+    if (!signer) {
+      setError('Connect the creator wallet')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      const body = { creatorAddress: signer.address }
+      const signed = action === 'startMinting' ? 'start_minting' : 'start_game'
+      const signature = await signRequest(signer, signed, game.gameId, body)
+      const updated = await gameAPI[action](game.gameId, { ...body, signature })
+      if (updated) onGameUpdate?.(updated)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (game.status !== 'pending' && game.status !== 'minting') {
+    return (
+      <div className={cn('flex items-center gap-2 text-sm text-green-700', className)}>
+        <CheckCircle className="w-4 h-4" />
+        Game is {game.status}
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        {game.status === 'pending' ? (
+          <button
+            onClick={() => run('startMinting')}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlayCircle className="w-4 h-4" />}
+            Start minting
+          </button>
+        ) : (
+          <button
+            onClick={() => run('startGame')}
+            disabled={busy || game.soldBlocks === 0}
+            title={game.soldBlocks === 0 ? 'No blocks have been minted yet' : undefined}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 text-sm"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Rocket className="w-4 h-4" />}
+            Start game
+          </button>
+        )}
+        <span className="text-xs text-gray-500">
+          {game.status === 'pending'
+            ? 'Opens the sale of blocks'
+            : `${game.soldBlocks.toLocaleString()} of ${game.totalBlocks.toLocaleString()} blocks sold; starting ends the sale`}
+        </span>
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Dices, Square, Loader2 } from 'lucide-react'
+import { useEliminationSimulation } from '@/hooks/useWebWorker'
+import { DEFAULT_SIMULATION_RUNS, type SimulationConfig } from '@/lib/eliminationSimulator'
+import { cn, formatSOL } from '@/lib/utils'
+
+interface EliminationSimulatorProps {
+  config: SimulationConfig
+  className?: string
+}
+
+const RUN_OPTIONS = [50, DEFAULT_SIMULATION_RUNS, 1000]
+
+// Chart box in SVG units; the svg scales to its container width
+const WIDTH = 480
+const HEIGHT = 180
+const PAD = { top: 10, right: 10, bottom: 24, left: 56 }
+
+interface BandPoint {
+  x: number
+  low: number
+  mid: number
+  high: number
+}
+
+function scale(domain: [number, number], range: [number, number]) {
+  const [d0, d1] = domain
+  const [r0, r1] = range
+  return (value: number) => (d1 === d0 ? r0 : r0 + ((value - d0) / (d1 - d0)) * (r1 - r0))
+}
+
+// p10–p90 band with the median drawn over it
+const BandChart: React.FC<{ points: BandPoint[]; color: string; format: (value: number) => string }> = ({
+  points,
+  color,
+  format
+}) => {
+  if (points.length === 0) return null
+  const maxY = Math.max(...points.map(p => p.high)) || 1
+  const x = scale([points[0].x, points[points.length - 1].x], [PAD.left, WIDTH - PAD.right])
+  const y = scale([0, maxY], [HEIGHT - PAD.bottom, PAD.top])
+
+  const band = [
+    ...points.map(p => `${x(p.x)},${y(p.high)}`),
+    ...[...points].reverse().map(p => `${x(p.x)},${y(p.low)}`)
+  ].join(' ')
+  const median = points.map(p => `${x(p.x)},${y(p.mid)}`).join(' ')
+  const xTicks = points.filter((_, i) => i % Math.ceil(points.length / 8) === 0)
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(maxY * f)} y2={y(maxY * f)} stroke="#e5e7eb" />
+          <text x={PAD.left - 4} y={y(maxY * f) + 3} textAnchor="end" fontSize="10" fill="#6b7280">
+            {format(maxY * f)}
+          </text>
+        </g>
+      ))}
+      {xTicks.map(p => (
+        <text key={p.x} x={x(p.x)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+          R{p.x}
+        </text>
+      ))}
+      <polygon points={band} fill={color} fillOpacity={0.2} />
+      <polyline points={median} fill="none" stroke={color} strokeWidth={2} />
+    </svg>
+  )
+}
+
+const BarChart: React.FC<{ bars: Array<{ label: string; value: number }>; color: string }> = ({ bars, color }) => {
+  if (bars.length === 0) return null
+  const maxY = Math.max(...bars.map(b => b.value)) || 1
+  const slot = (WIDTH - PAD.left - PAD.right) / bars.length
+  const y = scale([0, maxY], [HEIGHT - PAD.bottom, PAD.top])
+  const labelEvery = Math.ceil(bars.length / 12)
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      <text x={PAD.left - 4} y={y(maxY) + 3} textAnchor="end" fontSize="10" fill="#6b7280">{maxY}</text>
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#e5e7eb" />
+      {bars.map((bar, i) => (
+        <g key={bar.label}>
+          <rect
+            x={PAD.left + i * slot + slot * 0.1}
+            y={y(bar.value)}
+            width={slot * 0.8}
+            height={y(0) - y(bar.value)}
+            fill={color}
+          >
+            <title>{bar.label}: {bar.value}</title>
+          </rect>
+          {i % labelEvery === 0 && (
+            <text x={PAD.left + (i + 0.5) * slot} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+              {bar.label}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+function formatCount(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toFixed(0)
+}
+
+// Distributions of game length, survivors and EV over simulated games
+export const EliminationSimulator: React.FC<EliminationSimulatorProps> = ({ config, className }) => {
+  const { run, cancel, summary, running, progress, error, isAvailable } = useEliminationSimulation()
+  const [runs, setRuns] = useState(DEFAULT_SIMULATION_RUNS)
+
+  // Lengths from the shortest to the longest game, gaps included
+  const lengthBars = summary && summary.lengths.length > 0
+    ? Array.from(
+        { length: summary.lengths[summary.lengths.length - 1].rounds - summary.lengths[0].rounds + 1 },
+        (_, i) => {
+          const rounds = summary.lengths[0].rounds + i
+          return { label: String(rounds), value: summary.lengths.find(l => l.rounds === rounds)?.count ?? 0 }
+        }
+      )
+    : []
+  const median = summary && (() => {
+    let seen = 0
+    return summary.lengths.find(l => (seen += l.count) >= summary.runs / 2)?.rounds
+  })()
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={runs}
+          onChange={e => setRuns(Number(e.target.value))}
+          disabled={running}
+          className="px-3 py-2 border rounded text-sm"
+        >
+          {RUN_OPTIONS.map(n => (
+            <option key={n} value={n}>{n} games</option>
+          ))}
+        </select>
+        <button
+          onClick={running ? cancel : () => run(config, runs)}
+          disabled={!isAvailable}
+          className={cn(
+            'flex items-center gap-2 px-4 py-2 text-white rounded text-sm disabled:opacity-50',
+            running ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'
+          )}
+        >
+          {running ? <Square className="w-4 h-4" /> : <Dices className="w-4 h-4" />}
+          {running ? 'Cancel' : 'Simulate'}
+        </button>
+        {running && (
+          <div className="flex items-center gap-2 flex-1 min-w-[8rem]">
+            <Loader2 className="w-4 h-4 animate-spin text-purple-600" />
+            <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+              <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {summary && summary.runs < runs && (
+        <div className="text-xs text-gray-500">
+          Large grid: simulated {summary.runs} games instead of {runs} to keep the browser responsive
+        </div>
+      )}
+
+      {summary && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-center text-sm">
+            <div className="bg-purple-50 p-2 rounded">
+              <div className="font-bold text-purple-700">{median ?? '—'}</div>
+              <div className="text-purple-600 text-xs">Median rounds</div>
+            </div>
+            <div className="bg-blue-50 p-2 rounded">
+              <div className="font-bold text-blue-700">
+                {summary.lengths[0]?.rounds}–{summary.lengths[summary.lengths.length - 1]?.rounds}
+              </div>
+              <div className="text-blue-600 text-xs">Range over {summary.runs} games</div>
+            </div>
+            <div className="bg-red-50 p-2 rounded">
+              <div className="font-bold text-red-700">{((summary.noWinner / summary.runs) * 100).toFixed(1)}%</div>
+              <div className="text-red-600 text-xs">End with no survivor</div>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold mb-1">Game length (rounds)</h4>
+            <BarChart bars={lengthBars} color="#8b5cf6" />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold mb-1">Survivors after each round (median, 10th–90th percentile)</h4>
+            <BandChart
+              points={summary.rounds.map(r => ({ x: r.roundNumber, low: r.survivors.p10, mid: r.survivors.p50, high: r.survivors.p90 }))}
+              color="#16a34a"
+              format={formatCount}
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold mb-1">Next-round EV per block</h4>
+            <BandChart
+              points={summary.rounds.map(r => ({ x: r.roundNumber, low: r.nextRoundEV.p10, mid: r.nextRoundEV.p50, high: r.nextRoundEV.p90 }))}
+              color="#ea580c"
+              format={value => formatSOL(value).replace(' SOL', '')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,11 +6,14 @@ import { cn, getBlockStatusColor, getBlockPosition } from '@/lib/utils'
 import { VirtualizedGameGrid } from './VirtualizedGameGrid'
 import { CanvasGameGrid } from './CanvasGameGrid'
 import { MobileOptimizedCanvas } from './MobileOptimizedCanvas'
-import type { BlockData, GameData } from '../../../shared/types'
+import type { PackedBlocks } from '@/lib/blockCodec'
+import type { BlockData, GameData } from '@/shared/types'
 
 interface GameGridProps {
   game: GameData
   blocks: BlockData[]
+  // Packed block state for the canvas renderers on large grids
+  packed?: PackedBlocks | null
   selectedBlocks?: Set<number>
   userAddress?: string
   onBlockSelect?: (blockId: number) => void
@@ -129,6 +132,7 @@ const Block: React.FC<BlockProps> = React.memo(({
 export const GameGrid: React.FC<GameGridProps> = ({
   game,
   blocks,
+  packed,
   selectedBlocks = new Set(),
   userAddress,
   onBlockSelect,
@@ -147,6 +151,7 @@ export const GameGrid: React.FC<GameGridProps> = ({
       <MobileOptimizedCanvas
         game={game}
         blocks={blocks}
+        packed={packed}
         selectedBlocks={selectedBlocks}
         userAddress={userAddress}
         onBlockSelect={onBlockSelect}
@@ -163,6 +168,7 @@ export const GameGrid: React.FC<GameGridProps> = ({
       <CanvasGameGrid
         game={game}
         blocks={blocks}
+        packed={packed}
         selectedBlocks={selectedBlocks}
         userAddress={userAddress}
         onBlockSelect={onBlockSelect}
@@ -192,14 +198,13 @@ export const GameGrid: React.FC<GameGridProps> = ({
   }
 
   // Create grid array for small grids
-  const gridBlocks = Array.from({ length: totalBlocks }, (_, index) => {
+  const gridBlocks = Array.from({ length: totalBlocks }, (_, index): BlockData => {
     return blocks.find(block => block.blockId === index) || {
       gameId: game.gameId,
       blockId: index,
       position: getBlockPosition(index, cols),
       status: 'unsold' as const,
-      purchasePrice: game.config.blockPrice,
-      transactionHistory: []
+      purchasePrice: game.config.blockPrice
     }
   })
 
@@ -10,12 +10,14 @@ import {
   Eye
 } from 'lucide-react'
 import { cn } from '../lib/utils'
-import type { GameData, RoundData } from '../../../shared/types'
+import { getRoundNumber, type GameData, type RoundData } from '../shared/types'
 
 interface GameTimelineProps {
   game: GameData
   currentRound?: RoundData | null
   className?: string
+  // Called when a completed round is clicked
+  onRoundSelect?: (roundNumber: number) => void
 }
 
 interface PhaseInfo {
@@ -34,7 +36,8 @@ interface PhaseInfo {
 export const GameTimeline: React.FC<GameTimelineProps> = ({
   game,
   currentRound,
-  className
+  className,
+  onRoundSelect
 }) => {
   const [timeLeft, setTimeLeft] = useState<number>(0)
   const [currentPhaseId, setCurrentPhaseId] = useState<string>('')
@@ -56,9 +59,7 @@ export const GameTimeline: React.FC<GameTimelineProps> = ({
     })
 
     // Generate round phases dynamically
-    const currentRoundNum = typeof game.currentRound === 'object' 
-      ? game.currentRound?.roundNumber || 0 
-      : game.currentRound
+    const currentRoundNum = getRoundNumber(game)
 
     // Show: completed rounds + current + next 3 rounds
     const visibleRounds = Math.max(5, currentRoundNum + 3)
@@ -185,6 +186,12 @@ export const GameTimeline: React.FC<GameTimelineProps> = ({
     }
   }, [phases])
 
+  // Completed rounds open their history when clicked
+  const selectHandler = (phase: PhaseInfo) =>
+    onRoundSelect && phase.type === 'round' && phase.status === 'completed' && phase.roundNumber !== undefined
+      ? () => onRoundSelect(phase.roundNumber!)
+      : undefined
+
   const formatTime = useCallback((seconds: number) => {
     if (seconds === 0) return '00:00:00'
     
@@ -229,6 +236,7 @@ export const GameTimeline: React.FC<GameTimelineProps> = ({
                 const Icon = phase.icon
                 const isActive = phase.status === 'active'
                 const isCompleted = phase.status === 'completed'
+                const selectRound = selectHandler(phase)
                 
                 return (
                   <div 
@@ -241,8 +249,11 @@ export const GameTimeline: React.FC<GameTimelineProps> = ({
                         'w-12 h-12 rounded-full border-2 flex items-center justify-center transition-all duration-300',
                         isCompleted && 'bg-green-500 border-green-500 text-white',
                         isActive && 'bg-white border-blue-500 text-blue-600 shadow-lg',
-                        !isCompleted && !isActive && 'bg-gray-100 border-gray-300 text-gray-400'
+                        !isCompleted && !isActive && 'bg-gray-100 border-gray-300 text-gray-400',
+                        selectRound && 'cursor-pointer'
                       )}
+                      onClick={selectRound}
+                      title={selectRound ? `View round ${phase.roundNumber} details` : undefined}
                       whileHover={{ scale: 1.1 }}
                       animate={isActive ? { 
                         scale: [1, 1.05, 1],
@@ -307,6 +318,7 @@ export const GameTimeline: React.FC<GameTimelineProps> = ({
               const Icon = phase.icon
               const isActive = phase.status === 'active'
               const isCompleted = phase.status === 'completed'
+              const selectRound = selectHandler(phase)
               
               return (
                 <motion.div
@@ -315,8 +327,10 @@ export const GameTimeline: React.FC<GameTimelineProps> = ({
                     'flex items-center gap-3 p-3 rounded-lg border transition-all duration-300',
                     isCompleted && 'bg-green-50 border-green-200',
                     isActive && 'bg-blue-50 border-blue-300 shadow-md',
-                    !isCompleted && !isActive && 'bg-gray-50 border-gray-200'
+                    !isCompleted && !isActive && 'bg-gray-50 border-gray-200',
+                    selectRound && 'cursor-pointer'
                   )}
+                  onClick={selectRound}
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ delay: index * 0.1 }}
@@ -2,15 +2,21 @@
 
 import React, { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Play, Pause, SkipForward, RotateCcw } from 'lucide-react'
+import { Play, Pause, SkipForward, RotateCcw, Loader2, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react'
 import { GameGrid } from './GameGrid'
+import { useRoundVerification, type RoundVerification } from '@/hooks/useWebWorker'
 import { cn, formatPercentage } from '@/lib/utils'
-import type { GameData, BlockData, RoundResult } from '../../../shared/types'
+import { getRoundNumber, type GameData, type BlockData, type RoundResult } from '@/shared/types'
 
 interface LiveRevealProps {
   game: GameData
   blocks: BlockData[]
   roundResults: RoundResult[]
+  // Published randomness the results are checked against
+  roundNumber?: number
+  vrfSeed?: string
+  vrfProof?: string
+  eliminationRate?: number
   userAddress: string
   autoPlay?: boolean
   revealSpeed?: number // ms between reveals
@@ -18,10 +24,63 @@ interface LiveRevealProps {
   onUserBlockRevealed?: (blockId: number, eliminated: boolean) => void
 }
 
+const VerificationBadge: React.FC<{ verification: RoundVerification }> = ({ verification }) => {
+  switch (verification.status) {
+    case 'verifying':
+      return (
+        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-600">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Verifying randomness… {Math.round(verification.progress * 100)}%
+        </span>
+      )
+    case 'verified':
+      return (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-green-100 text-green-800"
+          title={`All ${verification.report.checked} results recomputed from the published seed`}
+        >
+          <ShieldCheck className="w-3 h-3" />
+          Verified
+        </span>
+      )
+    case 'mismatch': {
+      const { report } = verification
+      const reasons = [
+        report.proofValid === false && 'seed does not match the proof',
+        report.mismatches.length > 0 && `${report.mismatches.length} of ${report.checked} results differ`,
+      ].filter(Boolean)
+      return (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-red-100 text-red-800"
+          title={report.mismatches.slice(0, 5).map(m => `Block #${m.blockId}`).join(', ')}
+        >
+          <ShieldAlert className="w-3 h-3" />
+          Mismatch: {reasons.join('; ')}
+        </span>
+      )
+    }
+    case 'unavailable':
+    case 'error':
+      return (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-yellow-100 text-yellow-800"
+          title={verification.status === 'error' ? verification.message : undefined}
+        >
+          <ShieldQuestion className="w-3 h-3" />
+          {verification.status === 'error' ? 'Could not verify' : 'No seed published'}
+        </span>
+      )
+  }
+}
+
 export const LiveReveal: React.FC<LiveRevealProps> = ({
   game,
   blocks,
   roundResults,
+  roundNumber,
+  vrfSeed,
+  vrfProof,
+  eliminationRate,
   userAddress,
   autoPlay = true,
   revealSpeed = 200,
@@ -33,6 +92,13 @@ export const LiveReveal: React.FC<LiveRevealProps> = ({
   const [revealedBlocks, setRevealedBlocks] = useState<Set<number>>(new Set())
   const [revealOrder, setRevealOrder] = useState<RoundResult[]>([])
   const [isPaused, setIsPaused] = useState(false)
+  const verification = useRoundVerification({
+    roundNumber,
+    seed: vrfSeed,
+    proof: vrfProof,
+    eliminationRate,
+    results: roundResults,
+  })
 
   // Initialize reveal order (randomized)
   useEffect(() => {
@@ -129,7 +195,12 @@ export const LiveReveal: React.FC<LiveRevealProps> = ({
     <div className="space-y-6">
       {/* Header */}
       <div className="text-center">
-        <h2 className="text-2xl font-bold mb-2">Round {game.currentRound} Results</h2>
+        <h2 className="text-2xl font-bold mb-2">
+          Round {roundNumber ?? getRoundNumber(game)} Results
+        </h2>
+        <div className="mb-2">
+          <VerificationBadge verification={verification} />
+        </div>
         <p className="text-gray-600">
           {isComplete 
             ? 'Reveal complete!' 
@@ -1,12 +1,24 @@
 'use client'
 
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Dice6, Hand, ShoppingCart, Loader2 } from 'lucide-react'
+import { Dice6, Hand, ShoppingCart, Loader2, CheckCircle, XCircle, AlertTriangle, RotateCcw, Undo2 } from 'lucide-react'
 import { GameGrid } from './GameGrid'
-import { cn, formatSOL, generateMockAddress } from '@/lib/utils'
-import { gameAPI } from '@/lib/api'
-import type { GameData, BlockData } from '../../../shared/types'
+import { cn, formatSOL, shortenAddress } from '@/lib/utils'
+import { RateLimitedError, isAbortError } from '@/lib/api'
+import {
+  getOrCreateIntent,
+  getPaidUnmintedIntents,
+  payForMintIntent,
+  refundPaidMint,
+  retryPaidMint,
+  submitIntent,
+  isDefinitiveFailure,
+  type MintIntent,
+} from '@/lib/intents'
+import { getTreasuryAddress, type PaymentState, type PaymentStatus } from '@/lib/payments'
+import { useWallet } from '@/hooks/useWallet'
+import type { GameData, BlockData } from '@/shared/types'
 
 interface MintingInterfaceProps {
   game: GameData
@@ -18,6 +30,113 @@ interface MintingInterfaceProps {
 
 type MintMode = 'select' | 'random'
 
+const PAYMENT_STEPS: Array<{ status: PaymentStatus; label: string }> = [
+  { status: 'signing', label: 'Approve in wallet' },
+  { status: 'submitted', label: 'Submitted' },
+  { status: 'confirmed', label: 'Confirmed' },
+  { status: 'finalized', label: 'Finalized' },
+]
+
+const PaymentProgress: React.FC<{ state: PaymentState }> = ({ state }) => {
+  const failed = state.status === 'failed' || state.status === 'expired'
+  const reached = PAYMENT_STEPS.findIndex(step => step.status === state.status)
+
+  return (
+    <div className="border-t pt-4 space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        {PAYMENT_STEPS.map((step, index) => {
+          const done = reached > index || state.status === 'finalized'
+          const active = reached === index && state.status !== 'finalized'
+          return (
+            <div
+              key={step.status}
+              className={cn(
+                'flex items-center gap-1',
+                done ? 'text-green-600' : active ? 'text-blue-600' : 'text-gray-400'
+              )}
+            >
+              {done ? (
+                <CheckCircle className="w-4 h-4" />
+              ) : active ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <div className="w-4 h-4 rounded-full border" />
+              )}
+              {step.label}
+            </div>
+          )
+        })}
+      </div>
+      {failed && (
+        <div className="flex items-center gap-1 text-xs text-red-600">
+          <XCircle className="w-4 h-4" />
+          {state.error ?? `Payment ${state.status}`}
+        </div>
+      )}
+      {state.signature && (
+        <div className="text-xs text-gray-500 font-mono">
+          Tx {shortenAddress(state.signature)}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PaidUnmintedListProps {
+  intents: MintIntent[]
+  busyKey: string | null
+  // Retries only make sense while the game is still minting
+  canRetry: boolean
+  onRetry: (intent: MintIntent) => void
+  onRefund: (intent: MintIntent) => void
+}
+
+// Mints the server refused after their transfer landed
+const PaidUnmintedList: React.FC<PaidUnmintedListProps> = ({ intents, busyKey, canRetry, onRetry, onRefund }) => (
+  <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg space-y-3 text-left">
+    <div className="flex items-center gap-2 font-semibold text-yellow-800">
+      <AlertTriangle className="w-4 h-4" />
+      Paid but not minted
+    </div>
+    {intents.map(intent => {
+      const count = intent.payload.blockIds?.length ?? intent.payload.quantity ?? 0
+      const busy = busyKey === intent.key
+      return (
+        <div key={intent.key} className="border-t border-yellow-200 pt-3 space-y-2 text-sm">
+          <div>
+            {formatSOL(intent.payload.paymentAmount)} for {count} block{count === 1 ? '' : 's'} was paid, but the
+            mint was refused: {intent.rejection}
+          </div>
+          <div className="text-xs text-gray-600">
+            Transaction <span className="font-mono break-all select-all">{intent.payment?.signature}</span>
+          </div>
+          <div className="flex gap-2">
+            {canRetry && (
+              <button
+                onClick={() => onRetry(intent)}
+                disabled={busyKey !== null}
+                className="flex items-center gap-1 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry with {count} random block{count === 1 ? '' : 's'}
+              </button>
+            )}
+            <button
+              onClick={() => onRefund(intent)}
+              disabled={busyKey !== null}
+              className="flex items-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              <Undo2 className="w-4 h-4" />
+              Request refund
+            </button>
+            {busy && <Loader2 className="w-4 h-4 animate-spin text-gray-500 self-center" />}
+          </div>
+        </div>
+      )
+    })}
+  </div>
+)
+
 export const MintingInterface: React.FC<MintingInterfaceProps> = ({
   game,
   blocks,
@@ -29,6 +148,21 @@ export const MintingInterface: React.FC<MintingInterfaceProps> = ({
   const [selectedBlocks, setSelectedBlocks] = useState<Set<number>>(new Set())
   const [randomQuantity, setRandomQuantity] = useState<number>(1)
   const [isMinting, setIsMinting] = useState(false)
+  const [paymentState, setPaymentState] = useState<PaymentState | null>(null)
+  const [paidUnminted, setPaidUnminted] = useState<MintIntent[]>([])
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const { signer } = useWallet()
+  const mintControllerRef = useRef<AbortController | null>(null)
+
+  // Stop polling the payment when leaving the page; the intent keeps the
+  // transfer and the mint is completed on the next visit
+  useEffect(() => () => mintControllerRef.current?.abort(), [])
+
+  const refreshPaidUnminted = useCallback(() => {
+    setPaidUnminted(getPaidUnmintedIntents(game.gameId, userAddress))
+  }, [game.gameId, userAddress])
+
+  useEffect(refreshPaidUnminted, [refreshPaidUnminted])
 
   const availableBlocks = blocks.filter(b => b.status === 'unsold')
   const maxRandomQuantity = availableBlocks.length
@@ -62,9 +196,13 @@ export const MintingInterface: React.FC<MintingInterfaceProps> = ({
   }, [mintMode, selectedBlocks.size, randomQuantity, game.config.blockPrice])
 
   const handleMint = useCallback(async () => {
-    if (isMinting) return
+    if (isMinting || !signer) return
 
     setIsMinting(true)
+    setPaymentState(null)
+    const controller = new AbortController()
+    mintControllerRef.current = controller
+    let sent = false
     
     try {
       const cost = calculateCost()
@@ -72,21 +210,48 @@ export const MintingInterface: React.FC<MintingInterfaceProps> = ({
         ? { blockIds: Array.from(selectedBlocks) }
         : { quantity: randomQuantity }
 
-      const result = await gameAPI.mintBlocks(game.gameId, {
+      // Re-submitting the same selection reuses the pending intent's key,
+      // so a double click or a retry after a dropped response mints once
+      const intent = getOrCreateIntent('mint', game.gameId, {
         buyerAddress: userAddress,
         paymentAmount: cost,
         ...mintData
       })
+      // Pay first; the mint is only sent once the transfer is finalized
+      const paid = await payForMintIntent(
+        intent,
+        signer,
+        getTreasuryAddress(game.config.treasuryAddress),
+        { onStatus: setPaymentState, signal: controller.signal }
+      )
+      sent = true
+      const outcome = await submitIntent(paid, signer, controller.signal)
 
-      if (result.success) {
-        onMintSuccess?.(result.blocks)
-        setSelectedBlocks(new Set())
-        setRandomQuantity(1)
-      } else {
-        onMintError?.(result.message)
+      if (outcome.status === 'minted') {
+        onMintSuccess?.(outcome.blocks)
       }
+      setSelectedBlocks(new Set())
+      setRandomQuantity(1)
+      setPaymentState(null)
     } catch (error) {
-      onMintError?.(error instanceof Error ? error.message : 'Minting failed')
+      if (isAbortError(error)) return
+      if (!sent) {
+        // Nothing reached the game server: the wallet refused, the RPC
+        // rejected the transfer, or it failed or expired on chain
+        onMintError?.(error instanceof Error ? error.message : 'Payment failed')
+      } else if (isDefinitiveFailure(error)) {
+        // The transfer has landed, so the intent is kept as paid, not minted
+        // and the user picks between a retry and a refund
+        refreshPaidUnminted()
+        onMintError?.(
+          `Your payment went through but the mint was refused: ${error instanceof Error ? error.message : 'rejected'}. ` +
+          'Retry or request a refund below.'
+        )
+      } else if (error instanceof RateLimitedError) {
+        onMintError?.('Too many requests. Please wait a moment and try again.')
+      } else {
+        onMintError?.('Mint status unknown. Retrying is safe; it will be confirmed when you return.')
+      }
     } finally {
       setIsMinting(false)
     }
@@ -96,23 +261,69 @@ export const MintingInterface: React.FC<MintingInterfaceProps> = ({
     selectedBlocks, 
     randomQuantity, 
     game.gameId, 
+    game.config.treasuryAddress,
     userAddress, 
+    signer,
     calculateCost, 
+    refreshPaidUnminted,
     onMintSuccess, 
     onMintError
   ])
 
-  const canMint = mintMode === 'select' 
-    ? selectedBlocks.size > 0 
-    : randomQuantity > 0 && randomQuantity <= maxRandomQuantity
+  const handleRetryPaid = useCallback(async (intent: MintIntent) => {
+    if (!signer || busyKey) return
+    setBusyKey(intent.key)
+    try {
+      const outcome = await retryPaidMint(intent, signer)
+      if (outcome.status === 'minted') {
+        onMintSuccess?.(outcome.blocks)
+      }
+    } catch (error) {
+      onMintError?.(error instanceof Error ? error.message : 'Retry failed')
+    } finally {
+      setBusyKey(null)
+      refreshPaidUnminted()
+    }
+  }, [signer, busyKey, refreshPaidUnminted, onMintSuccess, onMintError])
+
+  const handleRefund = useCallback(async (intent: MintIntent) => {
+    if (!signer || busyKey) return
+    setBusyKey(intent.key)
+    try {
+      await refundPaidMint(intent, signer)
+    } catch (error) {
+      onMintError?.(error instanceof Error ? error.message : 'Refund request failed')
+    } finally {
+      setBusyKey(null)
+      refreshPaidUnminted()
+    }
+  }, [signer, busyKey, refreshPaidUnminted, onMintError])
+
+  const paidUnmintedList = paidUnminted.length > 0 && (
+    <PaidUnmintedList
+      intents={paidUnminted}
+      busyKey={busyKey}
+      canRetry={game.status === 'minting'}
+      onRetry={handleRetryPaid}
+      onRefund={handleRefund}
+    />
+  )
+
+  // Minting signs with the wallet, so it needs one connected
+  const canMint = !!signer && (mintMode === 'select'
+    ? selectedBlocks.size > 0
+    : randomQuantity > 0 && randomQuantity <= maxRandomQuantity)
 
   if (game.status !== 'minting') {
     return (
-      <div className="text-center py-8">
-        <div className="text-gray-500 mb-2">Minting is not available</div>
-        <div className="text-sm text-gray-400">
-          Game status: {game.status}
+      <div className="text-center py-8 space-y-4">
+        <div>
+          <div className="text-gray-500 mb-2">Minting is not available</div>
+          <div className="text-sm text-gray-400">
+            Game status: {game.status}
+          </div>
         </div>
+        {paidUnmintedList}
       </div>
     )
   }
@@ -127,6 +338,8 @@ export const MintingInterface: React.FC<MintingInterfaceProps> = ({
         </p>
       </div>
 
+      {paidUnmintedList}
+
       {/* Mode Selection */}
       <div className="flex justify-center">
         <div className="bg-gray-100 p-1 rounded-lg flex">
@@ -256,10 +469,12 @@ export const MintingInterface: React.FC<MintingInterfaceProps> = ({
             ) : (
               <ShoppingCart className="w-4 h-4" />
             )}
-            {isMinting ? 'Minting...' : `Mint ${formatSOL(calculateCost())}`}
+            {isMinting ? 'Minting...' : signer ? `Mint ${formatSOL(calculateCost())}` : 'Connect wallet to mint'}
           </button>
         </div>
 
+        {paymentState && <PaymentProgress state={paymentState} />}
+
         {/* Selection List (for drag-select mode) */}
         {mintMode === 'select' && selectedBlocks.size > 0 && (
           <div className="border-t pt-4">
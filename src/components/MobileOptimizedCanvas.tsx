@@ -2,11 +2,13 @@ import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { ZoomIn, ZoomOut, Move3D, Smartphone } from 'lucide-react'
 import { cn } from '../lib/utils'
-import type { BlockData, GameData } from '../../../shared/types'
+import { PackedBlocks } from '../lib/blockCodec'
+import type { BlockData, GameData } from '../shared/types'
 
 interface MobileCanvasProps {
   game: GameData
   blocks: BlockData[]
+  packed?: PackedBlocks | null
   selectedBlocks?: Set<number>
   userAddress?: string
   onBlockSelect?: (blockId: number) => void
@@ -18,6 +20,7 @@ interface MobileCanvasProps {
 export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
   game,
   blocks,
+  packed,
   selectedBlocks = new Set(),
   userAddress,
   onBlockSelect,
@@ -43,11 +46,10 @@ export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
   }, [])
 
   // Create efficient block lookup
-  const blockMap = useMemo(() => {
-    const map = new Map<number, BlockData>()
-    blocks.forEach(block => map.set(block.blockId, block))
-    return map
-  }, [blocks])
+  const grid = useMemo(
+    () => packed ?? PackedBlocks.fromBlocks(blocks, game.totalBlocks),
+    [packed, blocks, game.totalBlocks]
+  )
 
   // Mobile-optimized colors (higher contrast)
   const colors = {
@@ -95,17 +97,17 @@ export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
 
     // Render blocks in batches
     blocksToRender.forEach(({ blockId, x, y }) => {
-      const block = blockMap.get(blockId)
+      const status = grid.statusOf(blockId)
       
       // Determine colors
       let fillColor = colors.unsold
       let strokeWidth = 0.5
 
-      if (block) {
-        if (block.status === 'alive') fillColor = colors.alive
-        else if (block.status === 'eliminated') fillColor = colors.eliminated
+      if (status !== 'unsold') {
+        if (status === 'alive') fillColor = colors.alive
+        else if (status === 'eliminated') fillColor = colors.eliminated
         
-        if (block.ownerId === userAddress) {
+        if (userAddress && grid.ownerOf(blockId) === userAddress) {
           ctx.strokeStyle = colors.owned
           strokeWidth = 1.5
         }
@@ -154,7 +156,7 @@ export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
         ctx.fillText('Pinch to zoom • Drag to pan', 10, 50)
       }
     }
-  }, [viewport, cellSize, gap, rows, cols, blockMap, selectedBlocks, revealingBlocks, userAddress, colors, canvasSize, isTouch])
+  }, [viewport, cellSize, gap, rows, cols, grid, selectedBlocks, revealingBlocks, userAddress, colors, canvasSize, isTouch])
 
   // Touch event handlers for mobile
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -241,9 +243,7 @@ export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
 
       if (row >= 0 && row < rows && col >= 0 && col < cols) {
         const blockId = row * cols + col
-        const block = blockMap.get(blockId)
-        
-        if (block && block.status === 'unsold') {
+        if (grid.statusOf(blockId) === 'unsold') {
           if (selectedBlocks.has(blockId)) {
             onBlockDeselect?.(blockId)
           } else {
@@ -252,7 +252,7 @@ export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
         }
       }
     }
-  }, [isDragging, mode, viewport, cellSize, gap, rows, cols, blockMap, selectedBlocks, onBlockSelect, onBlockDeselect])
+  }, [isDragging, mode, viewport, cellSize, gap, rows, cols, grid, selectedBlocks, onBlockSelect, onBlockDeselect])
 
   // Canvas resize for mobile
   useEffect(() => {
@@ -324,13 +324,11 @@ export const MobileOptimizedCanvas: React.FC<MobileCanvasProps> = ({
 
   // Stats
   const stats = useMemo(() => {
-    const alive = blocks.filter(b => b.status === 'alive').length
-    const eliminated = blocks.filter(b => b.status === 'eliminated').length
-    const unsold = game.totalBlocks - blocks.length
-    const owned = userAddress ? blocks.filter(b => b.ownerId === userAddress).length : 0
+    const { alive, eliminated, unsold } = grid.counts()
+    const owned = userAddress ? grid.countOwnedBy(userAddress) : 0
     
     return { alive, eliminated, unsold, owned }
-  }, [blocks, game.totalBlocks, userAddress])
+  }, [grid, userAddress])
 
   return (
     <div className="w-full space-y-3">
@@ -4,8 +4,11 @@ import React, { useState, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { TrendingUp, TrendingDown, Plus, X, Loader2 } from 'lucide-react'
 import { cn, formatSOL, formatDate, getOrderTypeColor } from '@/lib/utils'
-import { orderAPI } from '@/lib/api'
-import type { OrderData, OrderBook as OrderBookType, GameData } from '../../../shared/types'
+import { orderAPI, NotFoundError } from '@/lib/api'
+import { getOrCreateIntent, submitIntent, isDefinitiveFailure } from '@/lib/intents'
+import { signRequest } from '@/lib/signing'
+import { useWallet } from '@/hooks/useWallet'
+import type { OrderData, OrderBook as OrderBookType, GameData, CreateOrderRequest } from '@/shared/types'
 
 interface OrderBookProps {
   gameId: string
@@ -23,7 +26,7 @@ interface CreateOrderFormProps {
   userAddress: string
   type: 'ask' | 'any_bid'
   availableBlocks?: number[]
-  onSubmit: (orderData: any) => void
+  onSubmit: (orderData: CreateOrderRequest) => void
   onCancel: () => void
   isSubmitting: boolean
 }
@@ -47,14 +50,14 @@ const CreateOrderForm: React.FC<CreateOrderFormProps> = ({
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault()
     
-    const orderData = {
+    const orderData: CreateOrderRequest = {
       gameId,
       userId: userAddress,
       type,
       price: parseFloat(formData.price),
       quantity: parseInt(formData.quantity),
       carryOver: formData.carryOver,
-      ...(type === 'ask' && { blockId: parseInt(formData.blockId) })
+      ...(type === 'ask' && { blockId: parseInt(String(formData.blockId)) })
     }
 
     onSubmit(orderData)
@@ -243,6 +246,7 @@ export const OrderBook: React.FC<OrderBookProps> = ({
   const [showCreateForm, setShowCreateForm] = useState<'ask' | 'any_bid' | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [cancellingOrders, setCancellingOrders] = useState<Set<string>>(new Set())
+  const { signer } = useWallet()
 
   // Get user's available blocks for selling
   const userBlocks = userOrders
@@ -252,37 +256,44 @@ export const OrderBook: React.FC<OrderBookProps> = ({
   const availableBlocksForSell = Array.from({ length: game.totalBlocks }, (_, i) => i)
     .filter(blockId => !userBlocks.includes(blockId))
 
-  const handleCreateOrder = useCallback(async (orderData: any) => {
-    if (isSubmitting) return
+  const handleCreateOrder = useCallback(async (orderData: CreateOrderRequest) => {
+    if (isSubmitting || !signer) return
 
     setIsSubmitting(true)
     try {
-      const result = await orderAPI.createOrder(orderData)
-      if (result.success) {
-        onOrderCreated?.(result.order)
-        setShowCreateForm(null)
-      } else {
-        onError?.(result.message || 'Failed to create order')
+      const intent = getOrCreateIntent('create_order', orderData.gameId, orderData)
+      const outcome = await submitIntent(intent, signer)
+      if (outcome.status === 'order_created') {
+        onOrderCreated?.(outcome.order)
       }
+      setShowCreateForm(null)
     } catch (error) {
-      onError?.(error instanceof Error ? error.message : 'Failed to create order')
+      if (isDefinitiveFailure(error)) {
+        onError?.(error instanceof Error ? error.message : 'Failed to create order')
+      } else {
+        onError?.('Order status unknown. Submitting again will not create a duplicate.')
+      }
     } finally {
       setIsSubmitting(false)
     }
-  }, [isSubmitting, onOrderCreated, onError])
+  }, [isSubmitting, signer, onOrderCreated, onError])
 
   const handleCancelOrder = useCallback(async (orderId: string) => {
+    if (!signer) return
     setCancellingOrders(prev => new Set([...prev, orderId]))
     
     try {
-      const result = await orderAPI.cancelOrder(orderId, userAddress)
-      if (result.success) {
+      const body = { userId: userAddress }
+      const signature = await signRequest(signer, 'cancel_order', gameId, { orderId, ...body })
+      await orderAPI.cancelOrder(orderId, { ...body, signature })
+      onOrderCancelled?.(orderId)
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        // Already filled or cancelled elsewhere; drop it from the list
         onOrderCancelled?.(orderId)
       } else {
-        onError?.(result.message || 'Failed to cancel order')
+        onError?.(error instanceof Error ? error.message : 'Failed to cancel order')
       }
-    } catch (error) {
-      onError?.(error instanceof Error ? error.message : 'Failed to cancel order')
     } finally {
       setCancellingOrders(prev => {
         const newSet = new Set(prev)
@@ -290,7 +301,7 @@ export const OrderBook: React.FC<OrderBookProps> = ({
         return newSet
       })
     }
-  }, [userAddress, onOrderCancelled, onError])
+  }, [gameId, userAddress, signer, onOrderCancelled, onError])
 
   return (
     <div className="space-y-4">
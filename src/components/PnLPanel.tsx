@@ -0,0 +1,136 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Download, Loader2, Receipt } from 'lucide-react'
+import { useRoundHistory } from '@/hooks/useRoundHistory'
+import { getMintReceipts } from '@/lib/intents'
+import {
+  buildPnLStatement,
+  downloadCSV,
+  statementFileName,
+  statementToCSV,
+  type LedgerKind
+} from '@/lib/pnl'
+import { cn, formatSOL } from '@/lib/utils'
+import type { BlockData, GameData } from '@/shared/types'
+
+interface PnLPanelProps {
+  game: GameData
+  userAddress: string
+  userBlocks: BlockData[]
+  className?: string
+}
+
+const KIND_LABELS: Record<LedgerKind, string> = {
+  mint: 'Mint',
+  buy: 'Buy',
+  sell: 'Sell',
+  eliminated: 'Eliminated',
+  payout: 'Payout'
+}
+
+function signedSOL(amount: number): string {
+  return `${amount > 0 ? '+' : ''}${formatSOL(amount)}`
+}
+
+function pnlColor(amount: number): string {
+  return amount > 0 ? 'text-green-700' : amount < 0 ? 'text-red-700' : 'text-gray-700'
+}
+
+// Realized and unrealized P&L of the player in this game, exportable as CSV
+export const PnLPanel: React.FC<PnLPanelProps> = ({ game, userAddress, userBlocks, className }) => {
+  const { rounds, trades, loading, error } = useRoundHistory(game)
+  const statement = useMemo(
+    () => {
+      const mints = getMintReceipts(game.gameId, userAddress)
+      return buildPnLStatement(userAddress, game, userBlocks, trades, rounds, mints)
+    },
+    [userAddress, game, userBlocks, trades, rounds]
+  )
+  const { totals } = statement
+
+  return (
+    <div className={cn('bg-white rounded-lg border p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Receipt className="w-4 h-4" />
+          Profit & loss
+          {loading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        </h3>
+        <button
+          onClick={() => downloadCSV(statementFileName(statement), statementToCSV(statement))}
+          disabled={statement.entries.length === 0 && statement.positions.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center text-sm">
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className="font-bold">{formatSOL(totals.paid)}</div>
+          <div className="text-gray-500">Paid</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className="font-bold">{formatSOL(totals.received)}</div>
+          <div className="text-gray-500">Received</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className={cn('font-bold', pnlColor(totals.realized))}>{signedSOL(totals.realized)}</div>
+          <div className="text-gray-500">Realized</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <div className={cn('font-bold', pnlColor(totals.unrealized))}>{signedSOL(totals.unrealized)}</div>
+          <div className="text-gray-500">Unrealized ({formatSOL(totals.value)} held)</div>
+        </div>
+      </div>
+
+      {statement.entries.length === 0 ? (
+        <div className="text-sm text-gray-500 text-center py-4">No mints or trades yet.</div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto border rounded">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left sticky top-0">
+              <tr>
+                <th className="px-3 py-2">Time</th>
+                <th className="px-3 py-2">Block</th>
+                <th className="px-3 py-2">Type</th>
+                <th className="px-3 py-2">Cash flow</th>
+                <th className="px-3 py-2">Cost basis</th>
+                <th className="px-3 py-2">Realized</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statement.entries.map((entry, i) => (
+                <tr key={`${entry.blockId}-${entry.kind}-${entry.tradeId ?? i}`} className="border-t">
+                  <td className="px-3 py-1.5 text-gray-500">
+                    {entry.at ? new Date(entry.at).toLocaleString() : '—'}
+                  </td>
+                  <td className="px-3 py-1.5 font-mono">#{entry.blockId}</td>
+                  <td className="px-3 py-1.5">
+                    {KIND_LABELS[entry.kind]}
+                    {entry.roundNumber !== undefined && entry.roundNumber > 0 && (
+                      <span className="text-xs text-gray-500 ml-1">R{entry.roundNumber}</span>
+                    )}
+                  </td>
+                  <td className={cn('px-3 py-1.5', pnlColor(entry.cashFlow))}>
+                    {entry.cashFlow === 0 ? '—' : signedSOL(entry.cashFlow)}
+                  </td>
+                  <td className="px-3 py-1.5">
+                    {entry.costBasis === undefined ? 'Unknown' : formatSOL(entry.costBasis)}
+                  </td>
+                  <td className={cn('px-3 py-1.5', pnlColor(entry.realized))}>
+                    {entry.realized === 0 ? '—' : signedSOL(entry.realized)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Wallet } from 'lucide-react'
+import { useRoundHistory } from '@/hooks/useRoundHistory'
+import { buildGamePortfolio, type Holding, type PortfolioTotals } from '@/lib/portfolio'
+import { cn, formatSOL, formatPercentage, getOrderTypeColor } from '@/lib/utils'
+import type { BlockData, GameData, OrderData } from '@/shared/types'
+
+interface PortfolioPanelProps {
+  game: GameData
+  userBlocks: BlockData[]
+  userOrders: OrderData[]
+  onBlockClick?: (blockId: number) => void
+  className?: string
+}
+
+function orderLabel(order: OrderData): string {
+  const remaining = order.quantity - (order.filledQuantity ?? 0)
+  const side = order.type === 'ask' ? 'Ask' : 'Bid'
+  return `${side} ${formatSOL(order.price)}${remaining > 1 ? ` ×${remaining}` : ''}`
+}
+
+export const PortfolioTotalsBar: React.FC<{ totals: PortfolioTotals; className?: string }> = ({ totals, className }) => (
+  <div className={cn('grid grid-cols-2 md:grid-cols-4 gap-3 text-center text-sm', className)}>
+    <div className="bg-gray-50 p-3 rounded-lg">
+      <div className="font-bold text-lg">{totals.blocks}</div>
+      <div className="text-gray-500">Blocks owned</div>
+    </div>
+    <div className="bg-green-50 p-3 rounded-lg">
+      <div className="font-bold text-lg text-green-700">{totals.alive}</div>
+      <div className="text-green-600">Alive</div>
+    </div>
+    <div className="bg-blue-50 p-3 rounded-lg">
+      <div className="font-bold text-lg text-blue-700">{formatSOL(totals.cost)}</div>
+      <div className="text-blue-600">Paid</div>
+    </div>
+    <div className="bg-orange-50 p-3 rounded-lg">
+      <div className="font-bold text-lg text-orange-700">{formatSOL(totals.ev)}</div>
+      <div className="text-orange-600">Current EV</div>
+    </div>
+  </div>
+)
+
+export const HoldingsTable: React.FC<{ holdings: Holding[]; onBlockClick?: (blockId: number) => void }> = ({
+  holdings,
+  onBlockClick
+}) => (
+  <div className="overflow-x-auto border rounded">
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50 text-left">
+        <tr>
+          <th className="px-3 py-2">Block</th>
+          <th className="px-3 py-2">Status</th>
+          <th className="px-3 py-2">Paid</th>
+          <th className="px-3 py-2">Acquired</th>
+          <th className="px-3 py-2">EV share</th>
+          <th className="px-3 py-2">Open orders</th>
+        </tr>
+      </thead>
+      <tbody>
+        {holdings.map(({ block, acquiredRound, evShare, poolShare, openOrders }) => (
+          <tr
+            key={block.blockId}
+            onClick={onBlockClick && (() => onBlockClick(block.blockId))}
+            className={cn('border-t', onBlockClick && 'cursor-pointer hover:bg-gray-50')}
+          >
+            <td className="px-3 py-1.5">
+              <span className="font-mono">#{block.blockId}</span>
+              <span className="text-xs text-gray-500 ml-2">
+                ({block.position.row}, {block.position.col})
+              </span>
+            </td>
+            <td className="px-3 py-1.5">
+              <span className={cn(
+                'px-2 py-0.5 rounded text-xs font-medium',
+                block.status === 'alive' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              )}>
+                {block.status === 'eliminated' && block.eliminatedInRound !== undefined
+                  ? `Eliminated R${block.eliminatedInRound}`
+                  : block.status}
+              </span>
+            </td>
+            <td className="px-3 py-1.5">{formatSOL(block.purchasePrice)}</td>
+            <td className="px-3 py-1.5 text-gray-600">
+              {acquiredRound === undefined ? '—' : acquiredRound === 0 ? 'Before R1' : `Round ${acquiredRound}`}
+            </td>
+            <td className="px-3 py-1.5">
+              {evShare > 0 ? (
+                <>
+                  {formatSOL(evShare)}
+                  <span className="text-xs text-gray-500 ml-1">({formatPercentage(poolShare)})</span>
+                </>
+              ) : '—'}
+            </td>
+            <td className="px-3 py-1.5">
+              {openOrders.length === 0 ? (
+                <span className="text-gray-400">—</span>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {openOrders.map(order => (
+                    <span key={order.orderId} className={cn('text-xs px-1.5 py-0.5 rounded', getOrderTypeColor(order.type))}>
+                      {orderLabel(order)}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+)
+
+// The connected player's blocks in one game
+export const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
+  game,
+  userBlocks,
+  userOrders,
+  onBlockClick,
+  className
+}) => {
+  const { rounds } = useRoundHistory(game)
+  const portfolio = useMemo(
+    () => buildGamePortfolio(game, userBlocks, rounds, userOrders),
+    [game, userBlocks, rounds, userOrders]
+  )
+
+  return (
+    <div className={cn('bg-white rounded-lg border p-4 space-y-4', className)}>
+      <h3 className="font-semibold flex items-center gap-2">
+        <Wallet className="w-4 h-4" />
+        My blocks
+      </h3>
+      <PortfolioTotalsBar totals={portfolio.totals} />
+      {portfolio.holdings.length === 0 ? (
+        <div className="text-sm text-gray-500 py-6 text-center">You don't own any blocks in this game yet.</div>
+      ) : (
+        <HoldingsTable holdings={portfolio.holdings} onBlockClick={onBlockClick} />
+      )}
+      {portfolio.otherOrders.length > 0 && (
+        <div className="text-sm">
+          <div className="text-gray-500 mb-1">Other open orders</div>
+          <div className="flex flex-wrap gap-1">
+            {portfolio.otherOrders.map(order => (
+              <span key={order.orderId} className={cn('text-xs px-1.5 py-0.5 rounded', getOrderTypeColor(order.type))}>
+                {orderLabel(order)}{order.blockId !== undefined && ` on #${order.blockId}`}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
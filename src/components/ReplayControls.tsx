@@ -0,0 +1,86 @@
+'use client'
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react'
+import { Circle, Download, FastForward, Square } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  downloadRecording,
+  getDevSession,
+  getDevSessionVersion,
+  stopDevSession,
+  subscribeDevSession,
+} from '@/lib/replay'
+
+const SPEEDS = [1, 4, 16]
+
+function formatClock(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Floating overlay shown while recording or replaying traffic (lib/replay)
+export const ReplayControls: React.FC = () => {
+  useSyncExternalStore(subscribeDevSession, getDevSessionVersion)
+  const session = getDevSession()
+
+  // Replay position moves between events too
+  const [, setTick] = useState(0)
+  useEffect(() => {
+    if (session?.kind !== 'replay') return
+    const timer = setInterval(() => setTick(t => t + 1), 500)
+    return () => clearInterval(timer)
+  }, [session])
+
+  if (!session) return null
+
+  if (session.kind === 'recording') {
+    return (
+      <div className="fixed bottom-4 right-4 z-50 flex items-center gap-3 bg-gray-900 text-white rounded-lg shadow-lg px-4 py-2 text-sm">
+        <Circle className="w-3 h-3 fill-red-500 text-red-500 animate-pulse" />
+        <span>Recording • {session.recorder.entryCount} entries</span>
+        <button
+          onClick={() => {
+            const recording = stopDevSession()
+            if (recording) downloadRecording(recording)
+          }}
+          className="flex items-center gap-1 px-2 py-1 bg-white/10 hover:bg-white/20 rounded"
+        >
+          <Download className="w-3 h-3" />
+          Stop & save
+        </button>
+      </div>
+    )
+  }
+
+  const { session: replay } = session
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex items-center gap-3 bg-gray-900 text-white rounded-lg shadow-lg px-4 py-2 text-sm">
+      <FastForward className="w-4 h-4 text-blue-300" />
+      <span className="font-mono">
+        {formatClock(replay.position)} / {formatClock(replay.recording.durationMs)}
+      </span>
+      {replay.ended && <span className="text-gray-400">ended</span>}
+      <div className="flex gap-1">
+        {SPEEDS.map(speed => (
+          <button
+            key={speed}
+            onClick={() => replay.setSpeed(speed)}
+            className={cn(
+              'px-2 py-1 rounded',
+              replay.speed === speed ? 'bg-blue-600' : 'bg-white/10 hover:bg-white/20'
+            )}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => stopDevSession()}
+        title="Stop replay and reconnect to the server"
+        className="p-1 bg-white/10 hover:bg-white/20 rounded"
+      >
+        <Square className="w-3 h-3" />
+      </button>
+    </div>
+  )
+}
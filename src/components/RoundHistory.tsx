@@ -0,0 +1,296 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { ChevronLeft, ChevronRight, Loader2, Play, Square, X } from 'lucide-react'
+import { GameGrid } from './GameGrid'
+import { useRoundHistory } from '@/hooks/useRoundHistory'
+import { blocksAtRound, eliminatedInRound, tradesInRound } from '@/lib/roundHistory'
+import { cn, formatDate, formatPercentage, formatSOL } from '@/lib/utils'
+import type { BlockData, GameData } from '@/shared/types'
+
+interface RoundHistoryProps {
+  game: GameData
+  blocks: BlockData[]
+  userAddress?: string
+  roundNumber: number
+  onSelectRound: (roundNumber: number) => void
+  onClose: () => void
+}
+
+// Frames in a full replay, however many blocks the round eliminated
+const REPLAY_FRAMES = 40
+const REPLAY_FRAME_MS = 120
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`
+}
+
+// Details of one completed round, opened from the GameTimeline
+export const RoundHistory: React.FC<RoundHistoryProps> = ({
+  game,
+  blocks,
+  userAddress,
+  roundNumber,
+  onSelectRound,
+  onClose
+}) => {
+  const { rounds, trades, loading, error } = useRoundHistory(game)
+  const round = rounds.find(r => r.roundNumber === roundNumber)
+  const completedRounds = rounds.filter(r => r.status === 'completed').map(r => r.roundNumber)
+
+  // Grid as it stood when the round started, and the blocks it eliminated
+  const startBlocks = useMemo(
+    () => (round ? blocksAtRound(blocks, trades, round, 'start') : []),
+    [blocks, trades, round]
+  )
+  const eliminated = useMemo(() => eliminatedInRound(blocks, roundNumber), [blocks, roundNumber])
+  const roundTrades = useMemo(() => (round ? tradesInRound(trades, round) : []), [trades, round])
+
+  // Replay step: how many of the round's eliminations have happened
+  const [step, setStep] = useState(eliminated.length)
+  const [playing, setPlaying] = useState(false)
+  useEffect(() => {
+    setStep(eliminated.length)
+    setPlaying(false)
+  }, [roundNumber, eliminated.length])
+
+  useEffect(() => {
+    if (!playing) return
+    const perFrame = Math.max(1, Math.ceil(eliminated.length / REPLAY_FRAMES))
+    const timer = setInterval(() => {
+      setStep(prev => {
+        const next = Math.min(prev + perFrame, eliminated.length)
+        if (next === eliminated.length) setPlaying(false)
+        return next
+      })
+    }, REPLAY_FRAME_MS)
+    return () => clearInterval(timer)
+  }, [playing, eliminated.length])
+
+  const { gridBlocks, revealing } = useMemo(() => {
+    const done = new Set(eliminated.slice(0, step).map(b => b.blockId))
+    const perFrame = Math.max(1, Math.ceil(eliminated.length / REPLAY_FRAMES))
+    return {
+      gridBlocks: startBlocks.map(block =>
+        done.has(block.blockId) ? { ...block, status: 'eliminated' as const, eliminatedInRound: roundNumber } : block
+      ),
+      revealing: new Set(eliminated.slice(Math.max(0, step - perFrame), step).map(b => b.blockId)),
+    }
+  }, [startBlocks, eliminated, step, roundNumber])
+
+  const ownerAtStart = useMemo(
+    () => new Map(startBlocks.map(b => [b.blockId, b.ownerId])),
+    [startBlocks]
+  )
+  const myLosses = userAddress ? eliminated.filter(b => ownerAtStart.get(b.blockId) === userAddress) : []
+  const myBlocksAtStart = userAddress
+    ? startBlocks.filter(b => b.ownerId === userAddress && b.status === 'alive').length
+    : 0
+
+  const index = completedRounds.indexOf(roundNumber)
+  const previous = index > 0 ? completedRounds[index - 1] : undefined
+  const next = index >= 0 && index < completedRounds.length - 1 ? completedRounds[index + 1] : undefined
+
+  const eliminatedCount = round?.eliminatedCount ?? eliminated.length
+  const survivorCount = round?.survivorCount ?? (round ? round.blocksAtStart - eliminatedCount : 0)
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/50 flex items-start justify-center overflow-y-auto p-2 md:p-8" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-lg shadow-xl w-full max-w-5xl"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => previous !== undefined && onSelectRound(previous)}
+              disabled={previous === undefined}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <h2 className="text-xl font-bold">Round {roundNumber}</h2>
+            <button
+              onClick={() => next !== undefined && onSelectRound(next)}
+              disabled={next === undefined}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {loading && !round && (
+            <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Loading round history…
+            </div>
+          )}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+          )}
+          {!loading && !error && !round && (
+            <div className="py-12 text-center text-gray-500">Round {roundNumber} was not found.</div>
+          )}
+
+          {round && (
+            <>
+              {/* Stats */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-purple-50 p-3 rounded-lg text-center">
+                  <div className="font-bold text-purple-700 text-lg">{formatPercentage(round.eliminationRate)}</div>
+                  <div className="text-purple-600 text-sm">Elimination rate</div>
+                </div>
+                <div className="bg-red-50 p-3 rounded-lg text-center">
+                  <div className="font-bold text-red-700 text-lg">{eliminatedCount}</div>
+                  <div className="text-red-600 text-sm">Eliminated</div>
+                </div>
+                <div className="bg-green-50 p-3 rounded-lg text-center">
+                  <div className="font-bold text-green-700 text-lg">{survivorCount}</div>
+                  <div className="text-green-600 text-sm">Survived of {round.blocksAtStart}</div>
+                </div>
+                <div className="bg-blue-50 p-3 rounded-lg text-center">
+                  <div className="font-bold text-blue-700 text-lg">{formatSOL(round.prizePoolSnapshot)}</div>
+                  <div className="text-blue-600 text-sm">Prize pool</div>
+                </div>
+              </div>
+
+              <div className="text-sm space-y-1">
+                <div className="flex gap-2">
+                  <span className="text-gray-500 w-24 shrink-0">VRF seed</span>
+                  <span className="font-mono break-all">{round.vrfSeed ?? 'not published'}</span>
+                </div>
+                {round.vrfProof && (
+                  <div className="flex gap-2">
+                    <span className="text-gray-500 w-24 shrink-0">VRF proof</span>
+                    <span className="font-mono break-all">{round.vrfProof}</span>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <span className="text-gray-500 w-24 shrink-0">Trading</span>
+                  <span>{formatDate(round.startTime)} – {formatDate(round.tradeCloseTime)}</span>
+                </div>
+                {round.completedAt && (
+                  <div className="flex gap-2">
+                    <span className="text-gray-500 w-24 shrink-0">Completed</span>
+                    <span>{formatDate(round.completedAt)}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* My losses */}
+              {userAddress && (
+                <div className="p-3 rounded-lg border border-yellow-200 bg-yellow-50 text-sm">
+                  <div className="font-semibold text-yellow-800 mb-1">
+                    Your blocks: {myLosses.length} of {myBlocksAtStart} eliminated
+                  </div>
+                  {myLosses.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {myLosses.map(block => (
+                        <span key={block.blockId} className="font-mono text-xs bg-red-100 text-red-800 px-1.5 py-0.5 rounded">
+                          #{block.blockId}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Replay */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Grid during round {roundNumber}</h3>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-500 font-mono">{step}/{eliminated.length}</span>
+                    <button
+                      onClick={() => {
+                        if (playing) {
+                          setPlaying(false)
+                        } else {
+                          if (step >= eliminated.length) setStep(0)
+                          setPlaying(true)
+                        }
+                      }}
+                      disabled={eliminated.length === 0}
+                      className={cn(
+                        'flex items-center gap-1 px-3 py-1 rounded text-white disabled:opacity-50',
+                        playing ? 'bg-gray-600 hover:bg-gray-700' : 'bg-blue-600 hover:bg-blue-700'
+                      )}
+                    >
+                      {playing ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                      {playing ? 'Stop' : 'Replay eliminations'}
+                    </button>
+                  </div>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={eliminated.length}
+                  value={step}
+                  onChange={e => {
+                    setPlaying(false)
+                    setStep(Number(e.target.value))
+                  }}
+                  className="w-full"
+                />
+                <GameGrid
+                  game={game}
+                  blocks={gridBlocks}
+                  userAddress={userAddress}
+                  mode="reveal"
+                  revealingBlocks={revealing}
+                />
+              </div>
+
+              {/* Trades */}
+              <div>
+                <h3 className="font-semibold mb-2">Trades this round ({roundTrades.length})</h3>
+                {roundTrades.length === 0 ? (
+                  <div className="text-sm text-gray-500">No trades.</div>
+                ) : (
+                  <div className="max-h-60 overflow-y-auto border rounded">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-left sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2">Block</th>
+                          <th className="px-3 py-2">Price</th>
+                          <th className="px-3 py-2">Seller → Buyer</th>
+                          <th className="px-3 py-2">Time</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {roundTrades.map(trade => {
+                          const mine = trade.buyerId === userAddress || trade.sellerId === userAddress
+                          return (
+                            <tr key={trade.tradeId} className={cn('border-t', mine && 'bg-yellow-50')}>
+                              <td className="px-3 py-1.5 font-mono">#{trade.blockId}</td>
+                              <td className="px-3 py-1.5">{formatSOL(trade.price)}</td>
+                              <td className="px-3 py-1.5 font-mono text-xs">
+                                {shortAddress(trade.sellerId)} → {shortAddress(trade.buyerId)}
+                              </td>
+                              <td className="px-3 py-1.5 text-gray-500">
+                                {new Date(trade.executedAt).toLocaleTimeString()}
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
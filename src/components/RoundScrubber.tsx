@@ -0,0 +1,179 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { History, Loader2, Pause, Play, SkipBack } from 'lucide-react'
+import { CanvasGameGrid } from './CanvasGameGrid'
+import { useRoundHistory } from '@/hooks/useRoundHistory'
+import { PackedBlocks } from '@/lib/blockCodec'
+import { blocksAtRound } from '@/lib/roundHistory'
+import { cn, formatPercentage } from '@/lib/utils'
+import type { BlockData, GameData } from '@/shared/types'
+
+interface RoundScrubberProps {
+  game: GameData
+  blocks: BlockData[]
+  userAddress?: string
+  className?: string
+}
+
+// How long changed blocks pulse after a step, and the autoplay pace
+const TRANSITION_MS = 1200
+const PLAY_STEP_MS = 1800
+
+// Blocks whose status or owner differ between two grid states
+function changedBlocks(from: PackedBlocks, to: PackedBlocks): Set<number> {
+  const changed = new Set<number>()
+  for (let blockId = 0; blockId < to.count; blockId++) {
+    if (from.statusOf(blockId) !== to.statusOf(blockId) || from.ownerOf(blockId) !== to.ownerOf(blockId)) {
+      changed.add(blockId)
+    }
+  }
+  return changed
+}
+
+// Slider over completed rounds: position 0 is the grid when round 1 began,
+// position n the grid after the n-th completed round
+export const RoundScrubber: React.FC<RoundScrubberProps> = ({ game, blocks, userAddress, className }) => {
+  const { rounds, trades, loading, error } = useRoundHistory(game)
+  const completed = useMemo(() => rounds.filter(r => r.status === 'completed'), [rounds])
+
+  // Grid states are built on first view and kept until the inputs change
+  const snapshots = useMemo(() => new Map<number, { blocks: BlockData[]; packed: PackedBlocks }>(), [blocks, trades, completed])
+  const snapshotAt = (position: number) => {
+    let snapshot = snapshots.get(position)
+    if (!snapshot) {
+      const state = position === 0
+        ? blocksAtRound(blocks, trades, completed[0], 'start')
+        : blocksAtRound(blocks, trades, completed[position - 1], 'end')
+      snapshot = { blocks: state, packed: PackedBlocks.fromBlocks(state, game.totalBlocks) }
+      snapshots.set(position, snapshot)
+    }
+    return snapshot
+  }
+
+  const [position, setPosition] = useState(completed.length)
+  const [playing, setPlaying] = useState(false)
+  const [transitioning, setTransitioning] = useState<Set<number>>(new Set())
+
+  // Follow the latest round unless the user scrubbed back
+  const followLatest = useRef(true)
+  useEffect(() => {
+    if (followLatest.current) setPosition(completed.length)
+  }, [completed.length])
+
+  const snapshot = completed.length > 0 ? snapshotAt(Math.min(position, completed.length)) : null
+
+  // Pulse what changed since the previous position
+  const previous = useRef<PackedBlocks | null>(null)
+  useEffect(() => {
+    if (!snapshot) return
+    const from = previous.current
+    previous.current = snapshot.packed
+    if (!from || from === snapshot.packed) return
+
+    setTransitioning(changedBlocks(from, snapshot.packed))
+    const timer = setTimeout(() => setTransitioning(new Set()), TRANSITION_MS)
+    return () => clearTimeout(timer)
+  }, [snapshot?.packed])
+
+  useEffect(() => {
+    if (!playing) return
+    const timer = setInterval(() => {
+      setPosition(prev => {
+        const next = Math.min(prev + 1, completed.length)
+        if (next === completed.length) {
+          setPlaying(false)
+          followLatest.current = true
+        }
+        return next
+      })
+    }, PLAY_STEP_MS)
+    return () => clearInterval(timer)
+  }, [playing, completed.length])
+
+  const seek = (next: number) => {
+    setPlaying(false)
+    followLatest.current = next === completed.length
+    setPosition(next)
+  }
+
+  const label = position === 0
+    ? 'Start of round 1'
+    : `After round ${completed[position - 1]?.roundNumber}`
+  const counts = snapshot?.packed.counts()
+
+  return (
+    <div className={cn('bg-white rounded-lg border p-4 space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Time travel
+        </h3>
+        {loading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {completed.length === 0 ? (
+        !loading && <div className="text-sm text-gray-500">No completed rounds yet.</div>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => seek(0)}
+              className="p-2 rounded hover:bg-gray-100"
+              title="Back to the start"
+            >
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => {
+                if (playing) {
+                  setPlaying(false)
+                  return
+                }
+                if (position >= completed.length) setPosition(0)
+                followLatest.current = false
+                setPlaying(true)
+              }}
+              className="p-2 rounded bg-blue-600 text-white hover:bg-blue-700"
+              title={playing ? 'Pause' : 'Replay the game'}
+            >
+              {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={completed.length}
+              value={Math.min(position, completed.length)}
+              onChange={e => seek(Number(e.target.value))}
+              className="flex-1"
+            />
+            <div className="text-sm font-medium w-36 text-right">{label}</div>
+          </div>
+
+          {counts && (
+            <div className="flex gap-4 text-xs text-gray-600">
+              <span><span className="inline-block w-2 h-2 rounded-full bg-green-500 mr-1" />{counts.alive} alive</span>
+              <span><span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-1" />{counts.eliminated} eliminated</span>
+              {position > 0 && (
+                <span>{formatPercentage(completed[position - 1].eliminationRate)} elimination rate</span>
+              )}
+            </div>
+          )}
+
+          {snapshot && (
+            <CanvasGameGrid
+              game={game}
+              blocks={snapshot.blocks}
+              packed={snapshot.packed}
+              userAddress={userAddress}
+              mode="view"
+              revealingBlocks={transitioning}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -11,7 +11,7 @@ import {
   Timer
 } from 'lucide-react'
 import { cn, formatTime } from '../lib/utils'
-import type { RoundData, GameData } from '../../../shared/types'
+import type { RoundData, GameData } from '../shared/types'
 
 interface RoundTimerProps {
   game: GameData
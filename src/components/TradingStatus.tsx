@@ -11,7 +11,7 @@ import {
 } from 'lucide-react'
 import { cn } from '../lib/utils'
 import { useRoundTimer } from './RoundTimer'
-import type { RoundData, GameData } from '../../../shared/types'
+import type { RoundData, GameData } from '../shared/types'
 
 interface TradingStatusProps {
   game: GameData
@@ -189,24 +189,26 @@ export const TradingStatus: React.FC<TradingStatusProps> = ({
         )}
 
         {/* Round Info */}
-        <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
-          <div className="text-center">
-            <div className="font-semibold">{currentRound.blocksAtStart.toLocaleString()}</div>
-            <div className="opacity-70">Blocks at Start</div>
-          </div>
-          <div className="text-center">
-            <div className="font-semibold">{(currentRound.eliminationRate * 100).toFixed(1)}%</div>
-            <div className="opacity-70">Elimination Rate</div>
-          </div>
-          <div className="text-center">
-            <div className="font-semibold">{game.config.roundDuration}s</div>
-            <div className="opacity-70">Round Duration</div>
-          </div>
-          <div className="text-center">
-            <div className="font-semibold">{currentRound.prizePoolSnapshot.toFixed(2)} SOL</div>
-            <div className="opacity-70">Prize Pool</div>
+        {currentRound && (
+          <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+            <div className="text-center">
+              <div className="font-semibold">{currentRound.blocksAtStart.toLocaleString()}</div>
+              <div className="opacity-70">Blocks at Start</div>
+            </div>
+            <div className="text-center">
+              <div className="font-semibold">{(currentRound.eliminationRate * 100).toFixed(1)}%</div>
+              <div className="opacity-70">Elimination Rate</div>
+            </div>
+            <div className="text-center">
+              <div className="font-semibold">{game.config.roundDuration}s</div>
+              <div className="opacity-70">Round Duration</div>
+            </div>
+            <div className="text-center">
+              <div className="font-semibold">{currentRound.prizePoolSnapshot.toFixed(2)} SOL</div>
+              <div className="opacity-70">Prize Pool</div>
+            </div>
           </div>
-        </div>
+        )}
       </motion.div>
 
       {/* Mobile Quick Stats */}
@@ -3,7 +3,7 @@
 import React, { useMemo, useCallback, useState, useRef, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { cn, getBlockStatusColor } from '@/lib/utils'
-import type { BlockData, GameData } from '../../../shared/types'
+import type { BlockData, GameData } from '@/shared/types'
 
 interface VirtualizedGameGridProps {
   game: GameData
@@ -150,13 +150,12 @@ export const VirtualizedGameGrid: React.FC<VirtualizedGameGridProps> = ({
         >
           {/* Render only visible blocks */}
           {visibleBlocks.map(({ blockId, row, col, block }) => {
-            const actualBlock = block || {
+            const actualBlock: BlockData = block || {
               gameId: game.gameId,
               blockId,
               position: { row, col },
               status: 'unsold' as const,
-              purchasePrice: game.config.blockPrice,
-              transactionHistory: []
+              purchasePrice: game.config.blockPrice
             }
 
             const isSelected = selectedBlocks.has(blockId)
@@ -0,0 +1,109 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Wallet, LogOut, Loader2, ChevronDown } from 'lucide-react'
+import { useWallet } from '@/hooks/useWallet'
+import { cn, shortenAddress } from '@/lib/utils'
+
+interface WalletButtonProps {
+  className?: string
+}
+
+export const WalletButton: React.FC<WalletButtonProps> = ({ className }) => {
+  const { adapters, adapter, address, status, error, connect, disconnect } = useWallet()
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close the menu on outside click
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const connecting = status === 'connecting'
+
+  return (
+    <div ref={menuRef} className={cn('relative', className)}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={connecting}
+        className={cn(
+          'flex items-center gap-1 md:gap-2 px-3 py-2 rounded text-sm transition-colors disabled:opacity-50',
+          address
+            ? 'bg-gray-100 text-gray-900 hover:bg-gray-200'
+            : 'bg-blue-600 text-white hover:bg-blue-700'
+        )}
+      >
+        {connecting ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Wallet className="w-4 h-4" />
+        )}
+        <span className={cn(address ? 'font-mono text-xs' : 'hidden sm:inline')}>
+          {address ? shortenAddress(address) : 'Connect'}
+        </span>
+        <ChevronDown className="w-3 h-3 hidden sm:block" />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="absolute right-0 mt-2 w-56 bg-white rounded-lg border shadow-lg z-50 p-2"
+          >
+            {address ? (
+              <>
+                <div className="px-2 py-1 text-xs text-gray-500">{adapter?.name}</div>
+                <div className="px-2 pb-2 font-mono text-xs break-all">{address}</div>
+                <button
+                  onClick={() => {
+                    setOpen(false)
+                    disconnect()
+                  }}
+                  className="w-full flex items-center gap-2 px-2 py-2 text-sm text-red-600 rounded hover:bg-red-50"
+                >
+                  <LogOut className="w-4 h-4" />
+                  Disconnect
+                </button>
+              </>
+            ) : (
+              <>
+                {adapters.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => {
+                      setOpen(false)
+                      connect(option.id)
+                    }}
+                    disabled={!option.available}
+                    className="w-full flex items-center justify-between px-2 py-2 text-sm rounded hover:bg-gray-50 disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <span>{option.name}</span>
+                    {!option.available && (
+                      <span className="text-xs text-gray-400">Not installed</span>
+                    )}
+                  </button>
+                ))}
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {error && !open && (
+        <div className="absolute right-0 mt-1 text-xs text-red-600 whitespace-nowrap">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
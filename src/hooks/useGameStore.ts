@@ -0,0 +1,99 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { isAbortError } from '@/lib/api'
+import { getGameStore, type GameState, type GameStore } from '@/lib/gameStore'
+import { useConnectionStatus, useWebSocketEvent } from '@/lib/websocket'
+
+// Snapshot polling interval while the socket is down or degraded
+const POLL_INTERVAL_MS = 15_000
+
+// Reads a slice of a game's store; re-renders only when the slice changes.
+// Selectors must return stable references for unchanged data (the ones in
+// lib/gameStore do).
+export function useGameStore<T>(gameId: string, selector: (state: GameState) => T): T {
+  const store = useMemo(() => getGameStore(gameId), [gameId])
+  const getSnapshot = useCallback(() => selector(store.getState()), [store, selector])
+  return useSyncExternalStore(store.subscribe, getSnapshot)
+}
+
+// Keeps a game's store fed: loads it over REST when the game or wallet
+// changes, then applies socket events as partial updates, falling back to
+// polling while the socket is unhealthy.
+export function useGameStoreSync(gameId: string, userAddress: string | null): GameStore {
+  const store = useMemo(() => getGameStore(gameId), [gameId])
+
+  // Full load when the page opens (cached data stays on screen meanwhile);
+  // a wallet switch afterwards only reloads that wallet's orders. Leaving the
+  // page or switching games cancels whatever is still in flight.
+  useEffect(() => {
+    const { status, userAddress: loadedFor } = store.getState()
+    // A load for this wallet is already running; still cancel it on the way out
+    if (status === 'loading' && loadedFor === userAddress) return () => store.abort()
+
+    const controller = new AbortController()
+    if (status !== 'ready' || loadedFor === userAddress) {
+      store.load(userAddress, controller.signal)
+      return () => controller.abort()
+    }
+
+    store.loadUserOrders(userAddress, controller.signal).catch((err) => {
+      if (!isAbortError(err)) {
+        console.warn('Failed to load user orders:', err)
+      }
+    })
+    return () => controller.abort()
+  }, [store, userAddress])
+
+  // Without a healthy socket, events may be missing or late: poll snapshots
+  // until it recovers (reconnecting also requests fresh state)
+  const { health } = useConnectionStatus()
+  useEffect(() => {
+    if (health === 'connected') return
+    const controller = new AbortController()
+    const timer = setInterval(() => {
+      store.refresh(controller.signal).catch((err) => {
+        if (!isAbortError(err)) {
+          console.warn('Polling refresh failed:', err)
+        }
+      })
+    }, POLL_INTERVAL_MS)
+    return () => {
+      clearInterval(timer)
+      controller.abort()
+    }
+  }, [store, health])
+
+  useWebSocketEvent(
+    'game_state_update',
+    useCallback((data) => {
+      if (data.gameId === gameId) store.applyGameState(data)
+    }, [gameId, store])
+  )
+
+  useWebSocketEvent(
+    'block_deltas',
+    useCallback((data) => {
+      if (data.gameId === gameId) store.applyDeltas(data)
+    }, [gameId, store])
+  )
+
+  useWebSocketEvent(
+    'order_book_update',
+    useCallback((data) => {
+      if (data.gameId === gameId) store.setOrderBook(data.orderBook)
+    }, [gameId, store])
+  )
+
+  useWebSocketEvent(
+    'round_started',
+    useCallback((data) => {
+      if (data.gameId !== gameId) return
+      store.refreshCurrentRound().catch((err) => {
+        console.warn('Failed to refresh current round:', err)
+      })
+    }, [gameId, store])
+  )
+
+  return store
+}
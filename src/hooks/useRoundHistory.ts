@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  getCachedRoundHistory,
+  loadRoundHistory,
+  roundHistoryVersion,
+  type RoundHistory,
+} from '@/lib/roundHistory'
+import { getRoundNumber, type GameData } from '@/shared/types'
+
+interface RoundHistoryState extends RoundHistory {
+  loading: boolean
+  error: string | null
+}
+
+const EMPTY: RoundHistory = { rounds: [], trades: [] }
+
+// All rounds and trades of a game, from the per-game cache in lib/roundHistory.
+// Refetches when a round starts or the game changes status.
+export function useRoundHistory(game: GameData | null): RoundHistoryState {
+  const gameId = game?.gameId ?? null
+  const version = roundHistoryVersion(game ? getRoundNumber(game) : 0, game?.status ?? '')
+
+  const [state, setState] = useState<RoundHistoryState>(() => ({
+    ...(gameId ? getCachedRoundHistory(gameId) ?? EMPTY : EMPTY),
+    loading: false,
+    error: null,
+  }))
+
+  useEffect(() => {
+    if (!gameId) return
+    let cancelled = false
+
+    const cached = getCachedRoundHistory(gameId, version)
+    if (cached) {
+      setState({ ...cached, loading: false, error: null })
+      return
+    }
+
+    // Keep showing an older version while the new one loads
+    setState(prev => ({ ...(getCachedRoundHistory(gameId) ?? prev), loading: true, error: null }))
+    loadRoundHistory(gameId, version)
+      .then(history => {
+        if (!cancelled) setState({ ...history, loading: false, error: null })
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: err instanceof Error ? err.message : 'Failed to load round history',
+        }))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [gameId, version])
+
+  return state
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import type { Transaction } from '@solana/web3.js'
+import {
+  createWalletAdapters,
+  readWalletSession,
+  writeWalletSession,
+  type WalletAdapter,
+  type WalletAdapterId,
+  type WalletSigner,
+} from '@/lib/wallet'
+
+type WalletStatus = 'disconnected' | 'connecting' | 'connected'
+
+interface WalletContextValue {
+  adapters: WalletAdapter[]
+  adapter: WalletAdapter | null
+  address: string | null
+  status: WalletStatus
+  error: string | null
+  connect: (adapterId: WalletAdapterId) => Promise<void>
+  disconnect: () => Promise<void>
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>
+  // Null until connected; signs API requests and payment transactions
+  signer: WalletSigner | null
+}
+
+const WalletContext = createContext<WalletContextValue | null>(null)
+
+export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const adapters = useMemo(() => createWalletAdapters(), [])
+  const [adapter, setAdapter] = useState<WalletAdapter | null>(null)
+  const [address, setAddress] = useState<string | null>(null)
+  const [status, setStatus] = useState<WalletStatus>('disconnected')
+  const [error, setError] = useState<string | null>(null)
+
+  const connect = useCallback(async (adapterId: WalletAdapterId) => {
+    const next = adapters.find(a => a.id === adapterId)
+    if (!next) return
+
+    setStatus('connecting')
+    setError(null)
+    try {
+      await adapter?.disconnect()
+      const connected = await next.connect()
+      setAdapter(next)
+      setAddress(connected)
+      setStatus('connected')
+      writeWalletSession({ adapterId, address: connected })
+    } catch (err) {
+      setAdapter(null)
+      setAddress(null)
+      setStatus('disconnected')
+      setError(err instanceof Error ? err.message : 'Failed to connect wallet')
+    }
+  }, [adapters, adapter])
+
+  const disconnect = useCallback(async () => {
+    writeWalletSession(null)
+    setAdapter(null)
+    setAddress(null)
+    setStatus('disconnected')
+    try {
+      await adapter?.disconnect()
+    } catch (err) {
+      console.warn('Wallet disconnect failed:', err)
+    }
+  }, [adapter])
+
+  const signMessage = useCallback(async (message: Uint8Array) => {
+    if (!adapter) throw new Error('Wallet not connected')
+    return adapter.signMessage(message)
+  }, [adapter])
+
+  // Restore the previous session silently; injected wallets only reconnect
+  // if the user already trusted this site, so no popup appears on load.
+  useEffect(() => {
+    const session = readWalletSession()
+    if (!session) return
+    const previous = adapters.find(a => a.id === session.adapterId)
+    if (!previous?.available) return
+
+    let cancelled = false
+    setStatus('connecting')
+    previous.connect({ onlyIfTrusted: true })
+      .then((restored) => {
+        if (cancelled) return
+        setAdapter(previous)
+        setAddress(restored)
+        setStatus('connected')
+        writeWalletSession({ adapterId: previous.id, address: restored })
+      })
+      .catch(() => {
+        if (cancelled) return
+        setStatus('disconnected')
+        writeWalletSession(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [adapters])
+
+  const signTransaction = useCallback(async (transaction: Transaction) => {
+    if (!adapter) throw new Error('Wallet not connected')
+    return adapter.signTransaction(transaction)
+  }, [adapter])
+
+  const signer = useMemo<WalletSigner | null>(
+    () => (address ? { address, signMessage, signTransaction } : null),
+    [address, signMessage, signTransaction]
+  )
+
+  const value = useMemo<WalletContextValue>(() => ({
+    adapters,
+    adapter,
+    address,
+    status,
+    error,
+    connect,
+    disconnect,
+    signMessage,
+    signer,
+  }), [adapters, adapter, address, status, error, connect, disconnect, signMessage, signer])
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>
+}
+
+export function useWallet(): WalletContextValue {
+  const context = useContext(WalletContext)
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider')
+  }
+  return context
+}
@@ -1,6 +1,29 @@
 'use client'
 
-import { useEffect, useRef, useCallback } from 'react'
+import { useEffect, useRef, useCallback, useState } from 'react'
+import {
+  WorkerRpc,
+  WorkerRpcError,
+  type RpcCallOptions,
+  type RpcMethods,
+  type WorkerPerformanceReport,
+} from '@/lib/workerRpc'
+import { VRFWorkerPool } from '@/lib/vrfPool'
+import { runVRFBenchmark, type BenchmarkResult } from '@/lib/vrfBenchmark'
+import {
+  runEliminationSimulation,
+  type SimulationConfig,
+  type SimulationSummary,
+} from '@/lib/eliminationSimulator'
+import {
+  VRF_WORKER_URL,
+  packRoundResults,
+  packedBuffers,
+  unpackRoundResults,
+  type RoundVerificationReport,
+  type VRFWorkerMethods,
+} from '@/lib/vrfProtocol'
+import type { RoundResult } from '@/shared/types'
 
 interface WebWorkerMessage {
   type: string
@@ -10,42 +33,76 @@ interface WebWorkerMessage {
 interface UseWebWorkerOptions {
   onMessage?: (message: WebWorkerMessage) => void
   onError?: (error: ErrorEvent) => void
+  onPerformance?: (report: WorkerPerformanceReport) => void
 }
 
-export function useWebWorker(scriptPath: string, options?: UseWebWorkerOptions) {
+export function useWebWorker<M extends RpcMethods = RpcMethods>(
+  scriptPath: string,
+  options?: UseWebWorkerOptions
+) {
   const workerRef = useRef<Worker | null>(null)
+  const rpcRef = useRef<WorkerRpc<M> | null>(null)
   const messageHandlersRef = useRef<Map<string, (data: any) => void>>(new Map())
+  const [isAvailable, setIsAvailable] = useState(false)
+
+  // Latest callbacks without restarting the worker when they change
+  const optionsRef = useRef(options)
+  optionsRef.current = options
 
   // Initialize worker
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      workerRef.current = new Worker(scriptPath)
-      
-      workerRef.current.onmessage = (e) => {
-        const { type, data } = e.data
-        
-        // Call specific handler if exists
-        const handler = messageHandlersRef.current.get(type)
-        if (handler) {
-          handler(data)
-        }
-        
-        // Call general message handler
-        options?.onMessage?.(e.data)
-      }
-      
-      workerRef.current.onerror = (error) => {
-        console.error('WebWorker error:', error)
-        options?.onError?.(error)
+    if (typeof window === 'undefined') return
+
+    const worker = new Worker(scriptPath)
+    const rpc = new WorkerRpc<M>(worker)
+    workerRef.current = worker
+    rpcRef.current = rpc
+
+    worker.addEventListener('message', (e) => {
+      const { id, type, data } = e.data
+      // RPC replies are settled by WorkerRpc
+      if (typeof id === 'number') return
+
+      // Call specific handler if exists
+      const handler = messageHandlersRef.current.get(type)
+      if (handler) {
+        handler(data)
       }
-    }
+
+      // Call general message handler
+      optionsRef.current?.onMessage?.(e.data)
+    })
+
+    worker.addEventListener('error', (error) => {
+      console.error('WebWorker error:', error)
+      optionsRef.current?.onError?.(error)
+    })
+
+    const offPerformance = rpc.onPerformance(report => optionsRef.current?.onPerformance?.(report))
+    setIsAvailable(true)
 
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate()
-      }
+      offPerformance()
+      rpc.dispose()
+      worker.terminate()
+      workerRef.current = null
+      rpcRef.current = null
+      setIsAvailable(false)
     }
-  }, [scriptPath, options])
+  }, [scriptPath])
+
+  // Request/response call; see lib/workerRpc
+  const call = useCallback(<K extends keyof M & string>(
+    method: K,
+    data: M[K]['request'],
+    callOptions?: RpcCallOptions
+  ): Promise<M[K]['response']> => {
+    const rpc = rpcRef.current
+    if (!rpc) {
+      return Promise.reject(new WorkerRpcError(method, 'Worker is not available'))
+    }
+    return rpc.call(method, data, callOptions)
+  }, [])
 
   // Send message to worker
   const postMessage = useCallback((type: string, data: any) => {
@@ -65,88 +122,276 @@ export function useWebWorker(scriptPath: string, options?: UseWebWorkerOptions)
   }, [])
 
   return {
+    call,
     postMessage,
     onMessage,
     offMessage,
-    isAvailable: !!workerRef.current
+    isAvailable
   }
 }
 
-// Hook specifically for VRF calculations
+export interface RoundVerificationRequest {
+  roundNumber: number
+  seed: string
+  proof?: string
+  eliminationRate: number
+  results: RoundResult[]
+}
+
+// Hook specifically for VRF calculations. Worker timings are recorded in
+// the shared performance metrics.
 export function useVRFWorker() {
-  const worker = useWebWorker('/vrf-worker.js')
-  
-  const calculateEliminations = useCallback((
+  const { call, isAvailable } = useWebWorker<VRFWorkerMethods>(VRF_WORKER_URL, {
+    onPerformance: ({ operation, duration, dataSize }) => recordPerformanceMetric(operation, duration, dataSize),
+  })
+
+  // A Uint32Array argument is transferred to the worker and unusable after
+  const calculateEliminations = useCallback(async (
     seed: string,
     roundNumber: number,
-    blockIds: number[],
-    eliminationRate: number
+    blockIds: number[] | Uint32Array,
+    eliminationRate: number,
+    options?: Omit<RpcCallOptions, 'transfer'>
+  ): Promise<RoundResult[]> => {
+    const ids = blockIds instanceof Uint32Array ? blockIds : Uint32Array.from(blockIds)
+    const { results } = await call('CALCULATE_ELIMINATIONS', {
+      seed,
+      roundNumber,
+      blockIds: ids,
+      eliminationRate
+    }, { ...options, transfer: [ids.buffer] })
+    return unpackRoundResults(results)
+  }, [call])
+
+  const processRoundResults = useCallback(async (
+    results: RoundResult[],
+    options?: Omit<RpcCallOptions, 'transfer'>
   ) => {
-    return new Promise((resolve) => {
-      worker.onMessage('ELIMINATIONS_CALCULATED', resolve)
-      worker.postMessage('CALCULATE_ELIMINATIONS', {
-        seed,
-        roundNumber,
-        blockIds,
-        eliminationRate
-      })
+    const packed = packRoundResults(results)
+    const processed = await call('PROCESS_ROUND_RESULTS', { results: packed }, {
+      ...options,
+      transfer: packedBuffers(packed)
     })
-  }, [worker])
+    return {
+      survivors: Array.from(processed.survivors),
+      eliminated: Array.from(processed.eliminated),
+      stats: processed.stats
+    }
+  }, [call])
 
-  const processRoundResults = useCallback((
-    results: any[],
-    gameState: any
-  ) => {
-    return new Promise((resolve) => {
-      worker.onMessage('ROUND_RESULTS_PROCESSED', resolve)
-      worker.postMessage('PROCESS_ROUND_RESULTS', {
-        results,
-        gameState
-      })
+  const verifyRound = useCallback((
+    { results, ...request }: RoundVerificationRequest,
+    options?: Omit<RpcCallOptions, 'transfer'>
+  ): Promise<RoundVerificationReport> => {
+    const packed = packRoundResults(results)
+    return call('VERIFY_ROUND', { ...request, results: packed }, {
+      ...options,
+      transfer: packedBuffers(packed)
     })
-  }, [worker])
+  }, [call])
 
   return {
     calculateEliminations,
     processRoundResults,
-    isAvailable: worker.isAvailable
+    verifyRound,
+    isAvailable
+  }
+}
+
+// Pool of VRF workers for large grids, sized to the machine's cores.
+// Null until mounted.
+export function useVRFWorkerPool(size?: number) {
+  const [pool, setPool] = useState<VRFWorkerPool | null>(null)
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const instance = new VRFWorkerPool(size)
+    const offPerformance = instance.onPerformance(({ operation, duration, dataSize }) =>
+      recordPerformanceMetric(operation, duration, dataSize)
+    )
+    setPool(instance)
+    return () => {
+      offPerformance()
+      instance.dispose()
+      setPool(null)
+    }
+  }, [size])
+
+  return pool
+}
+
+export type RoundVerification =
+  | { status: 'unavailable' } // no seed or elimination rate published
+  | { status: 'verifying'; progress: number } // 0..1
+  | { status: 'verified'; report: RoundVerificationReport }
+  | { status: 'mismatch'; report: RoundVerificationReport }
+  | { status: 'error'; message: string }
+
+// Recomputes a completed round in the VRF worker pool and reports whether
+// the announced eliminations follow from its seed
+export function useRoundVerification(request: Partial<RoundVerificationRequest> & { results: RoundResult[] }) {
+  const pool = useVRFWorkerPool()
+  const { roundNumber, seed, proof, eliminationRate, results } = request
+  const [verification, setVerification] = useState<RoundVerification>({ status: 'verifying', progress: 0 })
+
+  useEffect(() => {
+    if (roundNumber === undefined || !seed || eliminationRate === undefined) {
+      setVerification({ status: 'unavailable' })
+      return
+    }
+    if (!pool) return
+
+    const controller = new AbortController()
+    setVerification({ status: 'verifying', progress: 0 })
+    pool.verifyRound({ roundNumber, seed, proof, eliminationRate, results: packRoundResults(results) }, {
+      signal: controller.signal,
+      onProgress: (done, total) => {
+        if (!controller.signal.aborted) setVerification({ status: 'verifying', progress: total > 0 ? done / total : 1 })
+      },
+    })
+      .then(report => {
+        setVerification({ status: report.verified ? 'verified' : 'mismatch', report })
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) setVerification({ status: 'error', message: error.message })
+      })
+    return () => controller.abort()
+  }, [pool, roundNumber, seed, proof, eliminationRate, results])
+
+  return verification
+}
+
+// Times VRF work on one worker and on the full pool across grid sizes;
+// every run is recorded in the performance metrics as benchmark:<workers>w:<blocks>
+export function useVRFBenchmark() {
+  const { recordMetric } = usePerformanceMonitor()
+  const [results, setResults] = useState<BenchmarkResult[]>([])
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const run = useCallback(async (gridSizes: number[]) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setResults([])
+    setRunning(true)
+    try {
+      await runVRFBenchmark(gridSizes, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        onResult: (result) => {
+          recordMetric(`benchmark:${result.workers}w:${result.blocks}`, result.durationMs, result.blocks)
+          setResults(prev => [...prev, result])
+        },
+      })
+    } finally {
+      if (controllerRef.current === controller) setRunning(false)
+    }
+  }, [recordMetric])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    setRunning(false)
+  }, [])
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  return { run, cancel, results, running, progress }
+}
+
+// Monte Carlo runs of a game config on the shared VRF worker pool
+export function useEliminationSimulation() {
+  const pool = useVRFWorkerPool()
+  const [summary, setSummary] = useState<SimulationSummary | null>(null)
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const run = useCallback(async (config: SimulationConfig, runs?: number) => {
+    if (!pool) return
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setRunning(true)
+    setProgress(0)
+    setError(null)
+    try {
+      const result = await runEliminationSimulation(pool, config, {
+        runs,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(done / total),
+      })
+      if (!controller.signal.aborted) setSummary(result)
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'Simulation failed')
+    } finally {
+      if (controllerRef.current === controller) setRunning(false)
+    }
+  }, [pool])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    setRunning(false)
+  }, [])
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  return { run, cancel, summary, running, progress, error, isAvailable: pool !== null }
+}
+
+interface PerformanceSample {
+  duration: number
+  dataSize?: number
+}
+
+// Metrics are shared by every monitor, so worker reports recorded by one
+// hook show up in all of them
+const performanceMetrics = new Map<string, PerformanceSample[]>()
+
+export function recordPerformanceMetric(operation: string, duration: number, dataSize?: number) {
+  const metrics = performanceMetrics.get(operation) || []
+  metrics.push({ duration, dataSize })
+
+  // Keep only last 10 measurements
+  if (metrics.length > 10) {
+    metrics.shift()
   }
+
+  performanceMetrics.set(operation, metrics)
 }
 
 // Hook for performance monitoring
 export function usePerformanceMonitor() {
-  const metricsRef = useRef<Map<string, number[]>>(new Map())
-  
   const recordMetric = useCallback((operation: string, duration: number, dataSize?: number) => {
-    const metrics = metricsRef.current.get(operation) || []
-    metrics.push(duration)
-    
-    // Keep only last 10 measurements
-    if (metrics.length > 10) {
-      metrics.shift()
-    }
-    
-    metricsRef.current.set(operation, metrics)
+    recordPerformanceMetric(operation, duration, dataSize)
   }, [])
 
   const getAverageMetric = useCallback((operation: string) => {
-    const metrics = metricsRef.current.get(operation) || []
+    const metrics = performanceMetrics.get(operation) || []
     if (metrics.length === 0) return 0
-    
-    return metrics.reduce((sum, m) => sum + m, 0) / metrics.length
+
+    return metrics.reduce((sum, m) => sum + m.duration, 0) / metrics.length
   }, [])
 
+  // throughput is items per second over the samples that reported a size
   const getAllMetrics = useCallback(() => {
-    const result: Record<string, { avg: number, last: number, count: number }> = {}
-    
-    for (const [operation, metrics] of metricsRef.current) {
+    const result: Record<string, { avg: number, last: number, count: number, throughput?: number }> = {}
+
+    for (const [operation, metrics] of performanceMetrics) {
+      const sized = metrics.filter(m => m.dataSize !== undefined && m.duration > 0)
+      const sizedDuration = sized.reduce((sum, m) => sum + m.duration, 0)
       result[operation] = {
-        avg: metrics.reduce((sum, m) => sum + m, 0) / metrics.length,
-        last: metrics[metrics.length - 1] || 0,
-        count: metrics.length
+        avg: metrics.reduce((sum, m) => sum + m.duration, 0) / metrics.length,
+        last: metrics[metrics.length - 1]?.duration || 0,
+        count: metrics.length,
+        throughput: sized.length > 0
+          ? sized.reduce((sum, m) => sum + m.dataSize!, 0) / sizedDuration * 1000
+          : undefined
       }
     }
-    
+
     return result
   }, [])
 
@@ -155,4 +400,4 @@ export function usePerformanceMonitor() {
     getAverageMetric,
     getAllMetrics
   }
-}
\ No newline at end of file
+}
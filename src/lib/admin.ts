@@ -0,0 +1,13 @@
+// Wallets allowed into the admin console, from VITE_ADMIN_ADDRESSES
+// (comma separated). This only hides the UI; the backend must still
+// authorize every /admin request itself.
+const ADMIN_ADDRESSES = new Set(
+  (import.meta.env.VITE_ADMIN_ADDRESSES ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean)
+)
+
+export function isAdminAddress(address: string | null | undefined): boolean {
+  return !!address && ADMIN_ADDRESSES.has(address)
+}
@@ -1,198 +1,761 @@
+import { SCHEMA_VERSION, SCHEMA_VERSION_HEADER } from "../shared/schema";
+import { PACKED_BLOCKS_CONTENT_TYPE, PackedBlocks } from "./blockCodec";
+import {
+  ContractError,
+  responseValidators,
+  type Validator,
+} from "../shared/validators";
+import type {
+  AdminActionRequest,
+  APIResponse,
+  APISuccess,
+  BlockData,
+  CancelOrderRequest,
+  CreateGameRequest,
+  CreateOrderRequest,
+  ForceVRFRequest,
+  GameData,
+  GameDetail,
+  GameLifecycleRequest,
+  GameStats,
+  MarketStats,
+  MintBlocksRequest,
+  OrderBook,
+  OrderData,
+  RefundPaymentRequest,
+  RoundData,
+  RoundResult,
+  Signed,
+  SystemStatus,
+  TradeData,
+} from "../shared/types";
+
 const API_BASE_URL =
   import.meta.env.VITE_API_URL || "http://localhost:3005/api";
 
+// Sends one HTTP request. Swapped out to record or replay traffic (lib/replay).
+export type FetchTransport = (
+  endpoint: string,
+  init: RequestInit
+) => Promise<Response>;
+
+const networkTransport: FetchTransport = (endpoint, init) =>
+  fetch(`${API_BASE_URL}${endpoint}`, init);
+
+let fetchTransport = networkTransport;
+
+// Installs a transport (null restores the network); returns the one replaced
+export function setFetchTransport(
+  transport: FetchTransport | null
+): FetchTransport {
+  const previous = fetchTransport;
+  fetchTransport = transport ?? networkTransport;
+  return previous;
+}
+
+export type APIErrorKind =
+  | "validation"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "network"
+  | "timeout"
+  | "server"
+  | "unknown";
+
 export class APIError extends Error {
-  constructor(public status: number, message: string) {
+  readonly kind: APIErrorKind = "unknown";
+
+  constructor(public status: number, message: string, public code?: string) {
     super(message);
     this.name = "APIError";
   }
 }
 
-async function fetchAPI<T = any>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-
-  const response = await fetch(url, {
-    headers: {
-      "Content-Type": "application/json",
-      ...options.headers,
-    },
+// Request rejected as malformed or not allowed in the current game phase (400/422)
+export class ValidationError extends APIError {
+  readonly kind = "validation" as const;
+
+  constructor(
+    status: number,
+    message: string,
+    code?: string,
+    public fields: Record<string, string> = {}
+  ) {
+    super(status, message, code);
+    this.name = "ValidationError";
+  }
+}
+
+export class NotFoundError extends APIError {
+  readonly kind = "not_found" as const;
+
+  constructor(status: number, message: string, code?: string) {
+    super(status, message, code);
+    this.name = "NotFoundError";
+  }
+}
+
+// State changed underneath the request, e.g. a block was minted by someone else
+export class ConflictError extends APIError {
+  readonly kind = "conflict" as const;
+
+  constructor(status: number, message: string, code?: string) {
+    super(status, message, code);
+    this.name = "ConflictError";
+  }
+}
+
+export class RateLimitedError extends APIError {
+  readonly kind = "rate_limited" as const;
+
+  constructor(
+    status: number,
+    message: string,
+    code?: string,
+    public retryAfterMs?: number
+  ) {
+    super(status, message, code);
+    this.name = "RateLimitedError";
+  }
+}
+
+// The request never got a response (offline, DNS, CORS)
+export class NetworkError extends APIError {
+  readonly kind = "network" as const;
+
+  constructor(message: string) {
+    super(0, message);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends APIError {
+  readonly kind = "timeout" as const;
+
+  constructor(public timeoutMs: number) {
+    super(0, `Request timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+// 5xx responses and payloads that break the shared contract
+export class ServerError extends APIError {
+  readonly kind = "server" as const;
+
+  constructor(status: number, message: string, code?: string) {
+    super(status, message, code);
+    this.name = "ServerError";
+  }
+}
+
+export type AnyAPIError =
+  | ValidationError
+  | NotFoundError
+  | ConflictError
+  | RateLimitedError
+  | NetworkError
+  | TimeoutError
+  | ServerError;
+
+export function isAPIError(error: unknown): error is AnyAPIError {
+  return error instanceof APIError;
+}
+
+// Aborts are deliberate (navigation, superseded loads) and never surface as APIError
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  // Sent as Idempotency-Key so the server applies a mutation at most once
+  idempotencyKey?: string;
+}
+
+// A compact body format offered ahead of JSON. The server picks one from the
+// Accept header; JSON responses still go through the validator.
+interface BinaryFormat<T> {
+  contentType: string;
+  decode(buffer: ArrayBuffer): T;
+}
+
+interface FetchOptions<T> extends RequestInit {
+  timeoutMs?: number;
+  retries?: number;
+  idempotencyKey?: string;
+  binary?: BinaryFormat<T>;
+}
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// Per-endpoint timeouts in ms, keyed by API method name. Full block lists and
+// mint settlement are slow on large grids, so they get more headroom.
+export const requestTimeouts: Record<string, number> = {
+  default: 10_000,
+  getGame: 20_000,
+  getBlocks: 30_000,
+  getPackedBlocks: 30_000,
+  getPlayerBlocks: 20_000,
+  getRounds: 20_000,
+  mintBlocks: 30_000,
+  createOrder: 15_000,
+};
+
+const DEFAULT_GET_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 5_000;
+
+function withTimeout(name: string, options: RequestOptions = {}): RequestOptions {
+  return {
+    timeoutMs: requestTimeouts[name] ?? requestTimeouts.default,
     ...options,
+  };
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("The operation was aborted", "AbortError");
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ServerError) return error.status >= 500;
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    error instanceof RateLimitedError
+  );
+}
+
+// Exponential backoff with full jitter, honouring Retry-After when present
+function getRetryDelay(attempt: number, error: unknown): number {
+  const ceiling = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** attempt
+  );
+  const jittered = Math.random() * ceiling;
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    return Math.max(error.retryAfterMs, jittered);
+  }
+  return jittered;
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
+}
+
+interface ErrorBody {
+  error?: string;
+  message?: string;
+  code?: string;
+  fields?: Record<string, string>;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function createAPIError(
+  status: number,
+  message: string,
+  body: ErrorBody = {},
+  retryAfterMs?: number
+): APIError {
+  const { code, fields } = body;
+
+  if (status === 404) return new NotFoundError(status, message, code);
+  if (status === 409) return new ConflictError(status, message, code);
+  if (status === 429) {
+    return new RateLimitedError(status, message, code, retryAfterMs);
+  }
+  if (status >= 500) return new ServerError(status, message, code);
+  if (status >= 400) return new ValidationError(status, message, code, fields);
+  return new APIError(status, message, code);
+}
+
+// Performs a single attempt: validates the body against the shared contract
+// and unwraps the `{ success, ... }` envelope. Every failure surfaces as an
+// APIError subclass so callers can branch on `error.kind`.
+async function fetchOnce<T>(
+  endpoint: string,
+  validate: Validator<APIResponse<T>>,
+  init: RequestInit,
+  timeoutMs: number,
+  binary?: BinaryFormat<T>
+): Promise<APISuccess<T>> {
+  const callerSignal = init.signal;
+  if (callerSignal?.aborted) throw createAbortError();
+
+  // One controller per attempt, aborted by either the caller or the timeout
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  callerSignal?.addEventListener("abort", onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
 
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}`;
+  try {
+    let response: Response;
     try {
-      const errorData = await response.json();
-      errorMessage = errorData.error || errorMessage;
-    } catch {
-      // Fallback to status text
-      errorMessage = response.statusText || errorMessage;
+      response = await fetchTransport(endpoint, {
+        ...init,
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          [SCHEMA_VERSION_HEADER]: SCHEMA_VERSION,
+          ...(binary && {
+            Accept: `${binary.contentType}, application/json;q=0.9`,
+          }),
+          ...init.headers,
+        },
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new NetworkError(
+        error instanceof Error ? error.message : "Network request failed"
+      );
+    }
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}`;
+      let errorBody: ErrorBody = {};
+      try {
+        errorBody = await response.json();
+        errorMessage = errorBody.error || errorBody.message || errorMessage;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Fallback to status text
+        errorMessage = response.statusText || errorMessage;
+      }
+      throw createAPIError(
+        response.status,
+        errorMessage,
+        errorBody,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
+    }
+
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (binary && contentType.startsWith(binary.contentType)) {
+      try {
+        return { ...binary.decode(await response.arrayBuffer()), success: true };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new ServerError(
+          response.status,
+          `Invalid response: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
     }
-    throw new APIError(response.status, errorMessage);
+
+    let result: APIResponse<T>;
+    try {
+      // Reject payloads that don't match the shared contract before they reach state
+      result = validate(await response.json(), endpoint);
+    } catch (error) {
+      if (error instanceof ContractError || error instanceof SyntaxError) {
+        throw new ServerError(
+          response.status,
+          `Invalid response: ${error.message}`
+        );
+      }
+      throw error;
+    }
+
+    if (!result.success) {
+      throw new ValidationError(
+        response.status,
+        result.error || result.message || "Request was rejected"
+      );
+    }
+
+    return result;
+  } catch (error) {
+    if (timedOut && isAbortError(error)) throw new TimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onAbort);
   }
+}
 
-  return response.json();
+// Only GETs are retried: mutations such as mintBlocks and createOrder move
+// funds, so a lost response must be reconciled rather than replayed.
+async function fetchAPI<T>(
+  endpoint: string,
+  validate: Validator<APIResponse<T>>,
+  options: FetchOptions<T> = {}
+): Promise<APISuccess<T>> {
+  const {
+    timeoutMs = requestTimeouts.default,
+    retries,
+    idempotencyKey,
+    binary,
+    ...init
+  } = options;
+  const method = (init.method ?? "GET").toUpperCase();
+  if (idempotencyKey) {
+    init.headers = { ...init.headers, [IDEMPOTENCY_KEY_HEADER]: idempotencyKey };
+  }
+  const maxRetries = method === "GET" ? retries ?? DEFAULT_GET_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(endpoint, validate, init, timeoutMs, binary);
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+      await delay(getRetryDelay(attempt, error), init.signal);
+    }
+  }
 }
 
 // Game API
 export const gameAPI = {
   // Get all active games
-  getGames: () => fetchAPI("/games"),
-
-  // Get specific game
-  getGame: (gameId: string) => fetchAPI(`/games/${gameId}`),
-
-  // Create new game
-  createGame: (data: {
-    config: any;
-    creatorAddress: string;
-    title: string;
-    description?: string;
-  }) =>
-    fetchAPI("/games", {
+  getGames: (options?: RequestOptions): Promise<GameData[]> =>
+    fetchAPI(
+      "/games",
+      responseValidators.games,
+      withTimeout("getGames", options)
+    ).then(({ games }) => games),
+
+  // Get specific game; large grids pass includeBlocks: false and fetch
+  // their blocks packed instead
+  getGame: (
+    gameId: string,
+    { includeBlocks = true, ...options }: RequestOptions & { includeBlocks?: boolean } = {}
+  ): Promise<GameDetail> =>
+    fetchAPI(
+      `/games/${gameId}${includeBlocks ? "" : "?blocks=none"}`,
+      responseValidators.game,
+      withTimeout("getGame", options)
+    ).then(({ game, blocks, currentRound, seq }) => ({
+      game,
+      blocks: blocks ?? [],
+      currentRound: currentRound ?? null,
+      seq: seq ?? null,
+    })),
+
+  // Create new game; signed over an empty game id, since none exists yet
+  createGame: (
+    data: Signed<CreateGameRequest>,
+    options?: RequestOptions
+  ): Promise<GameData> =>
+    fetchAPI("/games", responseValidators.createdGame, {
+      ...withTimeout("createGame", options),
       method: "POST",
       body: JSON.stringify(data),
-    }),
+    }).then(({ game }) => game),
 
   // Start minting phase
-  startMinting: (gameId: string) =>
-    fetchAPI(`/games/${gameId}/start-minting`, {
+  startMinting: (
+    gameId: string,
+    data: Signed<GameLifecycleRequest>,
+    options?: RequestOptions
+  ): Promise<GameData | undefined> =>
+    fetchAPI(`/games/${gameId}/start-minting`, responseValidators.gameMutation, {
+      ...withTimeout("startMinting", options),
       method: "POST",
-    }),
+      body: JSON.stringify(data),
+    }).then(({ game }) => game),
 
   // Start game (after minting)
-  startGame: (gameId: string) =>
-    fetchAPI(`/games/${gameId}/start-game`, {
+  startGame: (
+    gameId: string,
+    data: Signed<GameLifecycleRequest>,
+    options?: RequestOptions
+  ): Promise<GameData | undefined> =>
+    fetchAPI(`/games/${gameId}/start-game`, responseValidators.gameMutation, {
+      ...withTimeout("startGame", options),
       method: "POST",
-    }),
+      body: JSON.stringify(data),
+    }).then(({ game }) => game),
 
-  // Mint blocks
+  // Mint blocks (never retried automatically)
   mintBlocks: (
     gameId: string,
-    data: {
-      buyerAddress: string;
-      blockIds?: number[];
-      quantity?: number;
-      paymentAmount: number;
-    }
-  ) =>
-    fetchAPI(`/games/${gameId}/mint`, {
+    data: Signed<MintBlocksRequest>,
+    options?: RequestOptions
+  ): Promise<BlockData[]> =>
+    fetchAPI(`/games/${gameId}/mint`, responseValidators.blocks, {
+      ...withTimeout("mintBlocks", options),
+      method: "POST",
+      body: JSON.stringify(data),
+    }).then(({ blocks }) => blocks),
+
+  // Refund a mint payment the server refused to mint for
+  requestRefund: (
+    gameId: string,
+    data: Signed<RefundPaymentRequest>,
+    options?: RequestOptions
+  ): Promise<void> =>
+    fetchAPI(`/games/${gameId}/refunds`, responseValidators.ack, {
+      ...withTimeout("requestRefund", options),
       method: "POST",
       body: JSON.stringify(data),
-    }),
+    }).then(() => undefined),
 
   // Get blocks
-  getBlocks: (gameId: string) => fetchAPI(`/games/${gameId}/blocks`),
+  getBlocks: (gameId: string, options?: RequestOptions): Promise<BlockData[]> =>
+    fetchAPI(
+      `/games/${gameId}/blocks`,
+      responseValidators.blocks,
+      withTimeout("getBlocks", options)
+    ).then(({ blocks }) => blocks),
+
+  // Get blocks in the packed form the large-grid canvases draw from. Servers
+  // that only speak JSON get their block list packed client-side.
+  getPackedBlocks: (
+    gameId: string,
+    totalBlocks: number,
+    options?: RequestOptions
+  ): Promise<PackedBlocks> =>
+    fetchAPI<{ blocks: BlockData[] | PackedBlocks }>(
+      `/games/${gameId}/blocks`,
+      responseValidators.blocks,
+      {
+        ...withTimeout("getPackedBlocks", options),
+        binary: {
+          contentType: PACKED_BLOCKS_CONTENT_TYPE,
+          decode: (buffer) => ({ blocks: PackedBlocks.decode(buffer) }),
+        },
+      }
+    ).then(({ blocks }) =>
+      blocks instanceof PackedBlocks
+        ? blocks
+        : PackedBlocks.fromBlocks(blocks, totalBlocks)
+    ),
 
   // Get player blocks
-  getPlayerBlocks: (gameId: string, playerAddress: string) =>
-    fetchAPI(`/games/${gameId}/blocks/player/${playerAddress}`),
+  getPlayerBlocks: (
+    gameId: string,
+    playerAddress: string,
+    options?: RequestOptions
+  ): Promise<BlockData[]> =>
+    fetchAPI(
+      `/games/${gameId}/blocks/player/${playerAddress}`,
+      responseValidators.blocks,
+      withTimeout("getPlayerBlocks", options)
+    ).then(({ blocks }) => blocks),
 
   // Get rounds
-  getRounds: (gameId: string) => fetchAPI(`/games/${gameId}/rounds`),
+  getRounds: (gameId: string, options?: RequestOptions): Promise<RoundData[]> =>
+    fetchAPI(
+      `/games/${gameId}/rounds`,
+      responseValidators.rounds,
+      withTimeout("getRounds", options)
+    ).then(({ rounds }) => rounds),
 
   // Get current round
-  getCurrentRound: (gameId: string) =>
-    fetchAPI(`/games/${gameId}/rounds/current`),
+  getCurrentRound: (
+    gameId: string,
+    options?: RequestOptions
+  ): Promise<RoundData | null> =>
+    fetchAPI(
+      `/games/${gameId}/rounds/current`,
+      responseValidators.currentRound,
+      withTimeout("getCurrentRound", options)
+    ).then(({ round }) => round),
 
   // Get game stats
-  getGameStats: (gameId: string) => fetchAPI(`/games/${gameId}/stats`),
+  getGameStats: (gameId: string, options?: RequestOptions): Promise<GameStats> =>
+    fetchAPI(
+      `/games/${gameId}/stats`,
+      responseValidators.gameStats,
+      withTimeout("getGameStats", options)
+    ).then(({ stats }) => stats),
 
   // Trigger reveal (admin)
-  triggerReveal: (gameId: string, roundNumber: number) =>
-    fetchAPI(`/games/${gameId}/rounds/${roundNumber}/reveal`, {
-      method: "POST",
-    }),
+  triggerReveal: (
+    gameId: string,
+    roundNumber: number,
+    options?: RequestOptions
+  ): Promise<RoundResult[]> =>
+    fetchAPI(
+      `/games/${gameId}/rounds/${roundNumber}/reveal`,
+      responseValidators.reveal,
+      { ...withTimeout("triggerReveal", options), method: "POST" }
+    ).then(({ results }) => results ?? []),
 };
 
 // Order API
 export const orderAPI = {
-  // Create order
-  createOrder: (data: {
-    gameId: string;
-    userId: string;
-    type: "ask" | "any_bid";
-    blockId?: number;
-    price: number;
-    quantity: number;
-    carryOver?: boolean;
-  }) =>
-    fetchAPI("/orders", {
+  // Create order (never retried automatically)
+  createOrder: (
+    data: Signed<CreateOrderRequest>,
+    options?: RequestOptions
+  ): Promise<OrderData> =>
+    fetchAPI("/orders", responseValidators.order, {
+      ...withTimeout("createOrder", options),
       method: "POST",
       body: JSON.stringify(data),
-    }),
+    }).then(({ order }) => order),
 
-  // Cancel order
-  cancelOrder: (orderId: string, userId: string) =>
-    fetchAPI(`/orders/${orderId}`, {
+  // Cancel order; the signature covers { orderId, userId }
+  cancelOrder: (
+    orderId: string,
+    data: Signed<CancelOrderRequest>,
+    options?: RequestOptions
+  ): Promise<void> =>
+    fetchAPI(`/orders/${orderId}`, responseValidators.ack, {
+      ...withTimeout("cancelOrder", options),
       method: "DELETE",
-      body: JSON.stringify({ userId }),
-    }),
+      body: JSON.stringify(data),
+    }).then(() => undefined),
 
   // Get order book
-  getOrderBook: (gameId: string) => fetchAPI(`/orders/game/${gameId}`),
+  getOrderBook: (gameId: string, options?: RequestOptions): Promise<OrderBook> =>
+    fetchAPI(
+      `/orders/game/${gameId}`,
+      responseValidators.orderBook,
+      withTimeout("getOrderBook", options)
+    ).then(({ orderBook }) => orderBook),
 
   // Get user orders
-  getUserOrders: (gameId: string, userId: string) =>
-    fetchAPI(`/orders/game/${gameId}/user/${userId}`),
+  getUserOrders: (
+    gameId: string,
+    userId: string,
+    options?: RequestOptions
+  ): Promise<OrderData[]> =>
+    fetchAPI(
+      `/orders/game/${gameId}/user/${userId}`,
+      responseValidators.orders,
+      withTimeout("getUserOrders", options)
+    ).then(({ orders }) => orders),
 
-  // Get order history
-  getOrderHistory: (gameId: string, limit?: number) =>
-    fetchAPI(`/orders/game/${gameId}/history${limit ? `?limit=${limit}` : ""}`),
+  // Get order history, newest first; `before` pages back past that trade
+  getOrderHistory: (
+    gameId: string,
+    limit?: number,
+    { before, ...options }: RequestOptions & { before?: string } = {}
+  ): Promise<TradeData[]> => {
+    const params = new URLSearchParams();
+    if (limit) params.append("limit", limit.toString());
+    if (before) params.append("before", before);
+    return fetchAPI(
+      `/orders/game/${gameId}/history${params.toString() ? `?${params.toString()}` : ""}`,
+      responseValidators.tradeHistory,
+      withTimeout("getOrderHistory", options)
+    ).then(({ trades }) => trades);
+  },
 
   // Get market stats
-  getMarketStats: (gameId: string) => fetchAPI(`/orders/game/${gameId}/stats`),
+  getMarketStats: (
+    gameId: string,
+    options?: RequestOptions
+  ): Promise<MarketStats> =>
+    fetchAPI(
+      `/orders/game/${gameId}/stats`,
+      responseValidators.marketStats,
+      withTimeout("getMarketStats", options)
+    ).then(({ stats }) => stats),
 
   // Manual matching (admin)
-  triggerMatching: (gameId: string) =>
-    fetchAPI(`/orders/game/${gameId}/match`, {
+  triggerMatching: (gameId: string, options?: RequestOptions): Promise<number> =>
+    fetchAPI(`/orders/game/${gameId}/match`, responseValidators.matching, {
+      ...withTimeout("triggerMatching", options),
       method: "POST",
-    }),
+    }).then(({ matches }) => matches ?? 0),
 };
 
 // Admin API
 export const adminAPI = {
   // System status
-  getStatus: () => fetchAPI("/admin/status"),
+  getStatus: (options?: RequestOptions): Promise<SystemStatus> =>
+    fetchAPI(
+      "/admin/status",
+      responseValidators.systemStatus,
+      withTimeout("getStatus", options)
+    ).then(({ status }) => status),
 
   // Create demo game
-  createDemoGame: () =>
-    fetchAPI("/admin/seed-demo-game", {
+  createDemoGame: (options?: RequestOptions): Promise<GameData> =>
+    fetchAPI("/admin/seed-demo-game", responseValidators.createdGame, {
+      ...withTimeout("createDemoGame", options),
       method: "POST",
-    }),
+    }).then(({ game }) => game),
 
   // Force VRF
-  forceVRF: (gameId: string, roundNumber: number, seed?: string) =>
-    fetchAPI(`/admin/games/${gameId}/force-vrf`, {
+  forceVRF: (
+    gameId: string,
+    data: Signed<ForceVRFRequest>,
+    options?: RequestOptions
+  ): Promise<void> =>
+    fetchAPI(`/admin/games/${gameId}/force-vrf`, responseValidators.ack, {
+      ...withTimeout("forceVRF", options),
       method: "POST",
-      body: JSON.stringify({ roundNumber, seed }),
-    }),
+      body: JSON.stringify(data),
+    }).then(() => undefined),
 
   // Force round
-  forceRound: (gameId: string) =>
-    fetchAPI(`/admin/games/${gameId}/force-round`, {
+  forceRound: (
+    gameId: string,
+    data: Signed<AdminActionRequest>,
+    options?: RequestOptions
+  ): Promise<void> =>
+    fetchAPI(`/admin/games/${gameId}/force-round`, responseValidators.ack, {
+      ...withTimeout("forceRound", options),
       method: "POST",
-    }),
+      body: JSON.stringify(data),
+    }).then(() => undefined),
 
   // Debug info
-  getDebugInfo: (gameId: string) => fetchAPI(`/admin/games/${gameId}/debug`),
+  getDebugInfo: (
+    gameId: string,
+    options?: RequestOptions
+  ): Promise<Record<string, unknown>> =>
+    fetchAPI(
+      `/admin/games/${gameId}/debug`,
+      responseValidators.debugInfo,
+      withTimeout("getDebugInfo", options)
+    ).then(({ debug }) => debug),
 
   // Delete game
-  deleteGame: (gameId: string) =>
-    fetchAPI(`/admin/games/${gameId}`, {
+  deleteGame: (
+    gameId: string,
+    data: Signed<AdminActionRequest>,
+    options?: RequestOptions
+  ): Promise<void> =>
+    fetchAPI(`/admin/games/${gameId}`, responseValidators.ack, {
+      ...withTimeout("deleteGame", options),
       method: "DELETE",
-    }),
+      body: JSON.stringify(data),
+    }).then(() => undefined),
 
   // Get all games (admin)
-  getAllGames: (status?: string, limit?: number) => {
+  getAllGames: (
+    status?: string,
+    limit?: number,
+    options?: RequestOptions
+  ): Promise<GameData[]> => {
     const params = new URLSearchParams();
     if (status) params.append("status", status);
     if (limit) params.append("limit", limit.toString());
     return fetchAPI(
-      `/admin/games${params.toString() ? `?${params.toString()}` : ""}`
-    );
+      `/admin/games${params.toString() ? `?${params.toString()}` : ""}`,
+      responseValidators.games,
+      withTimeout("getAllGames", options)
+    ).then(({ games }) => games);
   },
 };
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest'
+import { BlockCodecError, PackedBlocks } from './blockCodec'
+import type { BlockData, BlockStatus } from '../shared/types'
+
+const COLS = 5
+
+function block(blockId: number, status: BlockStatus, ownerId?: string, extra: Partial<BlockData> = {}): BlockData {
+  return {
+    blockId,
+    position: { row: Math.floor(blockId / COLS), col: blockId % COLS },
+    status,
+    ownerId,
+    purchasePrice: 0.1,
+    ...extra,
+  }
+}
+
+// 13 blocks: the bitsets end mid-byte
+const blocks = [
+  block(0, 'alive', 'alice'),
+  block(3, 'eliminated', 'bob'),
+  block(7, 'alive', 'bob'),
+  block(8, 'alive', 'carol'),
+  block(12, 'eliminated', 'alice'),
+]
+
+function roundTrip(packed: PackedBlocks): PackedBlocks {
+  return PackedBlocks.decode(packed.encode())
+}
+
+describe('PackedBlocks encode / decode', () => {
+  it('round-trips statuses, owners and seq', () => {
+    const decoded = roundTrip(PackedBlocks.fromBlocks(blocks, 13, 42))
+
+    expect(decoded.count).toBe(13)
+    expect(decoded.seq).toBe(42)
+    for (let i = 0; i < 13; i++) {
+      const original = blocks.find(b => b.blockId === i)
+      expect(decoded.statusOf(i)).toBe(original?.status ?? 'unsold')
+      expect(decoded.ownerOf(i)).toBe(original?.ownerId)
+    }
+  })
+
+  it('counts statuses and owners on grids that are not a multiple of 8', () => {
+    const decoded = roundTrip(PackedBlocks.fromBlocks(blocks, 13))
+
+    expect(decoded.seq).toBeNull()
+    expect(decoded.counts()).toEqual({ alive: 3, eliminated: 2, unsold: 8 })
+    expect(decoded.countOwnedBy('bob')).toBe(2)
+    expect(decoded.countOwnedBy('dave')).toBe(0)
+  })
+
+  it('round-trips an empty grid and a single block', () => {
+    expect(roundTrip(PackedBlocks.empty(0)).counts()).toEqual({ alive: 0, eliminated: 0, unsold: 0 })
+    const single = roundTrip(PackedBlocks.fromBlocks([block(0, 'eliminated', 'alice')], 1))
+    expect(single.statusOf(0)).toBe('eliminated')
+    expect(single.ownerOf(0)).toBe('alice')
+  })
+
+  it('widens the owner index once there are 255 or more owners', () => {
+    const many = Array.from({ length: 300 }, (_, i) => block(i, 'alive', `owner-${i}`))
+    const packed = PackedBlocks.fromBlocks(many, 301)
+    const buffer = packed.encode()
+
+    expect(new DataView(buffer).getUint8(5)).toBe(2)
+    const decoded = PackedBlocks.decode(buffer)
+    expect(decoded.ownerOf(0)).toBe('owner-0')
+    expect(decoded.ownerOf(299)).toBe('owner-299')
+    expect(decoded.ownerOf(300)).toBeUndefined()
+  })
+
+  it('round-trips non-ASCII owner ids', () => {
+    const decoded = roundTrip(PackedBlocks.fromBlocks([block(2, 'alive', 'élodie-🦊')], 4))
+    expect(decoded.ownerOf(2)).toBe('élodie-🦊')
+  })
+})
+
+describe('PackedBlocks.decode on bad input', () => {
+  const valid = PackedBlocks.fromBlocks(blocks, 13, 7).encode()
+
+  it('rejects a buffer shorter than the header', () => {
+    expect(() => PackedBlocks.decode(valid.slice(0, 10))).toThrow(BlockCodecError)
+    expect(() => PackedBlocks.decode(new ArrayBuffer(0))).toThrow('missing header')
+  })
+
+  it('rejects a buffer cut off in the block data or owner dictionary', () => {
+    // header 20 + bitsets 2 * 2 + index 13
+    expect(() => PackedBlocks.decode(valid.slice(0, 30))).toThrow('missing block data')
+    expect(() => PackedBlocks.decode(valid.slice(0, 38))).toThrow('owner dictionary')
+    expect(() => PackedBlocks.decode(valid.slice(0, valid.byteLength - 1))).toThrow('owner dictionary')
+  })
+
+  it('rejects a bad magic, version or index width', () => {
+    const corrupt = (offset: number, value: number) => {
+      const copy = valid.slice(0)
+      new DataView(copy).setUint8(offset, value)
+      return copy
+    }
+    expect(() => PackedBlocks.decode(corrupt(0, 0))).toThrow('bad magic')
+    expect(() => PackedBlocks.decode(corrupt(4, 9))).toThrow('unsupported version 9')
+    expect(() => PackedBlocks.decode(corrupt(5, 3))).toThrow('bad index width 3')
+  })
+
+  it('rejects an owner index past the dictionary', () => {
+    const copy = valid.slice(0)
+    // First owner index byte, after the header and both 2-byte bitsets
+    new DataView(copy).setUint8(24, 200)
+    expect(() => PackedBlocks.decode(copy)).toThrow('owner index out of range at block 0')
+  })
+
+  it('ignores bitset padding past the last block', () => {
+    const copy = valid.slice(0)
+    const bytes = new Uint8Array(copy)
+    // Blocks 13-15 live in the top bits of each bitset's second byte
+    bytes[21] |= 0b1110_0000
+    bytes[23] |= 0b1110_0000
+    expect(PackedBlocks.decode(copy).counts()).toEqual({ alive: 3, eliminated: 2, unsold: 8 })
+  })
+})
+
+describe('PackedBlocks.withDeltas', () => {
+  const base = PackedBlocks.fromBlocks(blocks, 13, 1)
+
+  it('applies status and owner deltas and moves seq, leaving the original alone', () => {
+    const next = base.withDeltas([
+      { kind: 'status', blockId: 0, status: 'eliminated', eliminatedInRound: 2 },
+      { kind: 'owner', blockId: 5, ownerId: 'dave' },
+      { kind: 'status', blockId: 5, status: 'alive' },
+      { kind: 'owner', blockId: 7, ownerId: null },
+    ], 2)
+
+    expect(next.seq).toBe(2)
+    expect(next.statusOf(0)).toBe('eliminated')
+    expect(next.ownerOf(5)).toBe('dave')
+    expect(next.statusOf(5)).toBe('alive')
+    expect(next.ownerOf(7)).toBeUndefined()
+
+    expect(base.seq).toBe(1)
+    expect(base.statusOf(0)).toBe('alive')
+    expect(base.ownerOf(5)).toBeUndefined()
+    expect(base.ownerOf(7)).toBe('bob')
+  })
+
+  it('keeps seq when none is given and ignores blocks outside the grid', () => {
+    const next = base.withDeltas([
+      { kind: 'status', blockId: 13, status: 'alive' },
+      { kind: 'owner', blockId: -1, ownerId: 'eve' },
+    ])
+    expect(next.seq).toBe(1)
+    expect(next.counts()).toEqual(base.counts())
+    expect(next.countOwnedBy('eve')).toBe(0)
+  })
+
+  it('survives a round trip after deltas', () => {
+    const next = roundTrip(base.withDeltas([{ kind: 'owner', blockId: 12, ownerId: 'frank' }], 3))
+    expect(next.ownerOf(12)).toBe('frank')
+    expect(next.seq).toBe(3)
+  })
+})
+
+describe('PackedBlocks.toBlocks', () => {
+  const packed = PackedBlocks.fromBlocks(blocks, 13)
+
+  it('expands sold blocks with positions and the game block price', () => {
+    const expanded = packed.toBlocks(COLS, 0.25, 'game-1')
+
+    expect(expanded.map(b => b.blockId)).toEqual([0, 3, 7, 8, 12])
+    expect(expanded[2]).toEqual({
+      blockId: 7,
+      gameId: 'game-1',
+      position: { row: 1, col: 2 },
+      status: 'alive',
+      ownerId: 'bob',
+      purchasePrice: 0.25,
+      purchasedAt: undefined,
+      eliminatedInRound: undefined,
+    })
+  })
+
+  it('keeps known prices, times and elimination rounds for blocks with the same owner', () => {
+    const known = {
+      3: block(3, 'eliminated', 'bob', { purchasePrice: 0.4, purchasedAt: '2026-01-01T00:00:00Z', eliminatedInRound: 2 }),
+      7: block(7, 'alive', 'alice', { purchasePrice: 0.9 }),
+    }
+    const expanded = packed.toBlocks(COLS, 0.25, 'game-1', known)
+
+    expect(expanded.find(b => b.blockId === 3)).toMatchObject({
+      purchasePrice: 0.4,
+      purchasedAt: '2026-01-01T00:00:00Z',
+      eliminatedInRound: 2,
+    })
+    // Changed hands since: the known price belonged to the previous owner
+    expect(expanded.find(b => b.blockId === 7)?.purchasePrice).toBe(0.25)
+  })
+})
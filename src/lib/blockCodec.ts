@@ -0,0 +1,328 @@
+import { getBlockPosition } from './utils'
+import type { BlockData, BlockDelta, BlockStatus } from '../shared/types'
+
+// Packed block state for large grids. A JSON BlockData array costs ~150
+// bytes per block; this costs two bits plus a 1-4 byte owner index.
+//
+// Wire format (little-endian):
+//   u32 magic 'BCB1' | u8 version | u8 indexWidth (1, 2 or 4) | u16 reserved
+//   u32 blockCount | u32 ownerCount | u32 seq (0xFFFFFFFF = unversioned)
+//   alive bitset      ceil(blockCount / 8) bytes, bit i = block i
+//   eliminated bitset ceil(blockCount / 8) bytes; neither bit = unsold
+//   owner index       blockCount * indexWidth bytes, 0 = none, n = owners[n - 1]
+//   owner dictionary  ownerCount * (u16 byteLength + utf8 address)
+// Prices and timestamps are not carried; toBlocks takes them from blocks the
+// caller already knows, or falls back to the game's blockPrice.
+
+export const PACKED_BLOCKS_CONTENT_TYPE = 'application/vnd.blockchance.blocks'
+
+const MAGIC = 0x31424342 // 'BCB1'
+const VERSION = 1
+const HEADER_BYTES = 20
+const NO_SEQ = 0xffffffff
+
+export class BlockCodecError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BlockCodecError'
+  }
+}
+
+function bitsetBytes(count: number): number {
+  return Math.ceil(count / 8)
+}
+
+function getBit(bits: Uint8Array, index: number): boolean {
+  return (bits[index >> 3] & (1 << (index & 7))) !== 0
+}
+
+function setBit(bits: Uint8Array, index: number, on: boolean) {
+  if (on) bits[index >> 3] |= 1 << (index & 7)
+  else bits[index >> 3] &= ~(1 << (index & 7))
+}
+
+// Bits past the last block are padding; a corrupt buffer may set them
+function clearPadding(bits: Uint8Array, count: number) {
+  if (count % 8) bits[bits.length - 1] &= (1 << (count % 8)) - 1
+}
+
+function popcount(bits: Uint8Array): number {
+  let count = 0
+  for (let i = 0; i < bits.length; i++) {
+    let byte = bits[i]
+    while (byte) {
+      byte &= byte - 1
+      count++
+    }
+  }
+  return count
+}
+
+function indexWidthFor(ownerCount: number): 1 | 2 | 4 {
+  if (ownerCount < 0xff) return 1
+  if (ownerCount < 0xffff) return 2
+  return 4
+}
+
+// Immutable: the with* methods return a new instance sharing nothing mutable
+export class PackedBlocks {
+  private ownerSlots: Map<string, number>
+
+  private constructor(
+    readonly count: number,
+    private readonly alive: Uint8Array,
+    private readonly eliminated: Uint8Array,
+    private readonly ownerIndex: Uint32Array,
+    private readonly owners: string[],
+    readonly seq: number | null
+  ) {
+    this.ownerSlots = new Map(owners.map((owner, i) => [owner, i + 1]))
+  }
+
+  static empty(count: number): PackedBlocks {
+    return new PackedBlocks(
+      count,
+      new Uint8Array(bitsetBytes(count)),
+      new Uint8Array(bitsetBytes(count)),
+      new Uint32Array(count),
+      [],
+      null
+    )
+  }
+
+  // JSON fallback: packs blocks the server sent as BlockData objects
+  static fromBlocks(blocks: BlockData[], count: number, seq: number | null = null): PackedBlocks {
+    return PackedBlocks.empty(count).withBlocks(blocks).withSeq(seq)
+  }
+
+  static decode(buffer: ArrayBuffer): PackedBlocks {
+    if (buffer.byteLength < HEADER_BYTES) {
+      throw new BlockCodecError('Packed blocks truncated: missing header')
+    }
+    const view = new DataView(buffer)
+    if (view.getUint32(0, true) !== MAGIC) {
+      throw new BlockCodecError('Packed blocks: bad magic')
+    }
+    const version = view.getUint8(4)
+    if (version !== VERSION) {
+      throw new BlockCodecError(`Packed blocks: unsupported version ${version}`)
+    }
+    const indexWidth = view.getUint8(5)
+    if (indexWidth !== 1 && indexWidth !== 2 && indexWidth !== 4) {
+      throw new BlockCodecError(`Packed blocks: bad index width ${indexWidth}`)
+    }
+    const count = view.getUint32(8, true)
+    const ownerCount = view.getUint32(12, true)
+    const rawSeq = view.getUint32(16, true)
+
+    const bits = bitsetBytes(count)
+    let offset = HEADER_BYTES
+    const need = offset + bits * 2 + count * indexWidth
+    if (buffer.byteLength < need) {
+      throw new BlockCodecError('Packed blocks truncated: missing block data')
+    }
+
+    const alive = new Uint8Array(buffer.slice(offset, offset + bits))
+    offset += bits
+    const eliminated = new Uint8Array(buffer.slice(offset, offset + bits))
+    offset += bits
+    clearPadding(alive, count)
+    clearPadding(eliminated, count)
+
+    const ownerIndex = new Uint32Array(count)
+    for (let i = 0; i < count; i++, offset += indexWidth) {
+      ownerIndex[i] =
+        indexWidth === 1 ? view.getUint8(offset)
+        : indexWidth === 2 ? view.getUint16(offset, true)
+        : view.getUint32(offset, true)
+      if (ownerIndex[i] > ownerCount) {
+        throw new BlockCodecError(`Packed blocks: owner index out of range at block ${i}`)
+      }
+    }
+
+    const decoder = new TextDecoder()
+    const owners: string[] = []
+    for (let i = 0; i < ownerCount; i++) {
+      if (offset + 2 > buffer.byteLength) {
+        throw new BlockCodecError('Packed blocks truncated: owner dictionary')
+      }
+      const length = view.getUint16(offset, true)
+      offset += 2
+      if (offset + length > buffer.byteLength) {
+        throw new BlockCodecError('Packed blocks truncated: owner dictionary')
+      }
+      owners.push(decoder.decode(new Uint8Array(buffer, offset, length)))
+      offset += length
+    }
+
+    return new PackedBlocks(count, alive, eliminated, ownerIndex, owners, rawSeq === NO_SEQ ? null : rawSeq)
+  }
+
+  encode(): ArrayBuffer {
+    const encoder = new TextEncoder()
+    const ownerBytes = this.owners.map(owner => encoder.encode(owner))
+    const indexWidth = indexWidthFor(this.owners.length)
+    const bits = bitsetBytes(this.count)
+    const size = HEADER_BYTES + bits * 2 + this.count * indexWidth +
+      ownerBytes.reduce((sum, bytes) => sum + 2 + bytes.length, 0)
+
+    const buffer = new ArrayBuffer(size)
+    const view = new DataView(buffer)
+    const bytes = new Uint8Array(buffer)
+    view.setUint32(0, MAGIC, true)
+    view.setUint8(4, VERSION)
+    view.setUint8(5, indexWidth)
+    view.setUint32(8, this.count, true)
+    view.setUint32(12, this.owners.length, true)
+    view.setUint32(16, this.seq ?? NO_SEQ, true)
+
+    let offset = HEADER_BYTES
+    bytes.set(this.alive, offset)
+    offset += bits
+    bytes.set(this.eliminated, offset)
+    offset += bits
+    for (let i = 0; i < this.count; i++, offset += indexWidth) {
+      if (indexWidth === 1) view.setUint8(offset, this.ownerIndex[i])
+      else if (indexWidth === 2) view.setUint16(offset, this.ownerIndex[i], true)
+      else view.setUint32(offset, this.ownerIndex[i], true)
+    }
+    for (const owner of ownerBytes) {
+      view.setUint16(offset, owner.length, true)
+      bytes.set(owner, offset + 2)
+      offset += 2 + owner.length
+    }
+    return buffer
+  }
+
+  statusOf(blockId: number): BlockStatus {
+    if (blockId < 0 || blockId >= this.count) return 'unsold'
+    if (getBit(this.alive, blockId)) return 'alive'
+    if (getBit(this.eliminated, blockId)) return 'eliminated'
+    return 'unsold'
+  }
+
+  ownerOf(blockId: number): string | undefined {
+    const slot = this.ownerIndex[blockId]
+    return slot ? this.owners[slot - 1] : undefined
+  }
+
+  counts(): { alive: number; eliminated: number; unsold: number } {
+    const alive = popcount(this.alive)
+    const eliminated = popcount(this.eliminated)
+    return { alive, eliminated, unsold: this.count - alive - eliminated }
+  }
+
+  countOwnedBy(address: string): number {
+    const slot = this.ownerSlots.get(address)
+    if (!slot) return 0
+    let owned = 0
+    for (let i = 0; i < this.count; i++) {
+      if (this.ownerIndex[i] === slot) owned++
+    }
+    return owned
+  }
+
+  forEachWithStatus(status: BlockStatus, callback: (blockId: number) => void) {
+    for (let i = 0; i < this.count; i++) {
+      if (this.statusOf(i) === status) callback(i)
+    }
+  }
+
+  withSeq(seq: number | null): PackedBlocks {
+    return new PackedBlocks(this.count, this.alive, this.eliminated, this.ownerIndex, this.owners, seq)
+  }
+
+  withBlocks(blocks: BlockData[]): PackedBlocks {
+    return this.update(next => {
+      for (const block of blocks) {
+        next.setStatus(block.blockId, block.status)
+        next.setOwner(block.blockId, block.ownerId ?? null)
+      }
+    })
+  }
+
+  withDeltas(deltas: BlockDelta[], seq: number | null = this.seq): PackedBlocks {
+    return this.update(next => {
+      for (const delta of deltas) {
+        if (delta.kind === 'status') next.setStatus(delta.blockId, delta.status)
+        else next.setOwner(delta.blockId, delta.ownerId)
+      }
+    }).withSeq(seq)
+  }
+
+  // Expands to BlockData for consumers that still want objects. A block in
+  // `known` under the same owner keeps its price, purchase time and round
+  // of elimination.
+  toBlocks(
+    cols: number,
+    blockPrice: number,
+    gameId?: string,
+    known: Record<number, BlockData> = {}
+  ): BlockData[] {
+    const blocks: BlockData[] = []
+    for (let i = 0; i < this.count; i++) {
+      const status = this.statusOf(i)
+      if (status === 'unsold') continue
+      const ownerId = this.ownerOf(i)
+      const previous = known[i]?.ownerId === ownerId ? known[i] : undefined
+      blocks.push({
+        blockId: i,
+        gameId,
+        position: getBlockPosition(i, cols),
+        status,
+        ownerId,
+        purchasePrice: previous?.purchasePrice ?? blockPrice,
+        purchasedAt: previous?.purchasedAt,
+        eliminatedInRound: status === 'eliminated' ? previous?.eliminatedInRound : undefined,
+      })
+    }
+    return blocks
+  }
+
+  private update(mutate: (next: MutablePackedBlocks) => void): PackedBlocks {
+    const next = new MutablePackedBlocks(
+      this.count,
+      this.alive.slice(),
+      this.eliminated.slice(),
+      this.ownerIndex.slice(),
+      [...this.owners]
+    )
+    mutate(next)
+    return new PackedBlocks(this.count, next.alive, next.eliminated, next.ownerIndex, next.owners, this.seq)
+  }
+}
+
+class MutablePackedBlocks {
+  private slots: Map<string, number>
+
+  constructor(
+    readonly count: number,
+    readonly alive: Uint8Array,
+    readonly eliminated: Uint8Array,
+    readonly ownerIndex: Uint32Array,
+    readonly owners: string[]
+  ) {
+    this.slots = new Map(owners.map((owner, i) => [owner, i + 1]))
+  }
+
+  setStatus(blockId: number, status: BlockStatus) {
+    if (blockId < 0 || blockId >= this.count) return
+    setBit(this.alive, blockId, status === 'alive')
+    setBit(this.eliminated, blockId, status === 'eliminated')
+  }
+
+  setOwner(blockId: number, owner: string | null) {
+    if (blockId < 0 || blockId >= this.count) return
+    if (!owner) {
+      this.ownerIndex[blockId] = 0
+      return
+    }
+    let slot = this.slots.get(owner)
+    if (!slot) {
+      this.owners.push(owner)
+      slot = this.owners.length
+      this.slots.set(owner, slot)
+    }
+    this.ownerIndex[blockId] = slot
+  }
+}
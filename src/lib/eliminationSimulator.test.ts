@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MIN_SIMULATION_RUNS,
+  SIMULATION_HASH_BUDGET,
+  expectedHashesPerGame,
+  simulationRuns,
+  type SimulationConfig,
+} from './eliminationSimulator'
+
+function config(blocks: number, eliminationRate = 0.2): SimulationConfig {
+  return { blocks, prizePool: 100, eliminationRate, defaultRate: 0.2 }
+}
+
+describe('simulationRuns', () => {
+  it('hashes every alive block once per round', () => {
+    // 10 -> 5 -> 3 -> 2 -> 1
+    expect(expectedHashesPerGame(config(10, 0.5))).toBe(20)
+    expect(expectedHashesPerGame(config(1))).toBe(0)
+  })
+
+  it('follows the elimination schedule', () => {
+    // 100 -> 10 -> 1
+    expect(expectedHashesPerGame({ ...config(100), eliminationSchedule: [0.9] })).toBe(110)
+  })
+
+  it('keeps the requested runs on small grids', () => {
+    expect(simulationRuns(config(400), 1000)).toBe(1000)
+  })
+
+  it('cuts runs on large grids to fit the hash budget', () => {
+    const large = config(1_000_000)
+    const runs = simulationRuns(large, 1000)
+
+    expect(runs).toBeLessThan(1000)
+    expect(runs * expectedHashesPerGame(large)).toBeLessThanOrEqual(SIMULATION_HASH_BUDGET)
+  })
+
+  it('still runs a few games on grids past the budget', () => {
+    expect(simulationRuns(config(1_000_000, 0.01), 1000)).toBe(MIN_SIMULATION_RUNS)
+  })
+})
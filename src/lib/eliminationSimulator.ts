@@ -0,0 +1,163 @@
+import { VRFWorkerPool } from './vrfPool'
+import { eliminationRateForRound } from './gameConfig'
+import { calculateNextRoundEV } from './utils'
+import type { GameConfig } from '../shared/types'
+
+// Monte Carlo runs of a game config. Every simulated round draws a fresh
+// random seed and eliminates blocks in the VRF worker pool exactly as a
+// real reveal would; a game ends once at most one block survives, the same
+// rule the round scheduler applies.
+
+export const DEFAULT_SIMULATION_RUNS = 200
+export const MAX_SIMULATED_ROUNDS = 200
+
+// Block hashes one simulation may take in all. Each round hashes every alive
+// block, so a game costs about blocks / rate: large grids get fewer runs.
+export const SIMULATION_HASH_BUDGET = 20_000_000
+// Never fewer runs than this, whatever the grid
+export const MIN_SIMULATION_RUNS = 3
+
+export interface SimulationConfig extends Pick<GameConfig, 'eliminationRate' | 'eliminationSchedule'> {
+  blocks: number
+  prizePool: number
+  // Used when the config sets no rate
+  defaultRate: number
+}
+
+export interface SimulationOptions {
+  runs?: number
+  signal?: AbortSignal
+  onProgress?: (done: number, total: number) => void // in runs
+}
+
+// Quantiles of a value over the runs that reached a round
+export interface Distribution {
+  mean: number
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface SimulatedRound {
+  roundNumber: number
+  eliminationRate: number
+  // Runs still going at the start of this round
+  runs: number
+  survivors: Distribution
+  // calculateNextRoundEV at the start of the round
+  nextRoundEV: Distribution
+}
+
+export interface SimulationSummary {
+  runs: number
+  // Game length in rounds -> number of runs
+  lengths: Array<{ rounds: number; count: number }>
+  rounds: SimulatedRound[]
+  // Runs whose last round eliminated every block
+  noWinner: number
+}
+
+interface SimulatedGame {
+  // Alive blocks at the start of each round, then the final count
+  alive: number[]
+}
+
+function randomSeed(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b)
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p10: at(0.1),
+    p50: at(0.5),
+    p90: at(0.9),
+  }
+}
+
+async function simulateGame(pool: VRFWorkerPool, config: SimulationConfig, signal?: AbortSignal): Promise<SimulatedGame> {
+  let blockIds = Uint32Array.from({ length: config.blocks }, (_, i) => i)
+  const alive = [blockIds.length]
+  for (let roundNumber = 1; blockIds.length > 1 && roundNumber <= MAX_SIMULATED_ROUNDS; roundNumber++) {
+    const rate = eliminationRateForRound(config, roundNumber) ?? config.defaultRate
+    const { eliminated } = await pool.calculateEliminations(randomSeed(), roundNumber, blockIds, rate, { signal })
+    const ids = blockIds
+    blockIds = ids.filter((_, i) => !eliminated[i])
+    alive.push(blockIds.length)
+  }
+  return { alive }
+}
+
+// Hashes one simulated game is expected to take at the config's rates
+export function expectedHashesPerGame(config: SimulationConfig): number {
+  let alive = config.blocks
+  let hashes = 0
+  for (let roundNumber = 1; alive > 1 && roundNumber <= MAX_SIMULATED_ROUNDS; roundNumber++) {
+    hashes += alive
+    alive = Math.round(alive * (1 - (eliminationRateForRound(config, roundNumber) ?? config.defaultRate)))
+  }
+  return hashes
+}
+
+// The runs requested, cut down to what the hash budget allows
+export function simulationRuns(config: SimulationConfig, requested: number): number {
+  const affordable = Math.floor(SIMULATION_HASH_BUDGET / Math.max(1, expectedHashesPerGame(config)))
+  return Math.min(requested, Math.max(MIN_SIMULATION_RUNS, affordable))
+}
+
+function summarize(games: SimulatedGame[], config: SimulationConfig): SimulationSummary {
+  const lengths = new Map<number, number>()
+  for (const game of games) {
+    const rounds = game.alive.length - 1
+    lengths.set(rounds, (lengths.get(rounds) ?? 0) + 1)
+  }
+
+  const rounds: SimulatedRound[] = []
+  const longest = Math.max(0, ...games.map(g => g.alive.length - 1))
+  for (let roundNumber = 1; roundNumber <= longest; roundNumber++) {
+    const reached = games.filter(g => g.alive.length > roundNumber)
+    const rate = eliminationRateForRound(config, roundNumber) ?? config.defaultRate
+    rounds.push({
+      roundNumber,
+      eliminationRate: rate,
+      runs: reached.length,
+      survivors: distribution(reached.map(g => g.alive[roundNumber])),
+      nextRoundEV: distribution(reached.map(g => calculateNextRoundEV(config.prizePool, g.alive[roundNumber - 1], rate))),
+    })
+  }
+
+  return {
+    runs: games.length,
+    lengths: [...lengths.entries()].sort((a, b) => a[0] - b[0]).map(([rounds, count]) => ({ rounds, count })),
+    rounds,
+    noWinner: games.filter(g => g.alive[g.alive.length - 1] === 0).length,
+  }
+}
+
+// Runs are spread over the pool, a couple per worker at a time. Large grids
+// run fewer games than requested (simulationRuns); summary.runs says how many.
+export async function runEliminationSimulation(
+  pool: VRFWorkerPool,
+  config: SimulationConfig,
+  { runs: requested = DEFAULT_SIMULATION_RUNS, signal, onProgress }: SimulationOptions = {}
+): Promise<SimulationSummary> {
+  const runs = simulationRuns(config, requested)
+  const games: SimulatedGame[] = []
+  let next = 0
+
+  const lane = async () => {
+    while (next < runs) {
+      next++
+      signal?.throwIfAborted()
+      games.push(await simulateGame(pool, config, signal))
+      onProgress?.(games.length, runs)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(runs, pool.size * 2) }, lane))
+
+  return summarize(games, config)
+}
@@ -0,0 +1,54 @@
+import { calculateEV } from './utils'
+import type { GameConfig } from '../shared/types'
+
+// Elimination rates per round and the expected course of a game, shared by
+// the create-game wizard and the mock round scheduler.
+
+type RateConfig = Pick<GameConfig, 'eliminationRate' | 'eliminationSchedule'>
+
+// Rate of a 1-based round: its schedule entry, the last entry once the
+// schedule runs out, else the flat eliminationRate
+export function eliminationRateForRound(config: RateConfig, roundNumber: number): number | undefined {
+  const schedule = config.eliminationSchedule
+  if (schedule?.length) return schedule[Math.min(Math.max(roundNumber, 1), schedule.length) - 1]
+  return config.eliminationRate
+}
+
+export interface ProjectedRound {
+  roundNumber: number
+  eliminationRate: number
+  aliveAtStart: number
+  expectedSurvivors: number
+  // EV of a surviving block once the round is over
+  expectedEV: number
+  // Seconds of trading before this round's reveal, counted from game start
+  endsAfter: number
+}
+
+// Rounds until at most one block is expected to survive, using expected
+// rather than sampled eliminations
+export function projectRounds(
+  config: RateConfig & Pick<GameConfig, 'roundDuration'>,
+  blocks: number,
+  prizePool: number,
+  defaultRate: number,
+  maxRounds: number = 100
+): ProjectedRound[] {
+  const rounds: ProjectedRound[] = []
+  let alive = blocks
+  for (let roundNumber = 1; alive > 1 && roundNumber <= maxRounds; roundNumber++) {
+    const rate = eliminationRateForRound(config, roundNumber) ?? defaultRate
+    if (rate <= 0) break
+    const survivors = Math.max(1, alive * (1 - rate))
+    rounds.push({
+      roundNumber,
+      eliminationRate: rate,
+      aliveAtStart: alive,
+      expectedSurvivors: survivors,
+      expectedEV: calculateEV(prizePool, survivors),
+      endsAfter: roundNumber * config.roundDuration,
+    })
+    alive = survivors
+  }
+  return rounds
+}
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { gameAPI } from './api'
+import { GameStore } from './gameStore'
+import type { BlockData, BlockDelta, GameData, GameDetail } from '../shared/types'
+
+const game: GameData = {
+  gameId: 'game-1',
+  title: 'Test',
+  status: 'active',
+  config: { gridSize: { rows: 4, cols: 4 }, blockPrice: 0.1, feeRate: 0.05, roundDuration: 60 },
+  totalBlocks: 16,
+  soldBlocks: 2,
+  aliveBlocks: 2,
+  prizePool: 0.2,
+  currentEV: 0.1,
+  nextRoundEV: 0.12,
+  survivalProbability: 0.8,
+  currentRound: 1,
+  createdAt: '2026-01-01T00:00:00Z',
+}
+
+function block(blockId: number, ownerId: string): BlockData {
+  return {
+    blockId,
+    position: { row: Math.floor(blockId / 4), col: blockId % 4 },
+    status: 'alive',
+    ownerId,
+    purchasePrice: 0.1,
+  }
+}
+
+// One event selling `blockId` to `ownerId`
+function sale(seq: number, blockId: number, ownerId = 'bob') {
+  const deltas: BlockDelta[] = [
+    { kind: 'owner', blockId, ownerId, purchasePrice: 0.1 },
+    { kind: 'status', blockId, status: 'alive' },
+  ]
+  return { gameId: 'game-1', seq, deltas }
+}
+
+function snapshot(seq: number | null, blocks: BlockData[]): GameDetail {
+  return { game, blocks, currentRound: null, seq }
+}
+
+// Lets the resync's snapshot request resolve and its drain run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('GameStore block deltas', () => {
+  let store: GameStore
+  const initial = [block(0, 'alice'), block(1, 'alice')]
+
+  beforeEach(() => {
+    store = new GameStore('game-1')
+    store.applyGameState({ gameId: 'game-1', game, blocks: initial, seq: 5 })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('applies events that continue the sequence', () => {
+    const getGame = vi.spyOn(gameAPI, 'getGame')
+
+    store.applyDeltas(sale(6, 2))
+    store.applyDeltas(sale(7, 3, 'carol'))
+
+    const { blocks, seq } = store.getState()
+    expect(seq).toBe(7)
+    expect(blocks.ids).toEqual([0, 1, 2, 3])
+    expect(blocks.byId[2]).toMatchObject({ ownerId: 'bob', status: 'alive', position: { row: 0, col: 2 } })
+    expect(blocks.byId[3].ownerId).toBe('carol')
+    expect(getGame).not.toHaveBeenCalled()
+  })
+
+  it('drops duplicate and stale events', () => {
+    store.applyDeltas(sale(6, 2))
+    const before = store.getState()
+
+    store.applyDeltas(sale(6, 2, 'mallory'))
+    store.applyDeltas(sale(4, 3, 'mallory'))
+
+    expect(store.getState()).toBe(before)
+  })
+
+  it('holds back an event after a gap and resyncs before applying it', async () => {
+    const getGame = vi.spyOn(gameAPI, 'getGame')
+      .mockResolvedValue(snapshot(6, [...initial, block(2, 'bob')]))
+
+    store.applyDeltas(sale(7, 3, 'carol'))
+    expect(store.getState().seq).toBe(5)
+    expect(store.getState().blocks.byId[3]).toBeUndefined()
+
+    await flush()
+
+    expect(getGame).toHaveBeenCalledTimes(1)
+    const { blocks, seq } = store.getState()
+    expect(seq).toBe(7)
+    expect(blocks.byId[2].ownerId).toBe('bob')
+    expect(blocks.byId[3].ownerId).toBe('carol')
+  })
+
+  it('drops held events the resync snapshot already covers', async () => {
+    vi.spyOn(gameAPI, 'getGame').mockResolvedValue(snapshot(8, [...initial, block(3, 'dave')]))
+
+    store.applyDeltas(sale(7, 3, 'carol'))
+    await flush()
+
+    expect(store.getState().seq).toBe(8)
+    expect(store.getState().blocks.byId[3].ownerId).toBe('dave')
+  })
+
+  it('continues from the newest held event when the snapshot is unversioned', async () => {
+    vi.spyOn(gameAPI, 'getGame').mockResolvedValue(snapshot(null, [...initial, block(3, 'carol')]))
+
+    store.applyDeltas(sale(7, 3, 'carol'))
+    await flush()
+    store.applyDeltas(sale(8, 4))
+
+    expect(store.getState().seq).toBe(8)
+    expect(store.getState().blocks.byId[4].ownerId).toBe('bob')
+  })
+
+  it('resyncs again when too many events pile up during a resync', async () => {
+    let resolveFirst: (detail: GameDetail) => void = () => {}
+    const getGame = vi.spyOn(gameAPI, 'getGame')
+      .mockImplementationOnce(() => new Promise(resolve => { resolveFirst = resolve }))
+      .mockResolvedValueOnce(snapshot(507, initial))
+
+    // 501 events from seq 7 on: the buffer overflows and keeps only the last
+    for (let seq = 7; seq <= 507; seq++) {
+      store.applyDeltas(sale(seq, seq % 16))
+    }
+    expect(getGame).toHaveBeenCalledTimes(1)
+
+    // The first snapshot is at 6: the held events no longer continue it
+    resolveFirst(snapshot(6, initial))
+    await flush()
+    await flush()
+
+    expect(getGame).toHaveBeenCalledTimes(2)
+    expect(store.getState().seq).toBe(507)
+    expect(store.getState().blocks.ids).toEqual([0, 1])
+  })
+})
@@ -0,0 +1,568 @@
+import { gameAPI, orderAPI, NotFoundError, isAbortError } from './api'
+import { PackedBlocks } from './blockCodec'
+import { getBlockPosition } from './utils'
+import type {
+  BlockData,
+  BlockDelta,
+  GameData,
+  GameDetail,
+  OrderBook,
+  OrderData,
+  RoundData,
+  WebSocketEvents,
+} from '../shared/types'
+
+// One normalized store per game. REST loads and socket events both write
+// here, and components read through selectors, so there is a single copy of
+// every block and order no matter how many views show it. State is replaced
+// immutably on every change so React can subscribe with useSyncExternalStore.
+
+export interface EntityTable<K extends string | number, T> {
+  byId: Record<K, T>
+  ids: K[]
+}
+
+export type LoadStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+export interface GameState {
+  gameId: string
+  game: GameData | null
+  currentRound: RoundData | null
+  blocks: EntityTable<number, BlockData>
+  // Bitset copy of the blocks for large grids, read by the canvas renderers
+  packed: PackedBlocks | null
+  orders: Record<string, OrderData>
+  bookIds: { asks: string[]; bids: string[] }
+  userOrderIds: string[]
+  userAddress: string | null
+  // Last block delta sequence applied; null until a versioned snapshot arrives
+  seq: number | null
+  status: LoadStatus
+  error: string | null
+  notFound: boolean
+}
+
+type Listener = () => void
+
+type DeltaEvent = WebSocketEvents['block_deltas']
+
+// Deltas held while a snapshot is in flight; past this a resync is cheaper
+const MAX_BUFFERED_DELTAS = 500
+
+// Grids above this size keep a packed copy and fetch blocks in the binary format
+export const PACKED_BLOCKS_THRESHOLD = 1000
+
+function emptyTable<K extends string | number, T>(): EntityTable<K, T> {
+  return { byId: {} as Record<K, T>, ids: [] }
+}
+
+function createInitialState(gameId: string): GameState {
+  return {
+    gameId,
+    game: null,
+    currentRound: null,
+    blocks: emptyTable(),
+    packed: null,
+    orders: {},
+    bookIds: { asks: [], bids: [] },
+    userOrderIds: [],
+    userAddress: null,
+    seq: null,
+    status: 'idle',
+    error: null,
+    notFound: false,
+  }
+}
+
+function toBlockTable(blocks: BlockData[]): EntityTable<number, BlockData> {
+  const byId: Record<number, BlockData> = {}
+  for (const block of blocks) {
+    byId[block.blockId] = block
+  }
+  return { byId, ids: blocks.map(b => b.blockId).sort((a, b) => a - b) }
+}
+
+function isLargeGrid(game: GameData | null): game is GameData {
+  return !!game && game.totalBlocks > PACKED_BLOCKS_THRESHOLD
+}
+
+function packBlocks(game: GameData | null, blocks: BlockData[]): PackedBlocks | null {
+  return isLargeGrid(game) ? PackedBlocks.fromBlocks(blocks, game.totalBlocks) : null
+}
+
+function applyDelta(
+  byId: Record<number, BlockData>,
+  delta: BlockDelta,
+  cols: number
+): BlockData {
+  const block = byId[delta.blockId] ?? {
+    blockId: delta.blockId,
+    position: getBlockPosition(delta.blockId, cols),
+    status: 'unsold',
+    purchasePrice: 0,
+  }
+  if (delta.kind === 'status') {
+    return {
+      ...block,
+      status: delta.status,
+      eliminatedInRound: delta.eliminatedInRound ?? block.eliminatedInRound,
+    }
+  }
+  return {
+    ...block,
+    ownerId: delta.ownerId ?? undefined,
+    purchasePrice: delta.purchasePrice ?? block.purchasePrice,
+    purchasedAt: delta.purchasedAt ?? block.purchasedAt,
+  }
+}
+
+function indexOrders(orders: Record<string, OrderData>, list: OrderData[]): string[] {
+  for (const order of list) {
+    orders[order.orderId] = order
+  }
+  return list.map(o => o.orderId)
+}
+
+export class GameStore {
+  private state: GameState
+  private listeners = new Set<Listener>()
+  private loadController: AbortController | null = null
+  private bufferedDeltas: DeltaEvent[] = []
+  private resyncing = false
+
+  constructor(readonly gameId: string) {
+    this.state = createInitialState(gameId)
+  }
+
+  getState = (): GameState => this.state
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private setState(patch: Partial<GameState>) {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach(listener => listener())
+  }
+
+  // Full REST load; supersedes any load still in flight. userAddress is
+  // recorded up front so callers can tell which wallet a load is for.
+  // Aborting settles the status right away, so a caller that mounts again
+  // straight after (StrictMode, quick navigation) starts a fresh load.
+  async load(userAddress: string | null, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return
+    this.loadController?.abort()
+    const controller = new AbortController()
+    this.loadController = controller
+    signal?.addEventListener('abort', () => {
+      if (this.loadController === controller) this.abort()
+    }, { once: true })
+
+    this.setState({ status: 'loading', userAddress, error: null, notFound: false })
+    try {
+      const [snapshot, orderBook, userOrders] = await Promise.all([
+        this.fetchSnapshot(userAddress, controller.signal),
+        orderAPI.getOrderBook(this.gameId, { signal: controller.signal }),
+        userAddress
+          ? orderAPI.getUserOrders(this.gameId, userAddress, { signal: controller.signal })
+          : [],
+      ])
+
+      const orders: Record<string, OrderData> = {}
+      this.setState({
+        ...snapshot(),
+        bookIds: {
+          asks: indexOrders(orders, orderBook.asks),
+          bids: indexOrders(orders, orderBook.bids),
+        },
+        userOrderIds: indexOrders(orders, userOrders),
+        orders,
+        status: 'ready',
+      })
+      this.drainDeltas()
+    } catch (error) {
+      if (isAbortError(error)) return
+      this.setState({
+        status: 'error',
+        notFound: error instanceof NotFoundError,
+        error: error instanceof Error ? error.message : 'Failed to load game data',
+      })
+    } finally {
+      if (this.loadController === controller) {
+        this.loadController = null
+      }
+    }
+  }
+
+  // Reloads only the connected wallet's orders, and on large grids its
+  // blocks for the prices the packed snapshot lacks
+  async loadUserOrders(userAddress: string | null, signal?: AbortSignal): Promise<void> {
+    if (!userAddress) {
+      this.setState({ userAddress: null, userOrderIds: [] })
+      return
+    }
+    const [userOrders, userBlocks] = await Promise.all([
+      orderAPI.getUserOrders(this.gameId, userAddress, { signal }),
+      isLargeGrid(this.state.game) ? gameAPI.getPlayerBlocks(this.gameId, userAddress, { signal }) : [],
+    ])
+    this.setUserOrders(userAddress, userOrders)
+    this.upsertBlocks(userBlocks)
+  }
+
+  async refreshCurrentRound(signal?: AbortSignal): Promise<void> {
+    const currentRound = await gameAPI.getCurrentRound(this.gameId, { signal })
+    this.setState({ currentRound })
+  }
+
+  // Polling fallback while socket events can't be relied on: refetches the
+  // game and order book. Skipped while a full load is already in flight.
+  async refresh(signal?: AbortSignal): Promise<void> {
+    if (this.state.status === 'loading') return
+    const [snapshot, orderBook] = await Promise.all([
+      this.fetchSnapshot(this.state.userAddress, signal),
+      orderAPI.getOrderBook(this.gameId, { signal }),
+    ])
+    this.setState(snapshot())
+    this.setOrderBook(orderBook)
+    this.drainDeltas()
+  }
+
+  // Cancels the full load in flight; data already loaded stays usable
+  abort() {
+    if (!this.loadController) return
+    this.loadController.abort()
+    this.loadController = null
+    if (this.state.status === 'loading') {
+      this.setState({ status: this.state.game ? 'ready' : 'idle' })
+    }
+  }
+
+  applyGameState(update: WebSocketEvents['game_state_update']) {
+    this.setState({
+      game: update.game,
+      blocks: toBlockTable(update.blocks),
+      packed: packBlocks(update.game, update.blocks),
+      ...(update.currentRound ? { currentRound: update.currentRound } : {}),
+      ...(update.seq !== undefined ? { seq: update.seq } : {}),
+    })
+    this.drainDeltas()
+  }
+
+  // Applies a delta event if it is the next in sequence. Duplicates are
+  // dropped; an event arriving before its predecessors is held back and a
+  // snapshot is fetched to fill the gap.
+  applyDeltas(event: DeltaEvent) {
+    const { seq, status } = this.state
+    if (seq !== null && event.seq <= seq) return
+
+    if (seq === null || this.resyncing || event.seq !== seq + 1) {
+      this.bufferDeltas(event)
+      // A full load in flight will bring a snapshot; otherwise go get one
+      if (status !== 'loading' && !this.resyncing) {
+        this.resync()
+      }
+      return
+    }
+
+    this.commitDeltas([event])
+  }
+
+  private bufferDeltas(event: DeltaEvent) {
+    if (this.bufferedDeltas.length >= MAX_BUFFERED_DELTAS) {
+      this.bufferedDeltas = []
+    }
+    this.bufferedDeltas.push(event)
+  }
+
+  // Applies buffered events that continue the current sequence. A gap left
+  // in the buffer means events were lost, so another snapshot is needed.
+  private drainDeltas() {
+    const { seq } = this.state
+    if (seq === null || this.bufferedDeltas.length === 0) return
+
+    const pending = this.bufferedDeltas
+      .filter(event => event.seq > seq)
+      .sort((a, b) => a.seq - b.seq)
+    this.bufferedDeltas = []
+
+    const contiguous: DeltaEvent[] = []
+    let next = seq + 1
+    for (const event of pending) {
+      if (event.seq < next) continue
+      if (event.seq !== next) break
+      contiguous.push(event)
+      next++
+    }
+    this.commitDeltas(contiguous)
+
+    const remaining = pending.filter(event => event.seq >= next)
+    if (remaining.length > 0) {
+      this.bufferedDeltas = remaining
+      this.resync()
+    }
+  }
+
+  private commitDeltas(events: DeltaEvent[]) {
+    if (events.length === 0) return
+    const cols = this.state.game?.config.gridSize.cols ?? 1
+    const byId = { ...this.state.blocks.byId }
+    let ids = this.state.blocks.ids
+    let game = this.state.game
+    let packed = this.state.packed
+
+    for (const event of events) {
+      packed = packed?.withDeltas(event.deltas, event.seq) ?? null
+      for (const delta of event.deltas) {
+        if (!(delta.blockId in byId)) {
+          ids = [...ids, delta.blockId]
+        }
+        byId[delta.blockId] = applyDelta(byId, delta, cols)
+      }
+      game = event.game ?? game
+    }
+    if (ids !== this.state.blocks.ids) {
+      ids.sort((a, b) => a - b)
+    }
+
+    this.setState({
+      blocks: { byId, ids },
+      packed,
+      game,
+      seq: events[events.length - 1].seq,
+    })
+  }
+
+  // Game snapshot for load and refresh, returned as a patch to build once
+  // it is applied. Large grids take their blocks packed, plus the wallet's
+  // own blocks as JSON for the prices the packed form leaves out; a first
+  // load fetches the game alone to learn its size.
+  private async fetchSnapshot(
+    userAddress: string | null,
+    signal?: AbortSignal
+  ): Promise<() => Partial<GameState>> {
+    const game = this.state.game ??
+      (await gameAPI.getGame(this.gameId, { signal, includeBlocks: false })).game
+    if (!isLargeGrid(game)) {
+      const detail = await gameAPI.getGame(this.gameId, { signal })
+      return () => this.snapshotPatch(detail)
+    }
+
+    const [detail, packed, userBlocks] = await Promise.all([
+      gameAPI.getGame(this.gameId, { signal, includeBlocks: false }),
+      gameAPI.getPackedBlocks(this.gameId, game.totalBlocks, { signal }),
+      userAddress ? gameAPI.getPlayerBlocks(this.gameId, userAddress, { signal }) : [],
+    ])
+    return () => {
+      const seq = this.snapshotSeq(packed.seq)
+      return {
+        game: detail.game,
+        currentRound: detail.currentRound,
+        blocks: toBlockTable(this.expandPacked(detail.game, packed, userBlocks)),
+        packed: packed.withSeq(seq),
+        seq,
+      }
+    }
+  }
+
+  // Blocks of a packed snapshot with the prices and timestamps of blocks
+  // already in the table (or in `fresher`) that kept their owner
+  private expandPacked(game: GameData, packed: PackedBlocks, fresher: BlockData[] = []): BlockData[] {
+    const known = { ...this.state.blocks.byId }
+    for (const block of fresher) {
+      known[block.blockId] = block
+    }
+    return packed.toBlocks(game.config.gridSize.cols, game.config.blockPrice, this.gameId, known)
+  }
+
+  private snapshotPatch(detail: GameDetail): Partial<GameState> {
+    return {
+      game: detail.game,
+      currentRound: detail.currentRound,
+      blocks: toBlockTable(detail.blocks),
+      packed: packBlocks(detail.game, detail.blocks),
+      seq: this.snapshotSeq(detail.seq),
+    }
+  }
+
+  // Servers that don't version snapshots: a snapshot fetched after an event
+  // arrived already reflects it, so continue from the newest buffered event
+  private snapshotSeq(seq: number | null): number | null {
+    if (seq !== null || this.bufferedDeltas.length === 0) return seq
+    const latest = Math.max(...this.bufferedDeltas.map(event => event.seq))
+    this.bufferedDeltas = []
+    return latest
+  }
+
+  // Refetches the game snapshot only (not the order book or user orders).
+  // Large grids fetch just the packed blocks; game totals catch up from the
+  // next delta or state event.
+  private async resync() {
+    if (this.resyncing) return
+    this.resyncing = true
+    try {
+      const { game } = this.state
+      if (isLargeGrid(game)) {
+        const packed = await gameAPI.getPackedBlocks(this.gameId, game.totalBlocks)
+        const seq = this.snapshotSeq(packed.seq)
+        this.setState({
+          blocks: toBlockTable(this.expandPacked(game, packed)),
+          packed: packed.withSeq(seq),
+          seq,
+        })
+      } else {
+        const detail = await gameAPI.getGame(this.gameId)
+        this.setState(this.snapshotPatch(detail))
+      }
+    } catch (error) {
+      console.warn('Block delta resync failed:', error)
+      this.bufferedDeltas = []
+    } finally {
+      this.resyncing = false
+    }
+    if (this.state.seq !== null) {
+      this.drainDeltas()
+    }
+  }
+
+  setGame(game: GameData) {
+    this.setState({ game })
+  }
+
+  setCurrentRound(currentRound: RoundData | null) {
+    this.setState({ currentRound })
+  }
+
+  // Merges blocks into the table without touching the others
+  upsertBlocks(blocks: BlockData[]) {
+    if (blocks.length === 0) return
+    const byId = { ...this.state.blocks.byId }
+    let ids = this.state.blocks.ids
+    for (const block of blocks) {
+      if (!(block.blockId in byId)) {
+        ids = [...ids, block.blockId]
+      }
+      byId[block.blockId] = block
+    }
+    if (ids !== this.state.blocks.ids) {
+      ids.sort((a, b) => a - b)
+    }
+    this.setState({
+      blocks: { byId, ids },
+      packed: this.state.packed?.withBlocks(blocks) ?? null,
+    })
+  }
+
+  setOrderBook(orderBook: OrderBook) {
+    const orders = { ...this.state.orders }
+    this.setState({
+      bookIds: {
+        asks: indexOrders(orders, orderBook.asks),
+        bids: indexOrders(orders, orderBook.bids),
+      },
+      orders,
+    })
+  }
+
+  setUserOrders(userAddress: string, userOrders: OrderData[]) {
+    const orders = { ...this.state.orders }
+    this.setState({ userAddress, userOrderIds: indexOrders(orders, userOrders), orders })
+  }
+
+  upsertUserOrder(order: OrderData) {
+    const known = this.state.userOrderIds.includes(order.orderId)
+    this.setState({
+      orders: { ...this.state.orders, [order.orderId]: order },
+      userOrderIds: known ? this.state.userOrderIds : [order.orderId, ...this.state.userOrderIds],
+    })
+  }
+
+  removeUserOrder(orderId: string) {
+    this.setState({ userOrderIds: this.state.userOrderIds.filter(id => id !== orderId) })
+  }
+}
+
+const stores = new Map<string, GameStore>()
+
+export function getGameStore(gameId: string): GameStore {
+  let store = stores.get(gameId)
+  if (!store) {
+    store = new GameStore(gameId)
+    stores.set(gameId, store)
+  }
+  return store
+}
+
+// Selectors. Derived arrays are memoized on the entity objects they read,
+// so a selector returns the same reference until its inputs change.
+
+function memoize<K extends object, R>(compute: (key: K) => R): (key: K) => R {
+  const cache = new WeakMap<K, R>()
+  return (key) => {
+    if (!cache.has(key)) {
+      cache.set(key, compute(key))
+    }
+    return cache.get(key)!
+  }
+}
+
+const blockList = memoize((table: EntityTable<number, BlockData>) =>
+  table.ids.map(id => table.byId[id])
+)
+
+export const selectGame = (state: GameState) => state.game
+
+export const selectStatus = (state: GameState) => state.status
+
+export const selectError = (state: GameState) =>
+  state.notFound ? 'Game not found' : state.error
+
+export const selectCurrentRound = (state: GameState) => state.currentRound
+
+export const selectBlocks = (state: GameState): BlockData[] => blockList(state.blocks)
+
+export const selectPackedBlocks = (state: GameState): PackedBlocks | null => state.packed
+
+export const selectBlock = (state: GameState, blockId: number): BlockData | undefined =>
+  state.blocks.byId[blockId]
+
+const orderBookCache = new WeakMap<GameState['bookIds'], { orders: GameState['orders']; book: OrderBook }>()
+
+export const selectOrderBook = (state: GameState): OrderBook => {
+  const cached = orderBookCache.get(state.bookIds)
+  if (cached && cached.orders === state.orders) return cached.book
+  const book = {
+    asks: state.bookIds.asks.map(id => state.orders[id]),
+    bids: state.bookIds.bids.map(id => state.orders[id]),
+  }
+  orderBookCache.set(state.bookIds, { orders: state.orders, book })
+  return book
+}
+
+const userOrderCache = new WeakMap<string[], { orders: GameState['orders']; list: OrderData[] }>()
+
+export const selectUserOrders = (state: GameState): OrderData[] => {
+  const cached = userOrderCache.get(state.userOrderIds)
+  if (cached && cached.orders === state.orders) return cached.list
+  const list = state.userOrderIds.map(id => state.orders[id])
+  userOrderCache.set(state.userOrderIds, { orders: state.orders, list })
+  return list
+}
+
+const userBlockCache = new WeakMap<EntityTable<number, BlockData>, Map<string, BlockData[]>>()
+
+export const selectUserBlocks = (state: GameState, userAddress: string): BlockData[] => {
+  let byOwner = userBlockCache.get(state.blocks)
+  if (!byOwner) {
+    byOwner = new Map()
+    userBlockCache.set(state.blocks, byOwner)
+  }
+  let owned = byOwner.get(userAddress)
+  if (!owned) {
+    owned = userAddress ? selectBlocks(state).filter(b => b.ownerId === userAddress) : []
+    byOwner.set(userAddress, owned)
+  }
+  return owned
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import nacl from 'tweetnacl'
+import { Keypair, type Transaction } from '@solana/web3.js'
+import { MockServer } from '../mock/server'
+import type { MockGame } from '../mock/database'
+import { setFetchTransport } from './api'
+import {
+  getMintReceipts,
+  getOrCreateIntent,
+  getPaidUnmintedIntents,
+  getPendingIntents,
+  payForMintIntent,
+  refundPaidMint,
+  retryPaidMint,
+  submitIntent,
+  type MintIntent,
+} from './intents'
+import { setPaymentConnection, type PaymentState } from './payments'
+
+// A wallet that both pays and signs requests with one in-memory keypair
+function keypairWallet(keypair = Keypair.generate()) {
+  return {
+    address: keypair.publicKey.toBase58(),
+    signTransaction: async (transaction: Transaction) => {
+      transaction.partialSign(keypair)
+      return transaction
+    },
+    signMessage: async (message: Uint8Array) => nacl.sign.detached(message, keypair.secretKey),
+  }
+}
+
+// Intents persist in localStorage; node has none
+function memoryStorage(): Pick<Storage, 'getItem' | 'setItem'> {
+  const items = new Map<string, string>()
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  }
+}
+
+// Runs fake time forward until the promise settles. Hashing and signing
+// finish on real time, so each step also yields to the event loop.
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let done = false
+  promise.then(() => { done = true }, () => { done = true })
+  while (!done) {
+    await vi.advanceTimersByTimeAsync(100)
+    await new Promise(resolve => setImmediate(resolve))
+  }
+  return promise
+}
+
+describe('mint intents against the mock backend', () => {
+  const treasury = Keypair.generate().publicKey.toBase58()
+  let server: MockServer
+  let record: MockGame
+  let wallet: ReturnType<typeof keypairWallet>
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] })
+    vi.stubGlobal('window', { localStorage: memoryStorage() })
+    server = new MockServer({ latencyMs: [0, 0] })
+    setFetchTransport(server.fetch)
+    setPaymentConnection(server.ledger)
+    record = server.db.createGame('Test', {
+      gridSize: { rows: 4, cols: 4 },
+      blockPrice: 0.1,
+      feeRate: 0.05,
+      roundDuration: 60,
+      treasuryAddress: treasury,
+    })
+    record.game.status = 'minting'
+    wallet = keypairWallet()
+  })
+
+  afterEach(() => {
+    server.dispose()
+    setFetchTransport(null)
+    setPaymentConnection(null)
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  // Pays for a mint of these blocks and waits for the transfer to finalize
+  async function paidIntent(blockIds: number[]): Promise<MintIntent> {
+    const intent = getOrCreateIntent('mint', record.game.gameId, {
+      buyerAddress: wallet.address,
+      blockIds,
+      paymentAmount: blockIds.length * 0.1,
+    })
+    return settle(payForMintIntent(intent, wallet, treasury))
+  }
+
+  // Someone else buys the blocks between the payment and the mint
+  function sellElsewhere(blockIds: number[]) {
+    server.mint(record, { buyerAddress: keypairWallet().address, blockIds, paymentAmount: blockIds.length * 0.1 })
+  }
+
+  it('pays, waits for finality and mints once', async () => {
+    const states: PaymentState[] = []
+    const intent = getOrCreateIntent('mint', record.game.gameId, {
+      buyerAddress: wallet.address,
+      blockIds: [1, 2],
+      paymentAmount: 0.2,
+    })
+
+    const paid = await settle(payForMintIntent(intent, wallet, treasury, { onStatus: state => states.push(state) }))
+    expect(states[states.length - 1]).toEqual({ status: 'finalized', signature: paid.payment?.signature })
+
+    const outcome = await settle(submitIntent(paid, wallet))
+    expect(outcome.status).toBe('minted')
+    expect(record.blocks[1].ownerId).toBe(wallet.address)
+    expect(getPendingIntents(record.game.gameId)).toEqual([])
+    // Kept for P&L after the blocks change hands
+    expect(getMintReceipts(record.game.gameId, wallet.address).map(r => [r.blockId, r.price])).toEqual([[1, 0.1], [2, 0.1]])
+  })
+
+  it('reuses the recorded transfer instead of paying again', async () => {
+    const paid = await paidIntent([3])
+    const again = await settle(payForMintIntent(
+      getOrCreateIntent('mint', record.game.gameId, paid.payload),
+      wallet,
+      treasury
+    ))
+
+    expect(again.payment).toEqual(paid.payment)
+  })
+
+  it('keeps a mint refused after payment as paid, not minted', async () => {
+    const paid = await paidIntent([4, 5])
+    sellElsewhere([4])
+
+    await expect(settle(submitIntent(paid, wallet))).rejects.toThrow('Block 4 is already sold')
+
+    const [kept] = getPaidUnmintedIntents(record.game.gameId, wallet.address)
+    expect(kept).toMatchObject({ key: paid.key, payment: paid.payment, rejection: 'Block 4 is already sold' })
+    // A new mint of the same blocks is a new intent, not the refused one
+    expect(getOrCreateIntent('mint', record.game.gameId, paid.payload).key).not.toBe(paid.key)
+  })
+
+  it('retries a refused mint with the same transfer for as many unsold blocks', async () => {
+    const paid = await paidIntent([6, 7])
+    sellElsewhere([6])
+    await expect(settle(submitIntent(paid, wallet))).rejects.toThrow()
+    const [kept] = getPaidUnmintedIntents(record.game.gameId, wallet.address)
+
+    const outcome = await settle(retryPaidMint(kept, wallet))
+
+    expect(outcome.status).toBe('minted')
+    expect(outcome.status === 'minted' && outcome.blocks).toHaveLength(2)
+    expect(getPaidUnmintedIntents(record.game.gameId, wallet.address)).toEqual([])
+    // The transfer is spent now
+    await expect(settle(refundPaidMint(kept, wallet))).rejects.toThrow('Payment already used')
+  })
+
+  it('refunds a refused mint once and drops it', async () => {
+    const paid = await paidIntent([8])
+    sellElsewhere([8])
+    await expect(settle(submitIntent(paid, wallet))).rejects.toThrow()
+    const [kept] = getPaidUnmintedIntents(record.game.gameId, wallet.address)
+
+    await settle(refundPaidMint(kept, wallet))
+
+    expect(getPendingIntents(record.game.gameId)).toEqual([])
+    await expect(settle(retryPaidMint(kept, wallet))).rejects.toThrow('Payment already used')
+  })
+})
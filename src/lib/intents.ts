@@ -0,0 +1,356 @@
+import { gameAPI, orderAPI, isAPIError, isAbortError } from './api'
+import { signRequest, type RequestSigner } from './signing'
+import {
+  PaymentError,
+  sendPayment,
+  trackPayment,
+  type PaymentRecord,
+  type PaymentSigner,
+  type PaymentState,
+} from './payments'
+import type {
+  BlockData,
+  CreateOrderRequest,
+  MintBlocksRequest,
+  OrderData,
+} from '../shared/types'
+
+// Pending user intents (mint, create order) survive reloads in localStorage.
+// Each intent owns one idempotency key: resubmitting the same intent reuses
+// it, so the server applies the action at most once however often it is sent.
+// A mint the server refuses after its transfer landed is paid, not minted:
+// it is kept, with its transfer, until the user retries it or is refunded.
+
+const STORAGE_KEY = 'blockchance:pending-intents'
+const RECEIPTS_KEY = 'blockchance:mint-receipts'
+const INTENT_TTL_MS = 24 * 60 * 60 * 1000
+
+interface IntentBase {
+  key: string
+  gameId: string
+  createdAt: number
+}
+
+export type PendingIntent =
+  // payment is set once the SOL transfer for the mint has been submitted,
+  // rejection once the server refused the mint after it was paid
+  | (IntentBase & { action: 'mint'; payload: MintBlocksRequest; payment?: PaymentRecord; rejection?: string })
+  | (IntentBase & { action: 'create_order'; payload: CreateOrderRequest })
+
+export type IntentAction = PendingIntent['action']
+
+export type MintIntent = Extract<PendingIntent, { action: 'mint' }>
+
+type IntentPayload<A extends IntentAction> = Extract<PendingIntent, { action: A }>['payload']
+
+// What a settled mint paid per block, kept after the block changes hands
+// so P&L still knows its cost basis
+export interface MintReceipt {
+  gameId: string
+  blockId: number
+  owner: string
+  price: number
+  mintedAt?: string
+}
+
+export type IntentOutcome =
+  | { intent: PendingIntent; status: 'minted'; blocks: BlockData[] }
+  | { intent: PendingIntent; status: 'order_created'; order: OrderData }
+  | { intent: PendingIntent; status: 'rejected'; message: string }
+  | { intent: PendingIntent; status: 'pending' }
+
+export function generateIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function readStored<T>(key: string): T[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? JSON.parse(raw) : []
+  } catch {
+    return []
+  }
+}
+
+function writeStored<T>(key: string, items: T[]) {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(key, JSON.stringify(items))
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error)
+  }
+}
+
+function readIntents(): PendingIntent[] {
+  const cutoff = Date.now() - INTENT_TTL_MS
+  // Paid mints never expire: they are the only record of the transfer
+  return readStored<PendingIntent>(STORAGE_KEY).filter(
+    intent => intent.createdAt > cutoff || (intent.action === 'mint' && intent.payment)
+  )
+}
+
+function writeIntents(intents: PendingIntent[]) {
+  writeStored(STORAGE_KEY, intents)
+}
+
+function recordMintReceipts(gameId: string, blocks: BlockData[]) {
+  const minted = new Set(blocks.map(block => block.blockId))
+  const receipts = readStored<MintReceipt>(RECEIPTS_KEY).filter(
+    receipt => receipt.gameId !== gameId || !minted.has(receipt.blockId)
+  )
+  for (const block of blocks) {
+    if (!block.ownerId) continue
+    receipts.push({
+      gameId,
+      blockId: block.blockId,
+      owner: block.ownerId,
+      price: block.purchasePrice,
+      mintedAt: block.purchasedAt,
+    })
+  }
+  writeStored(RECEIPTS_KEY, receipts)
+}
+
+// Blocks this wallet minted in the game, from mints settled on this device
+export function getMintReceipts(gameId: string, owner: string): MintReceipt[] {
+  return readStored<MintReceipt>(RECEIPTS_KEY).filter(
+    receipt => receipt.gameId === gameId && receipt.owner === owner
+  )
+}
+
+// Stable fingerprint so the same selection maps back to the same intent
+function fingerprint(action: IntentAction, gameId: string, payload: object): string {
+  const normalized: Record<string, unknown> = { ...payload }
+  if (Array.isArray(normalized.blockIds)) {
+    normalized.blockIds = [...normalized.blockIds].sort((a, b) => a - b)
+  }
+  const keys = Object.keys(normalized).sort()
+  return JSON.stringify([action, gameId, keys.map(k => [k, normalized[k]])])
+}
+
+// Returns the pending intent for this exact payload, or records a new one
+export function getOrCreateIntent<A extends IntentAction>(
+  action: A,
+  gameId: string,
+  payload: IntentPayload<A>
+): Extract<PendingIntent, { action: A }> {
+  const intents = readIntents()
+  const target = fingerprint(action, gameId, payload)
+  const existing = intents.find(
+    intent => !isPaidUnminted(intent) && fingerprint(intent.action, intent.gameId, intent.payload) === target
+  )
+  if (existing) {
+    return existing as Extract<PendingIntent, { action: A }>
+  }
+
+  const intent = {
+    key: generateIdempotencyKey(),
+    action,
+    gameId,
+    payload,
+    createdAt: Date.now(),
+  } as Extract<PendingIntent, { action: A }>
+  writeIntents([...intents, intent])
+  return intent
+}
+
+export function resolveIntent(key: string) {
+  writeIntents(readIntents().filter(intent => intent.key !== key))
+}
+
+export function getPendingIntents(gameId: string): PendingIntent[] {
+  return readIntents().filter(intent => intent.gameId === gameId)
+}
+
+function recordIntentPayment(key: string, payment: PaymentRecord | undefined) {
+  writeIntents(readIntents().map(intent =>
+    intent.key === key && intent.action === 'mint' ? { ...intent, payment } : intent
+  ))
+}
+
+function recordIntentRejection(key: string, rejection: string) {
+  writeIntents(readIntents().map(intent =>
+    intent.key === key && intent.action === 'mint' ? { ...intent, rejection } : intent
+  ))
+}
+
+export function isPaidUnminted(intent: PendingIntent): intent is MintIntent & { payment: PaymentRecord; rejection: string } {
+  return intent.action === 'mint' && !!intent.payment && intent.rejection !== undefined
+}
+
+// Mints of this wallet that were paid for but refused by the server
+export function getPaidUnmintedIntents(gameId: string, owner: string): MintIntent[] {
+  return getPendingIntents(gameId).filter(
+    (intent): intent is MintIntent => isPaidUnminted(intent) && getIntentOwner(intent) === owner
+  )
+}
+
+// Wallet address the intent acts for; only that wallet can sign it
+export function getIntentOwner(intent: PendingIntent): string {
+  return intent.action === 'mint' ? intent.payload.buyerAddress : intent.payload.userId
+}
+
+// Makes sure the mint intent has a transfer at `finalized` before the mint
+// is sent. A transfer recorded by an earlier attempt is tracked rather than
+// paid again; one that failed or expired on chain moved no SOL, so it is
+// replaced with a fresh one.
+export async function payForMintIntent(
+  intent: MintIntent,
+  signer: PaymentSigner,
+  treasury: string,
+  { onStatus, signal }: { onStatus?: (state: PaymentState) => void; signal?: AbortSignal } = {}
+): Promise<MintIntent> {
+  if (intent.payment) {
+    try {
+      await trackPayment(intent.payment, { onStatus, signal })
+      return intent
+    } catch (error) {
+      if (!(error instanceof PaymentError)) throw error
+      recordIntentPayment(intent.key, undefined)
+    }
+  }
+
+  const payment = await sendPayment({
+    signer,
+    treasury,
+    amount: intent.payload.paymentAmount,
+    memo: `blockchance:${intent.gameId}:${intent.key}`,
+    onStatus,
+  })
+  recordIntentPayment(intent.key, payment)
+  await trackPayment(payment, { onStatus, signal })
+  return { ...intent, payment }
+}
+
+// Only definitive answers settle an intent; network failures and timeouts
+// leave it pending so it can be reconciled later.
+export function isDefinitiveFailure(error: unknown): boolean {
+  return (
+    isAPIError(error) &&
+    (error.kind === 'validation' || error.kind === 'conflict' || error.kind === 'not_found')
+  )
+}
+
+// Signs and sends the intent with its key. Each attempt gets a fresh
+// signature; the idempotency key is what ties retries together. Definitive
+// failures settle the intent, or mark a paid mint as paid, not minted, and
+// are rethrown; anything else leaves it pending for reconcileIntents.
+export async function submitIntent(
+  intent: PendingIntent,
+  signer: RequestSigner,
+  signal?: AbortSignal
+): Promise<IntentOutcome> {
+  const options = { idempotencyKey: intent.key, signal }
+
+  try {
+    if (intent.action === 'mint') {
+      const payload = { ...intent.payload, paymentSignature: intent.payment?.signature }
+      const signature = await signRequest(signer, intent.action, intent.gameId, payload)
+      const blocks = await gameAPI.mintBlocks(intent.gameId, { ...payload, signature }, options)
+      recordMintReceipts(intent.gameId, blocks)
+      resolveIntent(intent.key)
+      return { intent, status: 'minted', blocks }
+    }
+    const signature = await signRequest(signer, intent.action, intent.gameId, intent.payload)
+    const order = await orderAPI.createOrder({ ...intent.payload, signature }, options)
+    resolveIntent(intent.key)
+    return { intent, status: 'order_created', order }
+  } catch (error) {
+    if (isDefinitiveFailure(error)) {
+      if (intent.action === 'mint' && intent.payment) {
+        recordIntentRejection(intent.key, error instanceof Error ? error.message : 'Mint rejected')
+      } else {
+        resolveIntent(intent.key)
+      }
+    }
+    throw error
+  }
+}
+
+// Sends a paid, not minted intent again with the same transfer. The old key
+// is bound to the refusal, so the retry gets a fresh one; picked blocks are
+// what is usually refused, so it asks for as many blocks from those unsold.
+export async function retryPaidMint(
+  intent: MintIntent,
+  signer: RequestSigner,
+  signal?: AbortSignal
+): Promise<IntentOutcome> {
+  const { blockIds, quantity, ...rest } = intent.payload
+  const retry: MintIntent = {
+    ...intent,
+    key: generateIdempotencyKey(),
+    payload: { ...rest, quantity: blockIds?.length ?? quantity },
+    rejection: undefined,
+  }
+  writeIntents([...readIntents().filter(i => i.key !== intent.key), retry])
+  return submitIntent(retry, signer, signal)
+}
+
+// Asks the server to return the transfer of a paid, not minted intent. The
+// intent is dropped only once the refund is accepted.
+export async function refundPaidMint(
+  intent: MintIntent,
+  signer: RequestSigner,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!intent.payment) throw new Error('Mint was never paid for')
+  const payload = { buyerAddress: intent.payload.buyerAddress, paymentSignature: intent.payment.signature }
+  const signature = await signRequest(signer, 'refund_payment', intent.gameId, payload)
+  await gameAPI.requestRefund(intent.gameId, { ...payload, signature }, {
+    idempotencyKey: `refund:${intent.key}`,
+    signal,
+  })
+  resolveIntent(intent.key)
+}
+
+// Replays the signer's pending intents for a game with their original keys.
+// The server answers a replay with the stored result, so each intent settles
+// exactly once. Intents owned by other wallets wait until that wallet connects,
+// mints whose transfer was never submitted are left for the user to retry and
+// paid, not minted ones for the user to retry or refund.
+export async function reconcileIntents(
+  gameId: string,
+  signer: RequestSigner,
+  signal?: AbortSignal
+): Promise<IntentOutcome[]> {
+  const outcomes: IntentOutcome[] = []
+  const intents = getPendingIntents(gameId).filter(
+    intent => getIntentOwner(intent) === signer.address &&
+      (intent.action !== 'mint' || (intent.payment && !isPaidUnminted(intent)))
+  )
+
+  for (const intent of intents) {
+    try {
+      if (intent.action === 'mint' && intent.payment) {
+        await trackPayment(intent.payment, { signal })
+      }
+      outcomes.push(await submitIntent(intent, signer, signal))
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      if (error instanceof PaymentError) {
+        // The transfer never landed; the mint can be retried from scratch
+        resolveIntent(intent.key)
+        outcomes.push({ intent, status: 'rejected', message: error.message })
+      } else if (isDefinitiveFailure(error)) {
+        const message = error instanceof Error ? error.message : 'Request rejected'
+        outcomes.push({
+          intent,
+          status: 'rejected',
+          // Only paid mints reach the server, and those are kept
+          message: intent.action === 'mint' ? `${message}. Your payment is kept: retry or request a refund from the Mint tab.` : message,
+        })
+      } else {
+        console.warn(`Intent ${intent.key} still pending:`, error)
+        outcomes.push({ intent, status: 'pending' })
+      }
+    }
+  }
+
+  return outcomes
+}
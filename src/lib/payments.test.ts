@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Keypair, type Transaction } from '@solana/web3.js'
+import { MockLedger } from '../mock/ledger'
+import {
+  PaymentError,
+  sendPayment,
+  trackPayment,
+  type PaymentSigner,
+  type PaymentState,
+} from './payments'
+
+function keypairWallet(keypair = Keypair.generate()): PaymentSigner {
+  return {
+    address: keypair.publicKey.toBase58(),
+    signTransaction: async (transaction: Transaction) => {
+      transaction.partialSign(keypair)
+      return transaction
+    },
+  }
+}
+
+// Runs fake time forward until the promise settles. Hashing and signing
+// finish on real time, so each step also yields to the event loop.
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let done = false
+  promise.then(() => { done = true }, () => { done = true })
+  while (!done) {
+    await vi.advanceTimersByTimeAsync(100)
+    await new Promise(resolve => setImmediate(resolve))
+  }
+  return promise
+}
+
+describe('sendPayment / trackPayment', () => {
+  let ledger: MockLedger
+  const treasury = Keypair.generate().publicKey.toBase58()
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] })
+    ledger = new MockLedger()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('follows a transfer from submitted to finalized', async () => {
+    const states: PaymentState[] = []
+    const record = await sendPayment({
+      signer: keypairWallet(),
+      treasury,
+      amount: 0.2,
+      memo: 'blockchance:game-1:key',
+      connection: ledger,
+      onStatus: state => states.push(state),
+    })
+
+    await settle(trackPayment(record, { connection: ledger, onStatus: state => states.push(state) }))
+
+    expect(states.map(state => state.status)).toEqual(['building', 'signing', 'submitted', 'confirmed', 'finalized'])
+    expect(ledger.finalizedTransfer(record.signature).lamports).toBe(200_000_000)
+  })
+
+  it('stops at confirmed when that is all it waits for', async () => {
+    const record = await sendPayment({ signer: keypairWallet(), treasury, amount: 0.1, memo: 'm', connection: ledger })
+
+    await settle(trackPayment(record, { commitment: 'confirmed', connection: ledger }))
+
+    expect(() => ledger.finalizedTransfer(record.signature)).toThrow('not finalized')
+  })
+
+  it('expires a transfer the cluster never saw once its blockhash is too old', async () => {
+    await vi.advanceTimersByTimeAsync(2_000)
+    const lastValidBlockHeight = (await ledger.getBlockHeight()) - 1
+    const states: PaymentState[] = []
+
+    const tracking = trackPayment(
+      { signature: 'never-submitted', lastValidBlockHeight },
+      { connection: ledger, onStatus: state => states.push(state) }
+    )
+
+    await expect(tracking).rejects.toBeInstanceOf(PaymentError)
+    await expect(tracking).rejects.toMatchObject({ status: 'expired', signature: 'never-submitted' })
+    expect(states[states.length - 1]?.status).toBe('expired')
+  })
+
+  it('keeps polling an unseen transfer while its blockhash is still valid', async () => {
+    const lastValidBlockHeight = (await ledger.getBlockHeight()) + 10
+    const tracking = trackPayment({ signature: 'not-yet', lastValidBlockHeight }, { connection: ledger })
+    const outcome = expect(tracking).rejects.toMatchObject({ status: 'expired' })
+
+    // 10 blocks of 400ms go by before the height passes the limit
+    await vi.advanceTimersByTimeAsync(3_000)
+    let settled = false
+    tracking.catch(() => { settled = true })
+    await Promise.resolve()
+    expect(settled).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(2_000)
+    await outcome
+  })
+})
@@ -0,0 +1,211 @@
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  type Commitment,
+} from '@solana/web3.js'
+import { Buffer } from 'buffer'
+
+// Mint payments are plain SOL transfers to the game treasury, tagged with a
+// memo naming the game and intent so the server can tie the transfer to one
+// mint. Point VITE_SOLANA_RPC_URL at a local validator in dev; the mock
+// backend swaps in its own in-memory ledger (mock/ledger).
+
+const RPC_URL = import.meta.env.VITE_SOLANA_RPC_URL || 'http://127.0.0.1:8899'
+const DEFAULT_TREASURY = import.meta.env.VITE_TREASURY_ADDRESS
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr')
+const POLL_INTERVAL_MS = 1_000
+
+export type PaymentStatus =
+  | 'building'
+  | 'signing'
+  | 'submitted'
+  | 'confirmed'
+  | 'finalized'
+  | 'failed'
+  | 'expired'
+
+export interface PaymentState {
+  status: PaymentStatus
+  signature?: string
+  error?: string
+}
+
+export interface PaymentSigner {
+  address: string
+  signTransaction(transaction: Transaction): Promise<Transaction>
+}
+
+// A submitted transfer: enough to resume tracking it after a reload
+export interface PaymentRecord {
+  signature: string
+  lastValidBlockHeight: number
+}
+
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public status: Extract<PaymentStatus, 'failed' | 'expired'>,
+    public signature?: string
+  ) {
+    super(message)
+    this.name = 'PaymentError'
+  }
+}
+
+// The part of a Solana RPC connection that payments use
+export type PaymentConnection = Pick<
+  Connection,
+  'getLatestBlockhash' | 'sendRawTransaction' | 'getSignatureStatuses' | 'getBlockHeight'
+>
+
+let sharedConnection: PaymentConnection | null = null
+
+export function getConnection(): PaymentConnection {
+  sharedConnection = sharedConnection ?? new Connection(RPC_URL, 'confirmed')
+  return sharedConnection
+}
+
+// Replaces the RPC connection, or restores the default one with null
+export function setPaymentConnection(connection: PaymentConnection | null) {
+  sharedConnection = connection
+}
+
+export function getTreasuryAddress(treasuryAddress?: string): string {
+  const address = treasuryAddress ?? DEFAULT_TREASURY
+  if (!address) {
+    throw new PaymentError('Game has no treasury address configured', 'failed')
+  }
+  return address
+}
+
+export function solToLamports(amount: number): number {
+  return Math.round(amount * LAMPORTS_PER_SOL)
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(signal.reason ?? new DOMException('Aborted', 'AbortError'))
+      },
+      { once: true }
+    )
+  })
+}
+
+interface SendPaymentParams {
+  signer: PaymentSigner
+  treasury: string
+  amount: number // SOL
+  memo: string
+  connection?: PaymentConnection
+  onStatus?: (state: PaymentState) => void
+}
+
+// Builds, signs and submits the transfer. Returns once the RPC has accepted
+// it; use trackPayment to follow it to finality.
+export async function sendPayment({
+  signer,
+  treasury,
+  amount,
+  memo,
+  connection = getConnection(),
+  onStatus,
+}: SendPaymentParams): Promise<PaymentRecord> {
+  onStatus?.({ status: 'building' })
+  const payer = new PublicKey(signer.address)
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+
+  const transaction = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight })
+    .add(SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: new PublicKey(treasury),
+      lamports: solToLamports(amount),
+    }))
+    .add(new TransactionInstruction({
+      keys: [{ pubkey: payer, isSigner: true, isWritable: false }],
+      programId: MEMO_PROGRAM_ID,
+      data: Buffer.from(memo, 'utf8'),
+    }))
+
+  onStatus?.({ status: 'signing' })
+  const signed = await signer.signTransaction(transaction)
+  const signature = await connection.sendRawTransaction(signed.serialize(), {
+    preflightCommitment: 'confirmed',
+  })
+
+  onStatus?.({ status: 'submitted', signature })
+  return { signature, lastValidBlockHeight }
+}
+
+// Polls the transfer until it reaches `commitment`, reporting each step.
+// Rejects with PaymentError when it fails on chain or its blockhash expires
+// before the cluster has any record of it.
+export async function trackPayment(
+  record: PaymentRecord,
+  {
+    commitment = 'finalized',
+    connection = getConnection(),
+    onStatus,
+    signal,
+  }: {
+    commitment?: Extract<Commitment, 'confirmed' | 'finalized'>
+    connection?: PaymentConnection
+    onStatus?: (state: PaymentState) => void
+    signal?: AbortSignal
+  } = {}
+): Promise<void> {
+  const { signature, lastValidBlockHeight } = record
+  let reported: PaymentStatus = 'submitted'
+
+  for (;;) {
+    const { value: [status] } = await connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    })
+
+    if (status?.err) {
+      const message = `Payment failed: ${JSON.stringify(status.err)}`
+      onStatus?.({ status: 'failed', signature, error: message })
+      throw new PaymentError(message, 'failed', signature)
+    }
+
+    const level = status?.confirmationStatus
+    if (level === 'finalized') {
+      onStatus?.({ status: 'finalized', signature })
+      return
+    }
+    if (level === 'confirmed') {
+      if (reported !== 'confirmed') {
+        reported = 'confirmed'
+        onStatus?.({ status: 'confirmed', signature })
+      }
+      if (commitment === 'confirmed') return
+    }
+
+    // Not seen by the cluster yet: once the blockhash is too old it never
+    // will be. A processed transaction has landed and is only waiting for
+    // confirmations, so it is polled whatever the block height.
+    if (!status) {
+      const blockHeight = await connection.getBlockHeight('confirmed')
+      if (blockHeight > lastValidBlockHeight) {
+        const message = 'Payment expired before it was confirmed'
+        onStatus?.({ status: 'expired', signature, error: message })
+        throw new PaymentError(message, 'expired', signature)
+      }
+    }
+
+    await delay(POLL_INTERVAL_MS, signal)
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { buildPnLStatement, statementToCSV } from './pnl'
+import type { MintReceipt } from './intents'
+import type { BlockData, BlockStatus, GameData, RoundData, TradeData } from '../shared/types'
+
+const ME = 'me'
+
+const game: GameData = {
+  gameId: 'game-1',
+  title: 'Test',
+  status: 'active',
+  config: { gridSize: { rows: 4, cols: 4 }, blockPrice: 0.1, feeRate: 0.05, roundDuration: 60 },
+  totalBlocks: 16,
+  soldBlocks: 10,
+  aliveBlocks: 8,
+  prizePool: 2, // 0.25 per alive block
+  currentEV: 0.25,
+  nextRoundEV: 0.3,
+  survivalProbability: 0.8,
+  currentRound: 2,
+  createdAt: '2026-01-01T00:00:00Z',
+}
+
+const rounds = [
+  { roundNumber: 1, completedAt: '2026-01-01T01:00:00Z' },
+  { roundNumber: 2, completedAt: '2026-01-01T02:00:00Z' },
+] as RoundData[]
+
+function block(blockId: number, status: BlockStatus, purchasePrice: number, extra: Partial<BlockData> = {}): BlockData {
+  return { blockId, position: { row: 0, col: blockId }, status, ownerId: ME, purchasePrice, ...extra }
+}
+
+function trade(tradeId: string, blockId: number, sellerId: string, buyerId: string, price: number, minute: number): TradeData {
+  return {
+    tradeId,
+    gameId: 'game-1',
+    blockId,
+    sellerId,
+    buyerId,
+    price,
+    roundNumber: 1,
+    executedAt: `2026-01-01T00:${String(minute).padStart(2, '0')}:00Z`,
+  }
+}
+
+function receipt(blockId: number, price: number): MintReceipt {
+  return { gameId: 'game-1', blockId, owner: ME, price, mintedAt: '2026-01-01T00:00:00Z' }
+}
+
+describe('buildPnLStatement', () => {
+  it('totals realized and unrealized P&L across lots', () => {
+    const owned = [
+      block(0, 'alive', 0.1), // minted, held
+      block(2, 'eliminated', 0.2, { eliminatedInRound: 1 }), // bought, then eliminated
+      block(3, 'alive', 0.15), // bought, held
+    ]
+    const trades = [
+      trade('t1', 1, ME, 'bob', 0.3, 10), // minted block 1, sold
+      trade('t2', 2, 'bob', ME, 0.2, 11),
+      trade('t3', 3, 'carol', ME, 0.15, 12),
+    ]
+
+    const { entries, positions, totals } = buildPnLStatement(ME, game, owned, trades, rounds, [receipt(1, 0.1)])
+
+    expect(entries.map(e => [e.blockId, e.kind, e.realized])).toEqual([
+      [0, 'mint', 0],
+      [1, 'mint', 0],
+      [1, 'sell', expect.closeTo(0.2)],
+      [2, 'buy', 0],
+      [3, 'buy', 0],
+      [2, 'eliminated', -0.2],
+    ])
+    expect(positions).toEqual([
+      { blockId: 0, costBasis: 0.1, acquiredAt: undefined, value: 0.25, unrealized: 0.15 },
+      { blockId: 3, costBasis: 0.15, acquiredAt: trades[2].executedAt, value: 0.25, unrealized: 0.1 },
+    ])
+    expect(totals.paid).toBeCloseTo(0.55)
+    expect(totals.received).toBeCloseTo(0.3)
+    expect(totals.realized).toBeCloseTo(0)
+    expect(totals.value).toBeCloseTo(0.5)
+    expect(totals.unrealized).toBeCloseTo(0.25)
+    expect(totals.net).toBeCloseTo(0.25)
+  })
+
+  it('takes the mint cost basis of a block sold since from its mint receipt', () => {
+    const trades = [trade('t1', 5, ME, 'bob', 0.3, 10)]
+
+    const withReceipt = buildPnLStatement(ME, game, [], trades, rounds, [receipt(5, 0.05)])
+    expect(withReceipt.entries[0]).toMatchObject({ kind: 'mint', cashFlow: -0.05, at: '2026-01-01T00:00:00Z' })
+    expect(withReceipt.totals.realized).toBeCloseTo(0.25)
+
+    // Minted on another device: the game's block price is all there is
+    const without = buildPnLStatement(ME, game, [], trades, rounds)
+    expect(without.entries[0]).toMatchObject({ kind: 'mint', cashFlow: -0.1, at: undefined })
+  })
+
+  it('keeps the cash of a sale whose purchase is missing from the history', () => {
+    // Block 6 reached the player off the record, then was sold
+    const trades = [trade('t1', 6, 'bob', 'carol', 0.2, 10), trade('t2', 6, ME, 'dave', 0.4, 20)]
+
+    const { entries, totals } = buildPnLStatement(ME, game, [], trades, rounds)
+
+    expect(entries).toEqual([expect.objectContaining({ kind: 'sell', cashFlow: 0.4, costBasis: undefined, realized: 0 })])
+    expect(totals.received).toBeCloseTo(0.4)
+    expect(totals.realized).toBe(0)
+  })
+
+  it('pays out surviving blocks once the game is finished', () => {
+    const finished = { ...game, status: 'finished' as const, aliveBlocks: 2, prizePool: 1 }
+
+    const { entries, positions, totals } = buildPnLStatement(ME, finished, [block(0, 'alive', 0.1)], [], rounds)
+
+    expect(positions).toEqual([])
+    expect(entries[1]).toMatchObject({ kind: 'payout', at: '2026-01-01T02:00:00Z', cashFlow: 0.5, realized: 0.4 })
+    expect(totals.net).toBeCloseTo(0.4)
+  })
+})
+
+describe('statementToCSV', () => {
+  it('writes ledger, open and total rows with rounded numbers', () => {
+    const statement = buildPnLStatement(ME, game, [block(0, 'alive', 0.1)], [trade('t1', 1, ME, 'bob', 0.3, 10)], rounds)
+    const lines = statementToCSV(statement).split('\n')
+
+    expect(lines[0]).toBe('time,block,type,round,cash_flow_sol,cost_basis_sol,realized_pnl_sol,market_value_sol,unrealized_pnl_sol,trade_id')
+    expect(lines).toContain(',0,open,,,0.1,,0.25,0.15,')
+    expect(lines).toContain('2026-01-01T00:10:00Z,1,sell,1,0.3,0.1,0.2,,,t1')
+    expect(lines[lines.length - 2]).toBe(',,total,,0.1,,0.2,0.25,0.15,')
+    expect(lines[lines.length - 1]).toBe('')
+  })
+
+  it('quotes fields holding commas, quotes or newlines and leaves unknown bases empty', () => {
+    const trades = [
+      trade('t1', 6, 'bob', 'carol', 0.2, 10),
+      trade('a,"b"\nc', 6, ME, 'dave', 0.4, 20),
+    ]
+    const csv = statementToCSV(buildPnLStatement(ME, game, [], trades, rounds))
+
+    expect(csv).toContain('2026-01-01T00:20:00Z,6,sell,1,0.4,,0,,,"a,""b""\nc"\n')
+  })
+})
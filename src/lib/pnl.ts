@@ -0,0 +1,224 @@
+import { calculateEV } from './utils'
+import type { MintReceipt } from './intents'
+import type { BlockData, GameData, RoundData, TradeData } from '../shared/types'
+
+// Profit and loss of one player in one game. Each block is its own lot: it
+// is opened by a mint or a buy and closed by a sale, an elimination or the
+// final payout. Mints come from the player's mint receipts, else from the
+// trade log (the first seller of a traded block minted it) and the player's
+// current blocks; the cost basis of a lot is what was paid to open it.
+
+export type LedgerKind = 'mint' | 'buy' | 'sell' | 'eliminated' | 'payout'
+
+export interface LedgerEntry {
+  blockId: number
+  kind: LedgerKind
+  // Missing for mints of blocks that have changed hands since
+  at?: string
+  roundNumber?: number
+  // Positive when received, negative when paid
+  cashFlow: number
+  // Missing for a sale of a block whose purchase is not in the history
+  costBasis?: number
+  // Only entries that close a lot of known basis realize anything
+  realized: number
+  tradeId?: string
+}
+
+export interface OpenPosition {
+  blockId: number
+  costBasis: number
+  acquiredAt?: string
+  // calculateEV share of the prize pool
+  value: number
+  unrealized: number
+}
+
+export interface PnLTotals {
+  paid: number
+  received: number
+  realized: number
+  value: number
+  unrealized: number
+  net: number
+}
+
+export interface PnLStatement {
+  game: GameData
+  player: string
+  entries: LedgerEntry[]
+  positions: OpenPosition[]
+  totals: PnLTotals
+}
+
+interface Lot {
+  costBasis: number
+  acquiredAt?: string
+}
+
+function byTime(a: { at?: string }, b: { at?: string }): number {
+  return (a.at ?? '').localeCompare(b.at ?? '')
+}
+
+export function buildPnLStatement(
+  player: string,
+  game: GameData,
+  ownedBlocks: BlockData[],
+  trades: TradeData[],
+  rounds: RoundData[],
+  mints: MintReceipt[] = []
+): PnLStatement {
+  const owned = new Map(ownedBlocks.map(block => [block.blockId, block]))
+  const receipts = new Map(mints.map(receipt => [receipt.blockId, receipt]))
+  const tradesByBlock = new Map<number, TradeData[]>()
+  for (const trade of [...trades].sort((a, b) => a.executedAt.localeCompare(b.executedAt))) {
+    const list = tradesByBlock.get(trade.blockId) ?? []
+    list.push(trade)
+    tradesByBlock.set(trade.blockId, list)
+  }
+  const completedAt = new Map(rounds.map(round => [round.roundNumber, round.completedAt]))
+  // The game ends with its last round
+  const endedAt = completedAt.get(Math.max(0, ...rounds.map(round => round.roundNumber)))
+  const blockValue = calculateEV(game.prizePool, game.aliveBlocks)
+
+  const entries: LedgerEntry[] = []
+  const positions: OpenPosition[] = []
+  const blockIds = new Set([...owned.keys(), ...tradesByBlock.keys()])
+
+  for (const blockId of [...blockIds].sort((a, b) => a - b)) {
+    const blockTrades = tradesByBlock.get(blockId) ?? []
+    const block = owned.get(blockId)
+    const receipt = receipts.get(blockId)
+    const minter = receipt ? player : blockTrades[0]?.sellerId ?? block?.ownerId
+    let lot: Lot | null = null
+
+    if (minter === player) {
+      // Without a receipt (minted on another device), a block that never
+      // changed hands still carries its mint price; otherwise the game's
+      // block price is the best guess
+      const untraded = blockTrades.length === 0 && block
+      const price = receipt?.price ??
+        (untraded ? block.purchasePrice || game.config.blockPrice : game.config.blockPrice)
+      const at = receipt?.mintedAt ?? (untraded ? block.purchasedAt : undefined)
+      lot = { costBasis: price, acquiredAt: at }
+      entries.push({ blockId, kind: 'mint', at, roundNumber: 0, cashFlow: -price, costBasis: price, realized: 0 })
+    }
+
+    for (const trade of blockTrades) {
+      if (trade.sellerId === player) {
+        entries.push({
+          blockId,
+          kind: 'sell',
+          at: trade.executedAt,
+          roundNumber: trade.roundNumber,
+          cashFlow: trade.price,
+          costBasis: lot?.costBasis,
+          realized: lot ? trade.price - lot.costBasis : 0,
+          tradeId: trade.tradeId,
+        })
+        lot = null
+      }
+      if (trade.buyerId === player) {
+        lot = { costBasis: trade.price, acquiredAt: trade.executedAt }
+        entries.push({
+          blockId,
+          kind: 'buy',
+          at: trade.executedAt,
+          roundNumber: trade.roundNumber,
+          cashFlow: -trade.price,
+          costBasis: trade.price,
+          realized: 0,
+          tradeId: trade.tradeId,
+        })
+      }
+    }
+
+    // A lot still open belongs to a block the player holds now
+    if (!lot || !block) continue
+    if (block.status === 'eliminated') {
+      entries.push({
+        blockId,
+        kind: 'eliminated',
+        at: block.eliminatedInRound !== undefined ? completedAt.get(block.eliminatedInRound) : undefined,
+        roundNumber: block.eliminatedInRound,
+        cashFlow: 0,
+        costBasis: lot.costBasis,
+        realized: -lot.costBasis,
+      })
+    } else if (game.status === 'finished') {
+      entries.push({
+        blockId,
+        kind: 'payout',
+        at: endedAt,
+        cashFlow: blockValue,
+        costBasis: lot.costBasis,
+        realized: blockValue - lot.costBasis,
+      })
+    } else {
+      positions.push({
+        blockId,
+        costBasis: lot.costBasis,
+        acquiredAt: lot.acquiredAt,
+        value: blockValue,
+        unrealized: blockValue - lot.costBasis,
+      })
+    }
+  }
+
+  entries.sort(byTime)
+  const paid = entries.reduce((sum, e) => sum + Math.max(0, -e.cashFlow), 0)
+  const received = entries.reduce((sum, e) => sum + Math.max(0, e.cashFlow), 0)
+  const realized = entries.reduce((sum, e) => sum + e.realized, 0)
+  const value = positions.reduce((sum, p) => sum + p.value, 0)
+  const unrealized = positions.reduce((sum, p) => sum + p.unrealized, 0)
+
+  return {
+    game,
+    player,
+    entries,
+    positions,
+    totals: { paid, received, realized, value, unrealized, net: realized + unrealized },
+  }
+}
+
+const CSV_COLUMNS = [
+  'time',
+  'block',
+  'type',
+  'round',
+  'cash_flow_sol',
+  'cost_basis_sol',
+  'realized_pnl_sol',
+  'market_value_sol',
+  'unrealized_pnl_sol',
+  'trade_id',
+]
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  if (typeof value === 'number') return String(Number(value.toFixed(9)))
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Ledger rows, then one row per open position and a closing total row
+export function statementToCSV({ entries, positions, totals }: PnLStatement): string {
+  const rows: Array<Array<string | number | undefined>> = [
+    ...entries.map(e => [e.at, e.blockId, e.kind, e.roundNumber, e.cashFlow, e.costBasis, e.realized, undefined, undefined, e.tradeId]),
+    ...positions.map(p => [undefined, p.blockId, 'open', undefined, undefined, p.costBasis, undefined, p.value, p.unrealized, undefined]),
+    [undefined, undefined, 'total', undefined, totals.received - totals.paid, undefined, totals.realized, totals.value, totals.unrealized, undefined],
+  ]
+  return [CSV_COLUMNS.join(','), ...rows.map(row => row.map(csvField).join(','))].join('\n') + '\n'
+}
+
+export function statementFileName({ game, player }: PnLStatement): string {
+  return `pnl-${game.gameId}-${player.slice(0, 8)}.csv`
+}
+
+export function downloadCSV(fileName: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
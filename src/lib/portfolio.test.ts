@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { gameAPI, orderAPI } from './api'
+import { PORTFOLIO_CONCURRENCY, loadPortfolio } from './portfolio'
+import type { BlockData, GameData } from '../shared/types'
+
+function game(gameId: string): GameData {
+  return {
+    gameId,
+    title: gameId,
+    status: 'active',
+    config: { gridSize: { rows: 4, cols: 4 }, blockPrice: 0.1, feeRate: 0.05, roundDuration: 60 },
+    totalBlocks: 16,
+    soldBlocks: 1,
+    aliveBlocks: 1,
+    prizePool: 0.1,
+    currentEV: 0.1,
+    nextRoundEV: 0.12,
+    survivalProbability: 0.8,
+    currentRound: 1,
+    createdAt: '2026-01-01T00:00:00Z',
+  }
+}
+
+const held: BlockData = {
+  blockId: 0,
+  position: { row: 0, col: 0 },
+  status: 'alive',
+  ownerId: 'alice',
+  purchasePrice: 0.1,
+}
+
+describe('loadPortfolio', () => {
+  afterEach(() => vi.restoreAllMocks())
+
+  it('keeps at most PORTFOLIO_CONCURRENCY requests in flight', async () => {
+    const games = Array.from({ length: 20 }, (_, i) => game(`game-${i}`))
+    let inFlight = 0
+    let peak = 0
+    const track = <T>(value: T) => async () => {
+      peak = Math.max(peak, ++inFlight)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      inFlight--
+      return value
+    }
+
+    vi.spyOn(gameAPI, 'getGames').mockResolvedValue(games)
+    vi.spyOn(gameAPI, 'getPlayerBlocks').mockImplementation(track([held]))
+    vi.spyOn(gameAPI, 'getRounds').mockImplementation(track([]))
+    vi.spyOn(orderAPI, 'getUserOrders').mockImplementation(track([]))
+
+    const { portfolios, failed } = await loadPortfolio('alice')
+
+    expect(portfolios).toHaveLength(20)
+    expect(failed).toEqual([])
+    expect(peak).toBe(PORTFOLIO_CONCURRENCY)
+  })
+
+  it('reports games that fail without dropping the rest', async () => {
+    vi.spyOn(gameAPI, 'getGames').mockResolvedValue([game('ok'), game('broken'), game('empty')])
+    vi.spyOn(gameAPI, 'getPlayerBlocks').mockImplementation(async gameId => {
+      if (gameId === 'broken') throw new Error('boom')
+      return gameId === 'ok' ? [held] : []
+    })
+    vi.spyOn(gameAPI, 'getRounds').mockResolvedValue([])
+    vi.spyOn(orderAPI, 'getUserOrders').mockResolvedValue([])
+
+    const { portfolios, failed } = await loadPortfolio('alice')
+
+    expect(portfolios.map(p => p.game.gameId)).toEqual(['ok'])
+    expect(failed.map(g => g.gameId)).toEqual(['broken'])
+  })
+})
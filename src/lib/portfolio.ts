@@ -0,0 +1,152 @@
+import { gameAPI, orderAPI } from './api'
+import type { BlockData, GameData, OrderData, RoundData } from '../shared/types'
+
+// A player's blocks with what they are worth now: per game from the store,
+// or across every listed game for the portfolio page.
+
+export interface Holding {
+  block: BlockData
+  // 0 when minted or bought before round 1 started
+  acquiredRound?: number
+  // Equal split of the prize pool among alive blocks; 0 once eliminated
+  evShare: number
+  poolShare: number
+  // The player's open orders that name this block
+  openOrders: OrderData[]
+}
+
+export interface PortfolioTotals {
+  blocks: number
+  alive: number
+  cost: number
+  ev: number
+}
+
+export interface GamePortfolio {
+  game: GameData
+  holdings: Holding[]
+  // Open orders not tied to one block, such as any-block bids
+  otherOrders: OrderData[]
+  totals: PortfolioTotals
+}
+
+export function isOpenOrder(order: OrderData): boolean {
+  return order.status === 'active' || order.status === 'partially_filled'
+}
+
+// Round in progress when the block changed hands, from purchasedAt
+export function acquiredInRound(block: BlockData, rounds: RoundData[]): number | undefined {
+  if (!block.purchasedAt) return undefined
+  const at = new Date(block.purchasedAt).getTime()
+  let acquired = 0
+  for (const round of rounds) {
+    if (new Date(round.startTime).getTime() <= at) acquired = Math.max(acquired, round.roundNumber)
+  }
+  return acquired
+}
+
+export function buildGamePortfolio(
+  game: GameData,
+  blocks: BlockData[],
+  rounds: RoundData[],
+  orders: OrderData[]
+): GamePortfolio {
+  const open = orders.filter(isOpenOrder)
+  const holdings = [...blocks]
+    .sort((a, b) => a.blockId - b.blockId)
+    .map(block => {
+      const alive = block.status === 'alive'
+      return {
+        block,
+        acquiredRound: acquiredInRound(block, rounds),
+        evShare: alive ? game.currentEV : 0,
+        poolShare: alive && game.aliveBlocks > 0 ? 1 / game.aliveBlocks : 0,
+        openOrders: open.filter(order => order.blockId === block.blockId),
+      }
+    })
+  const owned = new Set(blocks.map(b => b.blockId))
+
+  return {
+    game,
+    holdings,
+    otherOrders: open.filter(order => order.blockId === undefined || !owned.has(order.blockId)),
+    totals: sumTotals(holdings),
+  }
+}
+
+function sumTotals(holdings: Holding[]): PortfolioTotals {
+  return holdings.reduce(
+    (totals, h) => ({
+      blocks: totals.blocks + 1,
+      alive: totals.alive + (h.block.status === 'alive' ? 1 : 0),
+      cost: totals.cost + h.block.purchasePrice,
+      ev: totals.ev + h.evShare,
+    }),
+    { blocks: 0, alive: 0, cost: 0, ev: 0 }
+  )
+}
+
+export function combineTotals(portfolios: GamePortfolio[]): PortfolioTotals {
+  return portfolios.reduce(
+    (sum, { totals }) => ({
+      blocks: sum.blocks + totals.blocks,
+      alive: sum.alive + totals.alive,
+      cost: sum.cost + totals.cost,
+      ev: sum.ev + totals.ev,
+    }),
+    { blocks: 0, alive: 0, cost: 0, ev: 0 }
+  )
+}
+
+// Requests in flight at once while loading the portfolio page
+export const PORTFOLIO_CONCURRENCY = 4
+
+// Runs tasks in call order with at most `limit` pending at a time
+function createLimiter(limit: number) {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  const next = () => {
+    active--
+    waiting.shift()?.()
+  }
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) await new Promise<void>(resolve => waiting.push(resolve))
+    active++
+    try {
+      return await task()
+    } finally {
+      next()
+    }
+  }
+}
+
+// Every listed game where the player holds blocks. Games whose details fail
+// to load are reported instead of failing the whole portfolio.
+export async function loadPortfolio(
+  playerAddress: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<{ portfolios: GamePortfolio[]; failed: GameData[] }> {
+  const games = await gameAPI.getGames(options)
+  const failed: GameData[] = []
+  const limit = createLimiter(PORTFOLIO_CONCURRENCY)
+
+  const loaded = await Promise.all(games.map(async game => {
+    try {
+      const blocks = await limit(() => gameAPI.getPlayerBlocks(game.gameId, playerAddress, options))
+      if (blocks.length === 0) return null
+      const [rounds, orders] = await Promise.all([
+        limit(() => gameAPI.getRounds(game.gameId, options)),
+        limit(() => orderAPI.getUserOrders(game.gameId, playerAddress, options)),
+      ])
+      return buildGamePortfolio(game, blocks, rounds, orders)
+    } catch (err) {
+      if (options.signal?.aborted) throw err
+      failed.push(game)
+      return null
+    }
+  }))
+
+  return { portfolios: loaded.filter((p): p is GamePortfolio => p !== null), failed }
+}
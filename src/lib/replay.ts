@@ -0,0 +1,354 @@
+import { setFetchTransport, type FetchTransport } from './api'
+import { websocket, type SocketTransport } from './websocket'
+import {
+  ContractError,
+  arrayOf,
+  asNumber,
+  asString,
+  nullable,
+  oneOf,
+  shape,
+  type Validator,
+} from '../shared/validators'
+
+// Record a session against the real backend, then play it back without one.
+// Recordings hold socket events and JSON REST responses with their offsets
+// from the start; replay serves both from the file on the original timeline,
+// optionally sped up. Development builds only; start from the URL:
+//   ?record=<gameId>                    record (gameId filters socket events)
+//   ?replay=<recording url>&speed=4     replay a saved recording (same origin)
+
+export const RECORDING_VERSION = 1
+
+export type RecordingEntry =
+  | { t: number; kind: 'socket'; event: string; data: unknown }
+  | { t: number; kind: 'http'; method: string; endpoint: string; status: number; body: unknown }
+
+export interface Recording {
+  version: number
+  gameId: string | null
+  recordedAt: string
+  durationMs: number
+  entries: RecordingEntry[]
+}
+
+const anyValue: Validator<unknown> = (value) => value
+
+const validateSocketEntry = shape<Extract<RecordingEntry, { kind: 'socket' }>>({
+  t: asNumber,
+  kind: oneOf('socket'),
+  event: asString,
+  data: anyValue,
+})
+
+const validateHttpEntry = shape<Extract<RecordingEntry, { kind: 'http' }>>({
+  t: asNumber,
+  kind: oneOf('http'),
+  method: asString,
+  endpoint: asString,
+  status: asNumber,
+  body: anyValue,
+})
+
+const validateEntry: Validator<RecordingEntry> = (value, path = '$') => {
+  const kind = (value as { kind?: unknown } | null)?.kind
+  if (kind === 'socket') return validateSocketEntry(value, path)
+  if (kind === 'http') return validateHttpEntry(value, path)
+  throw new ContractError(`${path}.kind`, `expected 'socket' or 'http'`)
+}
+
+const validateRecording = shape<Recording>({
+  version: (value, path = '$') => {
+    if (value !== RECORDING_VERSION) {
+      throw new ContractError(path, `unsupported recording version ${String(value)}`)
+    }
+    return value
+  },
+  gameId: nullable(asString),
+  recordedAt: asString,
+  durationMs: asNumber,
+  entries: arrayOf(validateEntry),
+})
+
+export function parseRecording(value: unknown): Recording {
+  return validateRecording(value, 'recording')
+}
+
+// Recording
+
+export class TrafficRecorder {
+  private entries: RecordingEntry[] = []
+  private startedAt = 0
+  private cleanup: (() => void)[] = []
+  private recordedAt = ''
+
+  constructor(readonly gameId: string | null) {}
+
+  get entryCount(): number {
+    return this.entries.length
+  }
+
+  start() {
+    this.entries = []
+    this.startedAt = performance.now()
+    this.recordedAt = new Date().toISOString()
+
+    const network = setFetchTransport(async (endpoint, init) => {
+      // Ask for JSON only, so replays never depend on the binary block format
+      const { Accept: _accept, ...headers } = (init.headers ?? {}) as Record<string, string>
+      const response = await network(endpoint, { ...init, headers })
+      if (response.headers.get('Content-Type')?.includes('application/json')) {
+        const t = this.elapsed()
+        response.clone().json().then(
+          (body) => this.push({
+            t,
+            kind: 'http',
+            method: (init.method ?? 'GET').toUpperCase(),
+            endpoint,
+            status: response.status,
+            body,
+          }),
+          (error) => console.warn('Recorder skipped unreadable response:', error)
+        )
+      }
+      return response
+    })
+    this.cleanup.push(() => setFetchTransport(network))
+
+    this.cleanup.push(websocket.onAny(({ event, data }) => {
+      const gameId = (data as { gameId?: string }).gameId
+      if (this.gameId && gameId && gameId !== this.gameId) return
+      this.push({ t: this.elapsed(), kind: 'socket', event, data })
+    }))
+  }
+
+  stop(): Recording {
+    this.cleanup.forEach(fn => fn())
+    this.cleanup = []
+    return {
+      version: RECORDING_VERSION,
+      gameId: this.gameId,
+      recordedAt: this.recordedAt,
+      durationMs: this.elapsed(),
+      entries: [...this.entries].sort((a, b) => a.t - b.t),
+    }
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startedAt)
+  }
+
+  private push(entry: RecordingEntry) {
+    this.entries.push(entry)
+    notify()
+  }
+}
+
+export function downloadRecording(recording: Recording) {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `blockchance-${recording.gameId ?? 'session'}-${recording.recordedAt.replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Replay
+
+type HttpEntry = Extract<RecordingEntry, { kind: 'http' }>
+type SocketEntry = Extract<RecordingEntry, { kind: 'socket' }>
+
+export class ReplaySession {
+  private socketEntries: SocketEntry[]
+  private httpEntries = new Map<string, HttpEntry[]>()
+  private cursor = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private deliver: ((event: string, data: unknown) => void) | null = null
+  private restoreFetch: FetchTransport | null = null
+  // Recording time at `resumedAt`; position advances from there at `speed`
+  private offset = 0
+  private resumedAt = 0
+
+  constructor(readonly recording: Recording, private _speed = 1) {
+    this.socketEntries = recording.entries.filter((e): e is SocketEntry => e.kind === 'socket')
+    for (const entry of recording.entries) {
+      if (entry.kind !== 'http') continue
+      const key = `${entry.method} ${entry.endpoint}`
+      this.httpEntries.set(key, [...(this.httpEntries.get(key) ?? []), entry])
+    }
+  }
+
+  get speed(): number {
+    return this._speed
+  }
+
+  // Milliseconds into the recording
+  get position(): number {
+    return Math.min(
+      this.recording.durationMs,
+      this.offset + (performance.now() - this.resumedAt) * this._speed
+    )
+  }
+
+  get ended(): boolean {
+    return this.cursor >= this.socketEntries.length && this.position >= this.recording.durationMs
+  }
+
+  start() {
+    this.offset = 0
+    this.resumedAt = performance.now()
+    this.restoreFetch = setFetchTransport((endpoint, init) => this.respond(endpoint, init))
+
+    const transport: SocketTransport = {
+      start: (deliver) => {
+        this.deliver = deliver
+        this.schedule()
+      },
+      stop: () => {
+        this.deliver = null
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = null
+      },
+    }
+    websocket.setTransport(transport)
+  }
+
+  stop() {
+    if (this.restoreFetch) {
+      setFetchTransport(this.restoreFetch)
+      this.restoreFetch = null
+    }
+    websocket.setTransport(null)
+  }
+
+  setSpeed(speed: number) {
+    this.offset = this.position
+    this.resumedAt = performance.now()
+    this._speed = speed
+    this.schedule()
+    notify()
+  }
+
+  // Delivers every event that is due, then sleeps until the next one
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+    if (!this.deliver) return
+
+    const now = this.position
+    while (this.cursor < this.socketEntries.length && this.socketEntries[this.cursor].t <= now) {
+      const { event, data } = this.socketEntries[this.cursor++]
+      this.deliver(event, data)
+    }
+    notify()
+
+    const next = this.socketEntries[this.cursor]
+    if (next) {
+      this.timer = setTimeout(() => this.schedule(), (next.t - now) / this._speed)
+    }
+  }
+
+  // Serves the latest recorded response at the current position, or the
+  // earliest one when the page asks before the recording first did
+  private async respond(endpoint: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    const method = (init.method ?? 'GET').toUpperCase()
+    const candidates = this.httpEntries.get(`${method} ${endpoint}`) ?? []
+    const now = this.position
+    const entry = candidates.filter(e => e.t <= now).pop() ?? candidates[0]
+
+    if (!entry) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Not in recording: ${method} ${endpoint}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+    return new Response(JSON.stringify(entry.body), {
+      status: entry.status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+// The active record or replay session, observable by the controls overlay
+
+export type DevSession =
+  | { kind: 'recording'; recorder: TrafficRecorder }
+  | { kind: 'replay'; session: ReplaySession }
+
+let activeSession: DevSession | null = null
+let version = 0
+const listeners = new Set<() => void>()
+
+function notify() {
+  version++
+  listeners.forEach(listener => listener())
+}
+
+export function getDevSession(): DevSession | null {
+  return activeSession
+}
+
+// Changes whenever the session or its progress does
+export function getDevSessionVersion(): number {
+  return version
+}
+
+export function subscribeDevSession(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function startRecording(gameId: string | null): TrafficRecorder {
+  stopDevSession()
+  const recorder = new TrafficRecorder(gameId)
+  recorder.start()
+  activeSession = { kind: 'recording', recorder }
+  notify()
+  return recorder
+}
+
+export function startReplay(recording: Recording, speed = 1): ReplaySession {
+  stopDevSession()
+  const session = new ReplaySession(recording, speed)
+  activeSession = { kind: 'replay', session }
+  session.start()
+  notify()
+  return session
+}
+
+// Ends the active session; a recording is returned so it can be saved
+export function stopDevSession(): Recording | null {
+  const session = activeSession
+  activeSession = null
+  if (!session) return null
+  const recording = session.kind === 'recording' ? session.recorder.stop() : null
+  if (session.kind === 'replay') session.session.stop()
+  notify()
+  return recording
+}
+
+// A replay answers every API call, treasury addresses included, so it only
+// runs in development and only from recordings served by this origin
+export async function startDevSessionFromUrl(search = window.location.search): Promise<void> {
+  if (!import.meta.env.DEV) return
+  const params = new URLSearchParams(search)
+  const replayUrl = params.get('replay')
+  if (replayUrl) {
+    if (new URL(replayUrl, window.location.href).origin !== window.location.origin) {
+      throw new Error(`Refusing to replay a recording from another origin: ${replayUrl}`)
+    }
+    const response = await fetch(replayUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to load recording ${replayUrl}: HTTP ${response.status}`)
+    }
+    startReplay(parseRecording(await response.json()), Number(params.get('speed')) || 1)
+    return
+  }
+  if (params.has('record')) {
+    startRecording(params.get('record') || null)
+  }
+}
@@ -0,0 +1,135 @@
+import { gameAPI, orderAPI } from './api'
+import type { BlockData, RoundData, TradeData } from '../shared/types'
+
+// Rebuilds past grid states from the current blocks. eliminatedInRound says
+// when each block died; trades after the moment are undone newest first to
+// recover who owned it then.
+
+// Trades per history page; pages are fetched until the game's first trade
+const HISTORY_PAGE_SIZE = 1000
+
+export interface RoundHistory {
+  rounds: RoundData[]
+  trades: TradeData[]
+}
+
+// Per game: the history and the version it was fetched for. The version
+// moves with the round number and game status (roundHistoryVersion), so a
+// finished game is fetched once and then replayed from memory.
+const historyCache = new Map<string, { version: string; history: RoundHistory }>()
+const pendingLoads = new Map<string, { version: string; promise: Promise<RoundHistory> }>()
+
+export function roundHistoryVersion(currentRound: number, status: string): string {
+  return `${currentRound}:${status}`
+}
+
+export function getCachedRoundHistory(gameId: string, version?: string): RoundHistory | undefined {
+  const entry = historyCache.get(gameId)
+  if (!entry || (version !== undefined && entry.version !== version)) return undefined
+  return entry.history
+}
+
+// Every trade of the game, newest first. A short page is the last one.
+async function loadAllTrades(gameId: string): Promise<TradeData[]> {
+  const trades: TradeData[] = []
+  for (;;) {
+    const before = trades.length > 0 ? trades[trades.length - 1].tradeId : undefined
+    const page = await orderAPI.getOrderHistory(gameId, HISTORY_PAGE_SIZE, { before })
+    // A server that ignores the cursor sends the first page again
+    if (before && page.some(trade => trade.tradeId === before)) return trades
+    trades.push(...page)
+    if (page.length < HISTORY_PAGE_SIZE) return trades
+  }
+}
+
+// Loads are shared and not aborted by callers: they fill a cache that
+// outlives the view that asked.
+export function loadRoundHistory(gameId: string, version: string): Promise<RoundHistory> {
+  const cached = getCachedRoundHistory(gameId, version)
+  if (cached) return Promise.resolve(cached)
+
+  const pending = pendingLoads.get(gameId)
+  if (pending?.version === version) return pending.promise
+
+  const promise = Promise.all([
+    gameAPI.getRounds(gameId),
+    loadAllTrades(gameId),
+  ])
+    .then(([rounds, trades]) => {
+      const history = {
+        rounds: [...rounds].sort((a, b) => a.roundNumber - b.roundNumber),
+        trades,
+      }
+      historyCache.set(gameId, { version, history })
+      return history
+    })
+    .finally(() => {
+      if (pendingLoads.get(gameId)?.promise === promise) pendingLoads.delete(gameId)
+    })
+  pendingLoads.set(gameId, { version, promise })
+  return promise
+}
+
+export type RoundMoment = 'start' | 'end'
+
+function momentTime(round: RoundData, moment: RoundMoment): number {
+  if (moment === 'start') return new Date(round.startTime).getTime()
+  return new Date(round.completedAt ?? round.tradeCloseTime).getTime()
+}
+
+// Trades executed in this round's trading window
+export function tradesInRound(trades: TradeData[], round: RoundData): TradeData[] {
+  const start = momentTime(round, 'start')
+  const end = momentTime(round, 'end')
+  return trades
+    .filter(trade => {
+      if (trade.roundNumber !== undefined) return trade.roundNumber === round.roundNumber
+      const at = new Date(trade.executedAt).getTime()
+      return at >= start && at <= end
+    })
+    .sort((a, b) => a.executedAt.localeCompare(b.executedAt))
+}
+
+function isAliveAt(block: BlockData, roundNumber: number, moment: RoundMoment): boolean {
+  if (block.status === 'alive') return true
+  if (block.status !== 'eliminated' || block.eliminatedInRound === undefined) return false
+  // At the start of a round its own eliminations haven't happened yet
+  return moment === 'start'
+    ? block.eliminatedInRound >= roundNumber
+    : block.eliminatedInRound > roundNumber
+}
+
+export function blocksAtRound(
+  blocks: BlockData[],
+  trades: TradeData[],
+  round: RoundData,
+  moment: RoundMoment
+): BlockData[] {
+  const cutoff = momentTime(round, moment)
+  const owners = new Map<number, string | undefined>()
+  for (const block of blocks) owners.set(block.blockId, block.ownerId)
+
+  const later = trades
+    .filter(trade => new Date(trade.executedAt).getTime() > cutoff)
+    .sort((a, b) => b.executedAt.localeCompare(a.executedAt))
+  for (const trade of later) {
+    if (owners.get(trade.blockId) === trade.buyerId) owners.set(trade.blockId, trade.sellerId)
+  }
+
+  return blocks.map(block => {
+    const alive = isAliveAt(block, round.roundNumber, moment)
+    return {
+      ...block,
+      ownerId: owners.get(block.blockId),
+      status: block.status === 'unsold' ? 'unsold' : alive ? 'alive' : 'eliminated',
+      eliminatedInRound: alive ? undefined : block.eliminatedInRound,
+    }
+  })
+}
+
+// Blocks that died in this round, in id order
+export function eliminatedInRound(blocks: BlockData[], roundNumber: number): BlockData[] {
+  return blocks
+    .filter(block => block.status === 'eliminated' && block.eliminatedInRound === roundNumber)
+    .sort((a, b) => a.blockId - b.blockId)
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+import {
+  SIGNATURE_TTL_MS,
+  canonicalJSON,
+  signRequest,
+  verifyRequestSignature,
+  type RequestSigner,
+} from './signing'
+
+// Stand-in for a wallet: signs with an in-memory ed25519 keypair
+function keypairSigner(keypair = nacl.sign.keyPair()): RequestSigner {
+  return {
+    address: bs58.encode(keypair.publicKey),
+    signMessage: async message => nacl.sign.detached(message, keypair.secretKey),
+  }
+}
+
+const payload = { buyerAddress: 'buyer', blockIds: [3, 1, 2], paymentAmount: 0.3 }
+
+describe('canonicalJSON', () => {
+  it('sorts object keys at every level', () => {
+    expect(canonicalJSON({ b: 1, a: { d: [{ z: 1, y: 2 }], c: 2 } }))
+      .toBe('{"a":{"c":2,"d":[{"y":2,"z":1}]},"b":1}')
+  })
+
+  it('gives the same string whatever order keys were set in', () => {
+    expect(canonicalJSON({ x: 1, y: 2 })).toBe(canonicalJSON({ y: 2, x: 1 }))
+  })
+
+  it('drops undefined fields the way JSON.stringify does', () => {
+    expect(canonicalJSON({ a: 1, b: undefined, c: { d: undefined } })).toBe('{"a":1,"c":{}}')
+    expect(canonicalJSON({ a: 1, b: undefined })).toBe(JSON.stringify({ a: 1, b: undefined }))
+  })
+
+  it('writes undefined array items as null', () => {
+    expect(canonicalJSON([1, undefined, 'x'])).toBe('[1,null,"x"]')
+  })
+
+  it('keeps array order', () => {
+    expect(canonicalJSON([3, 1, 2])).toBe('[3,1,2]')
+  })
+})
+
+describe('signRequest / verifyRequestSignature', () => {
+  // What the mint route on game-1 expects from the signer
+  const mintOn = (signer: RequestSigner, gameId = 'game-1') =>
+    ({ action: 'mint', gameId, address: signer.address }) as const
+
+  it('accepts a signature over the same payload', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'mint', 'game-1', payload)
+
+    expect(signature.address).toBe(signer.address)
+    expect(signature.action).toBe('mint')
+    expect(signature.gameId).toBe('game-1')
+    expect(await verifyRequestSignature(signature, payload, mintOn(signer))).toEqual({ valid: true })
+  })
+
+  it('accepts the payload with keys reordered or undefined fields added', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'create_order', 'game-1', payload)
+    const reordered = { paymentAmount: 0.3, blockIds: [3, 1, 2], buyerAddress: 'buyer', memo: undefined }
+
+    expect(await verifyRequestSignature(signature, reordered, {
+      action: 'create_order',
+      gameId: 'game-1',
+      address: signer.address,
+    })).toEqual({ valid: true })
+  })
+
+  it('rejects a signature for another action, game or wallet', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'cancel_order', 'game-1', payload)
+    const expected = { action: 'cancel_order', gameId: 'game-1', address: signer.address } as const
+
+    expect(await verifyRequestSignature(signature, payload, { ...expected, action: 'mint' }))
+      .toEqual({ valid: false, reason: 'wrong_action' })
+    expect(await verifyRequestSignature(signature, payload, { ...expected, gameId: 'game-2' }))
+      .toEqual({ valid: false, reason: 'wrong_game' })
+    expect(await verifyRequestSignature(signature, payload, { ...expected, address: keypairSigner().address }))
+      .toEqual({ valid: false, reason: 'wrong_signer' })
+  })
+
+  it('rejects an expired signature', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'mint', 'game-1', payload)
+
+    expect(await verifyRequestSignature(signature, payload, mintOn(signer), signature.expiresAt))
+      .toEqual({ valid: false, reason: 'expired' })
+    expect(await verifyRequestSignature(signature, payload, mintOn(signer), Date.now() + SIGNATURE_TTL_MS + 1))
+      .toEqual({ valid: false, reason: 'expired' })
+  })
+
+  it('rejects a payload other than the one signed', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'mint', 'game-1', payload)
+
+    expect(await verifyRequestSignature(signature, { ...payload, paymentAmount: 0 }, mintOn(signer)))
+      .toEqual({ valid: false, reason: 'payload_mismatch' })
+    expect(await verifyRequestSignature(signature, { ...payload, blockIds: [1, 2, 3] }, mintOn(signer)))
+      .toEqual({ valid: false, reason: 'payload_mismatch' })
+  })
+
+  it('rejects an address or signature that does not decode to the right length', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'mint', 'game-1', payload)
+    const badAddress = 'not-base58-0OIl'
+
+    expect(await verifyRequestSignature(
+      { ...signature, address: badAddress },
+      payload,
+      { ...mintOn(signer), address: badAddress }
+    )).toEqual({ valid: false, reason: 'malformed' })
+    expect(await verifyRequestSignature(
+      { ...signature, signature: bs58.encode(new Uint8Array(10)) },
+      payload,
+      mintOn(signer)
+    )).toEqual({ valid: false, reason: 'malformed' })
+  })
+
+  it('rejects a signature made by another key', async () => {
+    const signature = await signRequest(keypairSigner(), 'mint', 'game-1', payload)
+    const other = keypairSigner()
+
+    expect(await verifyRequestSignature({ ...signature, address: other.address }, payload, mintOn(other)))
+      .toEqual({ valid: false, reason: 'bad_signature' })
+  })
+
+  it('rejects a signature whose message fields were changed', async () => {
+    const signer = keypairSigner()
+    const signature = await signRequest(signer, 'mint', 'game-1', payload)
+
+    expect(await verifyRequestSignature({ ...signature, gameId: 'game-2' }, payload, mintOn(signer, 'game-2')))
+      .toEqual({ valid: false, reason: 'bad_signature' })
+    expect(await verifyRequestSignature(
+      { ...signature, action: 'cancel_order' },
+      payload,
+      { ...mintOn(signer), action: 'cancel_order' }
+    )).toEqual({ valid: false, reason: 'bad_signature' })
+    expect(await verifyRequestSignature({ ...signature, expiresAt: signature.expiresAt + 1 }, payload, mintOn(signer)))
+      .toEqual({ valid: false, reason: 'bad_signature' })
+  })
+})
@@ -0,0 +1,144 @@
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+import type { RequestSignature, SignedAction } from '../shared/types'
+
+// Mutating requests carry a wallet signature over a canonical message that
+// binds the action to one game, one payload and a short validity window.
+// The same helpers build and check it, so client and server cannot drift.
+
+export const SIGNATURE_TTL_MS = 2 * 60 * 1000
+
+export interface RequestSigner {
+  address: string
+  signMessage(message: Uint8Array): Promise<Uint8Array>
+}
+
+export interface SignedMessageFields {
+  action: SignedAction
+  gameId: string
+  payloadHash: string
+  nonce: string
+  expiresAt: number
+}
+
+// JSON with object keys sorted at every level; undefined fields are dropped
+// exactly as JSON.stringify would drop them from the request body.
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJSON(item ?? null)).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJSON(record[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export async function hashPayload(payload: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJSON(payload))
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function buildSignedMessage(fields: SignedMessageFields): string {
+  return [
+    'BlockChance signed request',
+    `action: ${fields.action}`,
+    `game: ${fields.gameId}`,
+    `payload: ${fields.payloadHash}`,
+    `nonce: ${fields.nonce}`,
+    `expires: ${fields.expiresAt}`,
+  ].join('\n')
+}
+
+function generateNonce(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return bs58.encode(bytes)
+}
+
+export async function signRequest(
+  signer: RequestSigner,
+  action: SignedAction,
+  gameId: string,
+  payload: unknown,
+  ttlMs: number = SIGNATURE_TTL_MS
+): Promise<RequestSignature> {
+  const fields: SignedMessageFields = {
+    action,
+    gameId,
+    payloadHash: await hashPayload(payload),
+    nonce: generateNonce(),
+    expiresAt: Date.now() + ttlMs,
+  }
+  const message = new TextEncoder().encode(buildSignedMessage(fields))
+  const signature = await signer.signMessage(message)
+  return { ...fields, address: signer.address, signature: bs58.encode(signature) }
+}
+
+// The request a signature has to authorize
+export interface ExpectedRequest {
+  action: SignedAction
+  gameId: string
+  address: string // the wallet the request acts for
+}
+
+export type SignatureCheck =
+  | { valid: true }
+  | {
+      valid: false
+      reason:
+        | 'wrong_action'
+        | 'wrong_game'
+        | 'wrong_signer'
+        | 'expired'
+        | 'payload_mismatch'
+        | 'malformed'
+        | 'bad_signature'
+    }
+
+// Checks a signature authorizes `expected` and covers the payload. Nonce
+// reuse is not tracked here; the server keeps the set of nonces it has accepted.
+export async function verifyRequestSignature(
+  signature: RequestSignature,
+  payload: unknown,
+  expected: ExpectedRequest,
+  now: number = Date.now()
+): Promise<SignatureCheck> {
+  if (signature.action !== expected.action) {
+    return { valid: false, reason: 'wrong_action' }
+  }
+  if (signature.gameId !== expected.gameId) {
+    return { valid: false, reason: 'wrong_game' }
+  }
+  if (signature.address !== expected.address) {
+    return { valid: false, reason: 'wrong_signer' }
+  }
+  if (signature.expiresAt <= now) {
+    return { valid: false, reason: 'expired' }
+  }
+  if ((await hashPayload(payload)) !== signature.payloadHash) {
+    return { valid: false, reason: 'payload_mismatch' }
+  }
+
+  let publicKey: Uint8Array
+  let signatureBytes: Uint8Array
+  try {
+    publicKey = bs58.decode(signature.address)
+    signatureBytes = bs58.decode(signature.signature)
+  } catch {
+    return { valid: false, reason: 'malformed' }
+  }
+  if (publicKey.length !== nacl.sign.publicKeyLength || signatureBytes.length !== nacl.sign.signatureLength) {
+    return { valid: false, reason: 'malformed' }
+  }
+
+  const message = new TextEncoder().encode(buildSignedMessage(signature))
+  return nacl.sign.detached.verify(message, signatureBytes, publicKey)
+    ? { valid: true }
+    : { valid: false, reason: 'bad_signature' }
+}
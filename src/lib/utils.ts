@@ -78,7 +78,7 @@ export function debounce<T extends (...args: any[]) => any>(
   func: T,
   wait: number
 ): (...args: Parameters<T>) => void {
-  let timeout: NodeJS.Timeout | null = null
+  let timeout: ReturnType<typeof setTimeout> | null = null
   
   return (...args: Parameters<T>) => {
     if (timeout) clearTimeout(timeout)
@@ -86,10 +86,6 @@ export function debounce<T extends (...args: any[]) => any>(
   }
 }
 
-export function generateMockAddress(): string {
-  return 'player_' + Math.random().toString(36).substring(2, 8)
-}
-
 export function shortenAddress(address: string): string {
   if (address.length < 8) return address
   return `${address.slice(0, 4)}...${address.slice(-4)}`
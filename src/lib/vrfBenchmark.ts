@@ -0,0 +1,54 @@
+import { VRFWorkerPool } from './vrfPool'
+import { defaultPoolSize } from './workerPool'
+
+// Benchmark harness for the VRF workers: eliminations for synthetic grids of
+// each size, first on a single worker and then across the full pool.
+
+export const DEFAULT_BENCHMARK_SIZES = [10_000, 100_000, 250_000]
+
+export interface BenchmarkResult {
+  blocks: number
+  workers: number
+  durationMs: number
+  throughput: number // blocks per second
+}
+
+export interface BenchmarkOptions {
+  signal?: AbortSignal
+  onProgress?: (fraction: number) => void
+  onResult?: (result: BenchmarkResult) => void
+}
+
+export async function runVRFBenchmark(
+  gridSizes: number[] = DEFAULT_BENCHMARK_SIZES,
+  { signal, onProgress, onResult }: BenchmarkOptions = {}
+): Promise<BenchmarkResult[]> {
+  const workerCounts = [...new Set([1, defaultPoolSize()])]
+  const pools = workerCounts.map(size => new VRFWorkerPool(size))
+  const totalBlocks = gridSizes.reduce((sum, n) => sum + n, 0) * pools.length
+  const results: BenchmarkResult[] = []
+  let finishedBlocks = 0
+
+  try {
+    for (const blocks of gridSizes) {
+      const blockIds = Uint32Array.from({ length: blocks }, (_, i) => i)
+      for (const pool of pools) {
+        const start = performance.now()
+        await pool.calculateEliminations('benchmark', 1, blockIds, 0.2, {
+          signal,
+          timeoutMs: 5 * 60_000,
+          onProgress: (done) => onProgress?.((finishedBlocks + done) / totalBlocks),
+        })
+        const durationMs = performance.now() - start
+        finishedBlocks += blocks
+
+        const result = { blocks, workers: pool.size, durationMs, throughput: blocks / durationMs * 1000 }
+        results.push(result)
+        onResult?.(result)
+      }
+    }
+    return results
+  } finally {
+    pools.forEach(pool => pool.dispose())
+  }
+}
@@ -0,0 +1,192 @@
+import { WorkerPool, defaultPoolSize } from './workerPool'
+import type { WorkerPerformanceReport } from './workerRpc'
+import {
+  VRF_WORKER_URL,
+  packedBuffers,
+  type PackedRoundResults,
+  type RoundStats,
+  type RoundVerificationReport,
+  type VRFWorkerMethods,
+} from './vrfProtocol'
+
+// Splits VRF work for large grids into contiguous slices of the block list,
+// runs them across a worker pool and stitches the results back in order.
+// There are a few more slices than workers so progress moves steadily and a
+// slow worker doesn't hold the others up.
+
+// Below this, one worker call is cheaper than sharding
+export const SHARD_MIN_BLOCKS = 2048
+const SHARDS_PER_WORKER = 4
+
+export interface ParallelOptions {
+  signal?: AbortSignal
+  timeoutMs?: number // per shard
+  onProgress?: (done: number, total: number) => void // in blocks
+}
+
+type Range = [start: number, end: number]
+
+function concat<T extends Uint8Array | Uint32Array | Float64Array>(
+  parts: ArrayLike<number>[],
+  create: (length: number) => T
+): T {
+  const out = create(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function slicePacked({ blockIds, eliminated, vrfValues }: PackedRoundResults, [start, end]: Range): PackedRoundResults {
+  return {
+    blockIds: blockIds.slice(start, end),
+    eliminated: eliminated.slice(start, end),
+    vrfValues: vrfValues.slice(start, end),
+  }
+}
+
+function concatPacked(parts: PackedRoundResults[]): PackedRoundResults {
+  return {
+    blockIds: concat(parts.map(p => p.blockIds), n => new Uint32Array(n)),
+    eliminated: concat(parts.map(p => p.eliminated), n => new Uint8Array(n)),
+    vrfValues: concat(parts.map(p => p.vrfValues), n => new Float64Array(n)),
+  }
+}
+
+export class VRFWorkerPool {
+  private pool: WorkerPool<VRFWorkerMethods>
+
+  constructor(size = defaultPoolSize()) {
+    this.pool = new WorkerPool(VRF_WORKER_URL, size)
+  }
+
+  get size(): number {
+    return this.pool.size
+  }
+
+  onPerformance(listener: (report: WorkerPerformanceReport) => void): () => void {
+    return this.pool.onPerformance(listener)
+  }
+
+  dispose() {
+    this.pool.dispose()
+  }
+
+  async calculateEliminations(
+    seed: string,
+    roundNumber: number,
+    blockIds: Uint32Array | number[],
+    eliminationRate: number,
+    options?: ParallelOptions
+  ): Promise<PackedRoundResults> {
+    const ids = blockIds instanceof Uint32Array ? blockIds : Uint32Array.from(blockIds)
+    const parts = await this.runShards(ids.length, options, (range, shardOptions) => {
+      const slice = ids.slice(...range)
+      return this.pool
+        .call('CALCULATE_ELIMINATIONS', { seed, roundNumber, blockIds: slice, eliminationRate }, {
+          ...shardOptions,
+          transfer: [slice.buffer],
+        })
+        .then(({ results }) => results)
+    })
+    return concatPacked(parts)
+  }
+
+  async processRoundResults(
+    results: PackedRoundResults,
+    options?: ParallelOptions
+  ): Promise<{ survivors: Uint32Array; eliminated: Uint32Array; stats: RoundStats }> {
+    const total = results.blockIds.length
+    const parts = await this.runShards(total, options, (range, shardOptions) => {
+      const slice = slicePacked(results, range)
+      return this.pool.call('PROCESS_ROUND_RESULTS', { results: slice }, {
+        ...shardOptions,
+        transfer: packedBuffers(slice),
+      })
+    })
+
+    const survivors = concat(parts.map(p => p.survivors), n => new Uint32Array(n))
+    const eliminated = concat(parts.map(p => p.eliminated), n => new Uint32Array(n))
+    // Shard averages weighted back by shard size
+    const vrfSum = parts.reduce((sum, p) => sum + p.stats.averageVRF * (p.stats.aliveCount + p.stats.eliminatedCount), 0)
+    return {
+      survivors,
+      eliminated,
+      stats: {
+        aliveCount: survivors.length,
+        eliminatedCount: eliminated.length,
+        survivalRate: total > 0 ? survivors.length / total : 0,
+        averageVRF: total > 0 ? vrfSum / total : 0,
+      },
+    }
+  }
+
+  async verifyRound(
+    request: Omit<VRFWorkerMethods['VERIFY_ROUND']['request'], 'results'> & { results: PackedRoundResults },
+    options?: ParallelOptions
+  ): Promise<RoundVerificationReport> {
+    const { results, proof, ...rest } = request
+    const reports = await this.runShards(results.blockIds.length, options, (range, shardOptions) => {
+      const slice = slicePacked(results, range)
+      // The proof only needs checking once
+      return this.pool.call('VERIFY_ROUND', { ...rest, proof: range[0] === 0 ? proof : undefined, results: slice }, {
+        ...shardOptions,
+        transfer: packedBuffers(slice),
+      })
+    })
+
+    const proofValid = reports[0]?.proofValid ?? null
+    const mismatches = reports.flatMap(r => r.mismatches)
+    return {
+      roundNumber: request.roundNumber,
+      verified: mismatches.length === 0 && proofValid !== false,
+      proofValid,
+      checked: reports.reduce((sum, r) => sum + r.checked, 0),
+      mismatches,
+    }
+  }
+
+  private shardRanges(total: number): Range[] {
+    const count = Math.max(1, Math.min(
+      Math.ceil(total / SHARD_MIN_BLOCKS),
+      this.pool.size * SHARDS_PER_WORKER
+    ))
+    const size = Math.ceil(total / count)
+    const ranges: Range[] = []
+    for (let start = 0; start < total || ranges.length === 0; start += size) {
+      ranges.push([start, Math.min(start + size, total)])
+    }
+    return ranges
+  }
+
+  // Runs one call per shard, results in shard order. The first failure
+  // cancels the shards still running.
+  private async runShards<T>(
+    total: number,
+    { signal, timeoutMs, onProgress }: ParallelOptions = {},
+    run: (range: Range, options: { signal: AbortSignal; timeoutMs?: number }) => Promise<T>
+  ): Promise<T[]> {
+    const controller = new AbortController()
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    if (signal?.aborted) controller.abort()
+
+    let done = 0
+    onProgress?.(0, total)
+    try {
+      return await Promise.all(this.shardRanges(total).map(async range => {
+        const result = await run(range, { signal: controller.signal, timeoutMs })
+        done += range[1] - range[0]
+        onProgress?.(done, total)
+        return result
+      }))
+    } catch (error) {
+      controller.abort()
+      throw error
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+}
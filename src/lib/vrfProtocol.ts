@@ -0,0 +1,79 @@
+import type { RoundResult } from '../shared/types'
+
+// Messages understood by public/vrf-worker.js. Block lists are typed
+// arrays so calls can transfer them instead of structured-cloning.
+
+export const VRF_WORKER_URL = '/vrf-worker.js'
+
+// Column form of RoundResult[]: entry i of each array is one block
+export interface PackedRoundResults {
+  blockIds: Uint32Array
+  eliminated: Uint8Array // 1 = eliminated
+  vrfValues: Float64Array
+}
+
+export interface RoundVerificationReport {
+  roundNumber: number
+  verified: boolean
+  proofValid: boolean | null // null when no proof was published
+  checked: number
+  mismatches: {
+    blockId: number
+    expected: { eliminated: boolean; vrfValue: number }
+    reported: { eliminated: boolean; vrfValue: number }
+  }[]
+}
+
+export interface RoundStats {
+  aliveCount: number
+  eliminatedCount: number
+  survivalRate: number
+  averageVRF: number
+}
+
+export type VRFWorkerMethods = {
+  CALCULATE_ELIMINATIONS: {
+    request: { seed: string; roundNumber: number; blockIds: Uint32Array; eliminationRate: number }
+    response: { roundNumber: number; eliminationRate: number; results: PackedRoundResults }
+  }
+  PROCESS_ROUND_RESULTS: {
+    request: { results: PackedRoundResults }
+    response: { survivors: Uint32Array; eliminated: Uint32Array; stats: RoundStats }
+  }
+  VERIFY_ROUND: {
+    request: {
+      roundNumber: number
+      seed: string
+      proof?: string
+      eliminationRate: number
+      results: PackedRoundResults
+    }
+    response: RoundVerificationReport
+  }
+}
+
+export function packRoundResults(results: RoundResult[]): PackedRoundResults {
+  const packed: PackedRoundResults = {
+    blockIds: new Uint32Array(results.length),
+    eliminated: new Uint8Array(results.length),
+    vrfValues: new Float64Array(results.length),
+  }
+  results.forEach((result, i) => {
+    packed.blockIds[i] = result.blockId
+    packed.eliminated[i] = result.eliminated ? 1 : 0
+    packed.vrfValues[i] = result.vrfValue
+  })
+  return packed
+}
+
+export function unpackRoundResults({ blockIds, eliminated, vrfValues }: PackedRoundResults): RoundResult[] {
+  return Array.from(blockIds, (blockId, i) => ({
+    blockId,
+    eliminated: eliminated[i] === 1,
+    vrfValue: vrfValues[i],
+  }))
+}
+
+export function packedBuffers({ blockIds, eliminated, vrfValues }: PackedRoundResults): Transferable[] {
+  return [blockIds.buffer, eliminated.buffer, vrfValues.buffer]
+}
@@ -0,0 +1,199 @@
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+import { Keypair, type Transaction } from '@solana/web3.js'
+import type { RequestSigner } from './signing'
+import type { PaymentSigner } from './payments'
+
+// Wallet adapters give the app one identity (a base58 public key) no matter
+// which wallet backs it. The chosen adapter is remembered so a reload
+// reconnects to the same address instead of minting a fresh identity.
+
+export type WalletAdapterId = 'phantom' | 'solflare' | 'backpack' | 'local'
+
+export interface WalletAdapter {
+  id: WalletAdapterId
+  name: string
+  // False when the wallet extension is not installed in this browser
+  readonly available: boolean
+  readonly address: string | null
+  connect(options?: { onlyIfTrusted?: boolean }): Promise<string>
+  disconnect(): Promise<void>
+  signMessage(message: Uint8Array): Promise<Uint8Array>
+  signTransaction(transaction: Transaction): Promise<Transaction>
+}
+
+// What the connected wallet offers the rest of the app
+export type WalletSigner = RequestSigner & PaymentSigner
+
+export class WalletError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WalletError'
+  }
+}
+
+// Subset of the provider object injected by Solana browser wallets
+interface InjectedSolanaProvider {
+  publicKey: { toBase58(): string } | null
+  isConnected?: boolean
+  connect(options?: { onlyIfTrusted?: boolean }): Promise<{ publicKey: { toBase58(): string } }>
+  disconnect(): Promise<void>
+  signMessage(message: Uint8Array, display?: 'utf8' | 'hex'): Promise<{ signature: Uint8Array }>
+  signTransaction(transaction: Transaction): Promise<Transaction>
+}
+
+declare global {
+  interface Window {
+    phantom?: { solana?: InjectedSolanaProvider }
+    solflare?: InjectedSolanaProvider
+    backpack?: InjectedSolanaProvider
+    solana?: InjectedSolanaProvider
+  }
+}
+
+export class InjectedWalletAdapter implements WalletAdapter {
+  private _address: string | null = null
+
+  constructor(
+    readonly id: Exclude<WalletAdapterId, 'local'>,
+    readonly name: string,
+    private readonly getProvider: () => InjectedSolanaProvider | undefined
+  ) {}
+
+  get available(): boolean {
+    return typeof window !== 'undefined' && !!this.getProvider()
+  }
+
+  get address(): string | null {
+    return this._address
+  }
+
+  private provider(): InjectedSolanaProvider {
+    const provider = this.getProvider()
+    if (!provider) {
+      throw new WalletError(`${this.name} is not installed`)
+    }
+    return provider
+  }
+
+  async connect(options?: { onlyIfTrusted?: boolean }): Promise<string> {
+    const { publicKey } = await this.provider().connect(options)
+    this._address = publicKey.toBase58()
+    return this._address
+  }
+
+  async disconnect(): Promise<void> {
+    this._address = null
+    await this.getProvider()?.disconnect()
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this._address) throw new WalletError('Wallet not connected')
+    const { signature } = await this.provider().signMessage(message, 'utf8')
+    return signature
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    if (!this._address) throw new WalletError('Wallet not connected')
+    return this.provider().signTransaction(transaction)
+  }
+}
+
+const LOCAL_KEYPAIR_KEY = 'blockchance:local-keypair'
+
+// Development wallet backed by an ed25519 keypair kept in localStorage.
+// Works offline and against a local backend; never use it with real funds.
+export class LocalKeypairAdapter implements WalletAdapter {
+  readonly id = 'local' as const
+  readonly name = 'Local Dev Wallet'
+  readonly available = true
+  private keypair: nacl.SignKeyPair | null = null
+
+  get address(): string | null {
+    return this.keypair ? bs58.encode(this.keypair.publicKey) : null
+  }
+
+  private loadKeypair(): nacl.SignKeyPair {
+    try {
+      const stored = window.localStorage.getItem(LOCAL_KEYPAIR_KEY)
+      if (stored) {
+        return nacl.sign.keyPair.fromSecretKey(bs58.decode(stored))
+      }
+    } catch (error) {
+      console.warn('Discarding unreadable local keypair:', error)
+    }
+
+    const keypair = nacl.sign.keyPair()
+    try {
+      window.localStorage.setItem(LOCAL_KEYPAIR_KEY, bs58.encode(keypair.secretKey))
+    } catch (error) {
+      console.warn('Failed to persist local keypair:', error)
+    }
+    return keypair
+  }
+
+  async connect(): Promise<string> {
+    this.keypair = this.keypair ?? this.loadKeypair()
+    return this.address!
+  }
+
+  async disconnect(): Promise<void> {
+    this.keypair = null
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.keypair) throw new WalletError('Wallet not connected')
+    return nacl.sign.detached(message, this.keypair.secretKey)
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    if (!this.keypair) throw new WalletError('Wallet not connected')
+    transaction.partialSign(Keypair.fromSecretKey(this.keypair.secretKey))
+    return transaction
+  }
+}
+
+// The local keypair keeps its secret key in localStorage, so production
+// builds only offer real wallets
+export function createWalletAdapters(): WalletAdapter[] {
+  const adapters: WalletAdapter[] = [
+    new InjectedWalletAdapter('phantom', 'Phantom', () => window.phantom?.solana ?? window.solana),
+    new InjectedWalletAdapter('solflare', 'Solflare', () => window.solflare),
+    new InjectedWalletAdapter('backpack', 'Backpack', () => window.backpack),
+  ]
+  if (import.meta.env.DEV) {
+    adapters.push(new LocalKeypairAdapter())
+  }
+  return adapters
+}
+
+// Session: which adapter to reconnect on the next visit
+const SESSION_KEY = 'blockchance:wallet-session'
+
+export interface WalletSession {
+  adapterId: WalletAdapterId
+  address: string
+}
+
+export function readWalletSession(): WalletSession | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = window.localStorage.getItem(SESSION_KEY)
+    return raw ? JSON.parse(raw) : null
+  } catch {
+    return null
+  }
+}
+
+export function writeWalletSession(session: WalletSession | null) {
+  if (typeof window === 'undefined') return
+  try {
+    if (session) {
+      window.localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+    } else {
+      window.localStorage.removeItem(SESSION_KEY)
+    }
+  } catch (error) {
+    console.warn('Failed to persist wallet session:', error)
+  }
+}
@@ -1,95 +1,324 @@
-import { io, Socket } from 'socket.io-client'
-import type { WebSocketEvents } from '../../../shared/types'
+import { io, type Socket } from 'socket.io-client'
+import type { ClientEventName, ServerEventName, WebSocketEvents } from '../shared/types'
+import { isServerEvent, validateSocketPayload } from '../shared/validators'
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3005'
 
+// Connection lifecycle:
+//   idle -> connecting -> connected <-> reconnecting
+//   any state -> disconnected (only via disconnect())
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected'
+
+// What the UI shows. Degraded: connected, but the server's pings are late.
+export type ConnectionHealth = 'connected' | 'degraded' | 'reconnecting' | 'offline'
+
+export interface ConnectionStatus {
+  state: ConnectionState
+  health: ConnectionHealth
+  // How late the server's last ping arrived against its ping interval
+  latencyMs: number | null
+}
+
+export type EventHandler<K extends ServerEventName> = (data: WebSocketEvents[K]) => void
+
+// Every validated server event, for wildcard (debugging) listeners
+export type ServerEvent = {
+  [K in ServerEventName]: { event: K; data: WebSocketEvents[K] }
+}[ServerEventName]
+
+export type WildcardHandler = (event: ServerEvent) => void
+
+// Stands in for the server connection, e.g. to replay a recording
+// (lib/replay) or to talk to the in-browser mock backend (mock/server)
+export interface SocketTransport {
+  start(deliver: (event: string, data: unknown) => void): void
+  stop(): void
+  // Client events; transports without it drop them
+  send?(event: ClientEventName, data: unknown): void
+}
+
+// One entry per on() call, so the same callback subscribed twice needs two offs
+interface Subscription {
+  callback: (data: never) => void
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 30_000
+
+// socket.io's server pings every pingInterval (sent in the handshake) and
+// the client drops the connection once one is pingTimeout overdue; a ping
+// this late already counts as degraded
+const DEFAULT_PING_INTERVAL_MS = 25_000
+const DEGRADED_LATENCY_MS = 1_000
+
+function isBrowserOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false
+}
+
 export class WebSocketClient {
   private socket: Socket | null = null
+  private connecting: Promise<void> | null = null
+  private transport: SocketTransport | null = null
   private reconnectAttempts = 0
-  private maxReconnectAttempts = 5
-  private reconnectDelay = 1000
-
-  connect(): Promise<Socket> {
-    return new Promise((resolve, reject) => {
-      if (this.socket?.connected) {
-        resolve(this.socket)
-        return
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private pingInterval = DEFAULT_PING_INTERVAL_MS
+  private lastPingAt = 0
+  private pingOverdueTimer: ReturnType<typeof setTimeout> | null = null
+  private pingOverdue = false
+  private _status: ConnectionStatus = { state: 'idle', health: 'reconnecting', latencyMs: null }
+  private statusListeners = new Set<(status: ConnectionStatus) => void>()
+  // Joined game rooms with a count per caller, replayed on every connect
+  private rooms = new Map<string, number>()
+  // Event bus. Subscriptions live here rather than on the socket, so they
+  // can be made before connect() and survive the socket being replaced.
+  private subscriptions = new Map<ServerEventName, Set<Subscription>>()
+  private wildcardHandlers = new Set<WildcardHandler>()
+
+  constructor() {
+    if (typeof window === 'undefined') return
+    window.addEventListener('offline', () => this.updateStatus({}))
+    window.addEventListener('online', () => {
+      // Don't sit out the backoff once the network is back
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer)
+        this.reconnectTimer = null
+        this.openSocket()
       }
+      this.updateStatus({})
+    })
+  }
+
+  // Resolves once connected. Connection failures are retried with backoff
+  // indefinitely rather than rejected; watch `state` to show progress.
+  connect(): Promise<void> {
+    if (this.transport || this.socket?.connected) return Promise.resolve()
+    if (this.connecting) return this.connecting
 
-      this.socket = io(WS_URL, {
+    this.connecting = new Promise((resolve) => {
+      // Reconnection is driven here so it never gives up and always resyncs
+      const socket = io(WS_URL, {
         transports: ['websocket'],
         timeout: 20000,
+        reconnection: false,
+        autoConnect: false,
       })
+      this.socket = socket
 
-      this.socket.on('connect', () => {
-        console.log('✅ WebSocket connected:', this.socket?.id)
+      // Every incoming event goes through the bus
+      socket.onAny((event: string, data: unknown) => this.dispatch(event, data))
+
+      socket.on('connect', () => {
+        console.log('✅ WebSocket connected:', socket.id)
         this.reconnectAttempts = 0
-        resolve(this.socket!)
+        this.connecting = null
+        this.setState('connected')
+        this.onServerPing(true)
+        this.rejoinRooms()
+        resolve()
       })
 
-      this.socket.on('disconnect', (reason) => {
+      socket.on('disconnect', (reason) => {
         console.log('❌ WebSocket disconnected:', reason)
-        
-        if (reason === 'io server disconnect') {
-          // Server disconnected, try to reconnect
-          this.handleReconnection()
+        this.stopPingWatch()
+        if (reason !== 'io client disconnect') {
+          this.scheduleReconnect()
         }
       })
 
-      this.socket.on('connect_error', (error) => {
+      socket.on('connect_error', (error) => {
         console.error('❌ WebSocket connection error:', error)
-        this.handleReconnection()
-        reject(error)
+        this.scheduleReconnect()
       })
 
       // Set up default error handler
-      this.socket.on('error', (data: WebSocketEvents['error']) => {
+      socket.on('error', (data: WebSocketEvents['error']) => {
         console.error('❌ WebSocket error:', data)
       })
+
+      // Health follows the server's own pings
+      socket.io.on('ping', () => this.onServerPing(false))
+
+      this.setState('connecting')
+      this.openSocket()
     })
+    return this.connecting
   }
 
-  private handleReconnection() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++
-      console.log(`🔄 Attempting reconnection ${this.reconnectAttempts}/${this.maxReconnectAttempts}`)
-      
-      setTimeout(() => {
-        this.socket?.connect()
-      }, this.reconnectDelay * this.reconnectAttempts)
-    } else {
-      console.error('❌ Max reconnection attempts reached')
+  private scheduleReconnect() {
+    if (!this.socket || this.reconnectTimer) return
+    this.setState('reconnecting')
+
+    // Exponential backoff with jitter, capped so a long outage still retries often
+    const ceiling = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts
+    )
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2)
+    this.reconnectAttempts++
+    console.log(`🔄 Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})`)
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.openSocket()
+    }, delay)
+  }
+
+  // Each (re)connect opens a new engine; its handshake carries the ping interval
+  private openSocket() {
+    const socket = this.socket
+    if (!socket) return
+    socket.connect()
+    socket.io.engine?.once('handshake', ({ pingInterval }) => {
+      this.pingInterval = pingInterval
+    })
+  }
+
+  // Records when the server last pinged and flags the connection degraded
+  // once the next ping is late. Connecting counts as a ping on time.
+  private onServerPing(connected: boolean) {
+    const now = Date.now()
+    const latencyMs = connected ? 0 : Math.max(0, now - this.lastPingAt - this.pingInterval)
+    this.stopPingWatch()
+    this.lastPingAt = now
+    this.pingOverdueTimer = setTimeout(() => {
+      this.pingOverdue = true
+      this.updateStatus({})
+    }, this.pingInterval + DEGRADED_LATENCY_MS)
+    this.updateStatus({ latencyMs })
+  }
+
+  private stopPingWatch() {
+    if (this.pingOverdueTimer) {
+      clearTimeout(this.pingOverdueTimer)
+      this.pingOverdueTimer = null
     }
+    this.pingOverdue = false
+  }
+
+  // Rooms are server-side state lost with the connection, and events sent
+  // while offline were missed, so every connect rejoins and asks for state
+  private rejoinRooms() {
+    this.rooms.forEach((_, gameId) => {
+      this.emit('join_game', { gameId })
+      this.emit('request_game_state', { gameId })
+      this.emit('request_order_book', { gameId })
+    })
   }
 
   disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.stopPingWatch()
     this.socket?.disconnect()
     this.socket = null
+    this.connecting = null
+    this.reconnectAttempts = 0
+    this.setState('disconnected')
+  }
+
+  // Swaps the server connection for `transport`; null goes back to the
+  // socket. Subscriptions and joined rooms carry over.
+  setTransport(transport: SocketTransport | null) {
+    this.transport?.stop()
+    this.transport = null
+    this.disconnect()
+    if (!transport) {
+      this.connect().catch(console.error)
+      return
+    }
+    this.transport = transport
+    this.setState('connected')
+    transport.start((event, data) => this.dispatch(event, data))
+    this.rejoinRooms()
+  }
+
+  // Connection state
+  get state(): ConnectionState {
+    return this._status.state
+  }
+
+  // Replaced (never mutated) on change, so it can back useSyncExternalStore
+  get status(): ConnectionStatus {
+    return this._status
   }
 
-  // Game room management
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener)
+    return () => {
+      this.statusListeners.delete(listener)
+    }
+  }
+
+  private setState(state: ConnectionState) {
+    this.updateStatus({ state, ...(state !== 'connected' && { latencyMs: null }) })
+  }
+
+  private updateStatus(patch: Partial<Omit<ConnectionStatus, 'health'>>) {
+    const next = { ...this._status, ...patch }
+    next.health = this.healthOf(next)
+    const prev = this._status
+    if (next.state === prev.state && next.health === prev.health && next.latencyMs === prev.latencyMs) {
+      return
+    }
+    this._status = next
+    this.statusListeners.forEach(listener => listener(next))
+  }
+
+  private healthOf({ state, latencyMs }: ConnectionStatus): ConnectionHealth {
+    if (!isBrowserOnline() || state === 'disconnected') return 'offline'
+    if (state !== 'connected') return 'reconnecting'
+    if (this.pingOverdue) return 'degraded'
+    if (latencyMs !== null && latencyMs > DEGRADED_LATENCY_MS) return 'degraded'
+    return 'connected'
+  }
+
+  // Game room management. Joins are counted so two views of one game can
+  // leave independently; the room is joined (and rejoined) while any remain.
   joinGame(gameId: string) {
-    this.emit('join_game', { gameId })
+    const count = this.rooms.get(gameId) ?? 0
+    this.rooms.set(gameId, count + 1)
+    if (count === 0 && this.connected) {
+      this.emit('join_game', { gameId })
+    }
   }
 
   leaveGame(gameId: string) {
-    this.emit('leave_game', { gameId })
+    const count = this.rooms.get(gameId) ?? 0
+    if (count > 1) {
+      this.rooms.set(gameId, count - 1)
+      return
+    }
+    this.rooms.delete(gameId)
+    if (count === 1 && this.connected) {
+      this.emit('leave_game', { gameId })
+    }
+  }
+
+  get joinedRooms(): string[] {
+    return [...this.rooms.keys()]
   }
 
-  // Request data
+  // Request data. While offline these are skipped: the next connect requests
+  // state for every joined room anyway.
   requestGameState(gameId: string) {
-    this.emit('request_game_state', { gameId })
+    if (this.connected) this.emit('request_game_state', { gameId })
   }
 
   requestOrderBook(gameId: string) {
-    this.emit('request_order_book', { gameId })
+    if (this.connected) this.emit('request_order_book', { gameId })
   }
 
   // Event emitters
-  private emit<K extends keyof WebSocketEvents>(
+  private emit<K extends ClientEventName>(
     event: K,
     data: WebSocketEvents[K]
   ) {
+    if (this.transport) {
+      this.transport.send?.(event, data)
+      return
+    }
     if (this.socket?.connected) {
       this.socket.emit(event as string, data)
     } else {
@@ -97,25 +326,74 @@ export class WebSocketClient {
     }
   }
 
-  // Event listeners
-  on<K extends keyof WebSocketEvents>(
-    event: K,
-    callback: (data: WebSocketEvents[K]) => void
-  ) {
-    this.socket?.on(event as string, callback)
+  // Event bus
+  // Validates once per event, then fans out to subscribers and wildcard
+  // handlers. A throwing handler is logged and doesn't stop the others.
+  private dispatch(event: string, data: unknown) {
+    if (!isServerEvent(event)) return
+    let payload: WebSocketEvents[typeof event]
+    try {
+      payload = validateSocketPayload(event, data)
+    } catch (error) {
+      console.error(`❌ Dropped invalid '${event}' payload:`, error)
+      return
+    }
+
+    const deliver = (handler: () => void) => {
+      try {
+        handler()
+      } catch (error) {
+        console.error(`❌ Handler for '${event}' threw:`, error)
+      }
+    }
+    this.subscriptions.get(event)?.forEach(subscription => {
+      deliver(() => (subscription.callback as (data: unknown) => void)(payload))
+    })
+    this.wildcardHandlers.forEach(handler => {
+      deliver(() => handler({ event, data: payload } as ServerEvent))
+    })
   }
 
-  off<K extends keyof WebSocketEvents>(event: K, callback?: Function) {
-    if (callback) {
-      this.socket?.off(event as string, callback)
-    } else {
-      this.socket?.off(event as string)
+  // Subscribes to a server event; returns a function removing just this subscription
+  on<K extends ServerEventName>(event: K, callback: EventHandler<K>): () => void {
+    const subscription: Subscription = { callback }
+    const subscribers = this.subscriptions.get(event) ?? new Set()
+    subscribers.add(subscription)
+    this.subscriptions.set(event, subscribers)
+    return () => {
+      subscribers.delete(subscription)
+      if (subscribers.size === 0 && this.subscriptions.get(event) === subscribers) {
+        this.subscriptions.delete(event)
+      }
+    }
+  }
+
+  // Removes one subscription of `callback`; other subscribers are untouched
+  off<K extends ServerEventName>(event: K, callback: EventHandler<K>) {
+    const subscribers = this.subscriptions.get(event)
+    if (!subscribers) return
+    for (const subscription of subscribers) {
+      if (subscription.callback === callback) {
+        subscribers.delete(subscription)
+        break
+      }
+    }
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(event)
+    }
+  }
+
+  // Receives every validated server event; for logging and debugging tools
+  onAny(handler: WildcardHandler): () => void {
+    this.wildcardHandlers.add(handler)
+    return () => {
+      this.wildcardHandlers.delete(handler)
     }
   }
 
   // Connection status
   get connected(): boolean {
-    return this.socket?.connected || false
+    return this.transport !== null || this.socket?.connected || false
   }
 
   get id(): string | undefined {
@@ -127,25 +405,25 @@ export class WebSocketClient {
 export const websocket = new WebSocketClient()
 
 // React Hook for WebSocket
-import { useEffect, useRef } from 'react'
-
-export function useWebSocket() {
-  const socketRef = useRef<WebSocketClient | null>(null)
+import { useEffect, useSyncExternalStore } from 'react'
 
+// Returns the shared client and makes sure it is connecting. Subscriptions
+// and room joins may be made before the connection is up.
+export function useWebSocket(): WebSocketClient {
   useEffect(() => {
-    socketRef.current = websocket
-
-    // Connect on mount
+    // Don't disconnect on unmount: other components share the connection
     websocket.connect().catch(console.error)
-
-    // Cleanup on unmount
-    return () => {
-      // Don't disconnect here as other components might be using it
-      socketRef.current = null
-    }
   }, [])
 
-  return socketRef.current
+  return websocket
+}
+
+// Re-renders on connection state, health or latency changes
+export function useConnectionStatus(): ConnectionStatus {
+  return useSyncExternalStore(
+    (onChange) => websocket.onStatusChange(onChange),
+    () => websocket.status
+  )
 }
 
 // Hook for game-specific WebSocket events
@@ -153,9 +431,9 @@ export function useGameWebSocket(gameId: string | null) {
   const ws = useWebSocket()
 
   useEffect(() => {
-    if (!ws || !gameId) return
+    if (!gameId) return
 
-    // Join game room
+    // Join game room; it is rejoined automatically after a reconnect
     ws.joinGame(gameId)
 
     // Request initial state
@@ -172,20 +450,13 @@ export function useGameWebSocket(gameId: string | null) {
 }
 
 // Hook for specific WebSocket event
-export function useWebSocketEvent<K extends keyof WebSocketEvents>(
+export function useWebSocketEvent<K extends ServerEventName>(
   event: K,
-  callback: (data: WebSocketEvents[K]) => void,
+  callback: EventHandler<K>,
   deps: any[] = []
 ) {
   const ws = useWebSocket()
 
-  useEffect(() => {
-    if (!ws) return
-
-    ws.on(event, callback)
-
-    return () => {
-      ws.off(event, callback)
-    }
-  }, [ws, event, ...deps])
+  // The returned unsubscribe removes only this component's subscription
+  useEffect(() => ws.on(event, callback), [ws, event, callback, ...deps])
 }
\ No newline at end of file
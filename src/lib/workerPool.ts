@@ -0,0 +1,86 @@
+import {
+  WorkerRpc,
+  WorkerRpcError,
+  type RpcCallOptions,
+  type RpcMethods,
+  type WorkerPerformanceReport,
+} from './workerRpc'
+
+// A fixed-size set of identical workers behind one call(). Each call goes
+// to the worker with the fewest calls in flight; workers are only started
+// once every running one is busy, so small jobs stay on a single thread.
+
+export function defaultPoolSize(): number {
+  return typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+    ? navigator.hardwareConcurrency
+    : 4
+}
+
+interface PoolWorker<M extends RpcMethods> {
+  worker: Worker
+  rpc: WorkerRpc<M>
+  inFlight: number
+}
+
+export class WorkerPool<M extends RpcMethods> {
+  private workers: PoolWorker<M>[] = []
+  private performanceListeners = new Set<(report: WorkerPerformanceReport) => void>()
+  private disposed = false
+
+  constructor(private scriptPath: string, readonly size = defaultPoolSize()) {}
+
+  get running(): number {
+    return this.workers.length
+  }
+
+  async call<K extends keyof M & string>(
+    method: K,
+    data: M[K]['request'],
+    options?: RpcCallOptions
+  ): Promise<M[K]['response']> {
+    if (this.disposed) throw new WorkerRpcError(method, 'Worker pool has been disposed')
+
+    const entry = this.pick()
+    entry.inFlight++
+    try {
+      return await entry.rpc.call(method, data, options)
+    } finally {
+      entry.inFlight--
+    }
+  }
+
+  onPerformance(listener: (report: WorkerPerformanceReport) => void): () => void {
+    this.performanceListeners.add(listener)
+    return () => {
+      this.performanceListeners.delete(listener)
+    }
+  }
+
+  dispose() {
+    this.disposed = true
+    for (const { worker, rpc } of this.workers) {
+      rpc.dispose()
+      worker.terminate()
+    }
+    this.workers = []
+    this.performanceListeners.clear()
+  }
+
+  private pick(): PoolWorker<M> {
+    const idle = this.workers.find(w => w.inFlight === 0)
+    if (idle) return idle
+    if (this.workers.length < this.size) return this.spawn()
+    return this.workers.reduce((least, w) => (w.inFlight < least.inFlight ? w : least))
+  }
+
+  private spawn(): PoolWorker<M> {
+    const worker = new Worker(this.scriptPath)
+    const rpc = new WorkerRpc<M>(worker)
+    rpc.onPerformance(report => {
+      for (const listener of this.performanceListeners) listener(report)
+    })
+    const entry = { worker, rpc, inFlight: 0 }
+    this.workers.push(entry)
+    return entry
+  }
+}
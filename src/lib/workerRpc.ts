@@ -0,0 +1,155 @@
+// Request/response calls over a Worker. Each call carries an id the worker
+// echoes back, so any number of calls can be in flight at once:
+//   -> { id, type, data }             run `type` with `data`
+//   -> { id, type: 'CANCEL' }         stop working on call `id`
+//   <- { id, type: 'RESULT', data }   call finished
+//   <- { id, type: 'ERROR', error }   call threw
+//   <- { id, type: 'PERFORMANCE_DATA', data }
+// Messages without an id are left to the caller's own listeners.
+
+export type RpcMethods = Record<string, { request: unknown; response: unknown }>
+
+export interface RpcCallOptions {
+  timeoutMs?: number
+  signal?: AbortSignal
+  // Buffers moved to the worker instead of copied; unusable afterwards
+  transfer?: Transferable[]
+}
+
+export interface WorkerPerformanceReport {
+  operation: string
+  duration: number // ms
+  dataSize: number // items processed
+  throughput: number // items per second
+}
+
+export const DEFAULT_RPC_TIMEOUT_MS = 30_000
+
+export class WorkerRpcError extends Error {
+  constructor(public method: string, message: string) {
+    super(message)
+    this.name = 'WorkerRpcError'
+  }
+}
+
+export class WorkerTimeoutError extends WorkerRpcError {
+  constructor(method: string, public timeoutMs: number) {
+    super(method, `${method} timed out after ${timeoutMs}ms`)
+    this.name = 'WorkerTimeoutError'
+  }
+}
+
+interface PendingCall {
+  method: string
+  resolve: (value: unknown) => void
+  reject: (error: unknown) => void
+  cleanup: () => void
+}
+
+type WorkerReply =
+  | { id: number; type: 'RESULT'; data: unknown }
+  | { id: number; type: 'ERROR'; error: string }
+  | { id: number; type: 'PERFORMANCE_DATA'; data: WorkerPerformanceReport }
+
+export class WorkerRpc<M extends RpcMethods> {
+  private nextId = 1
+  private pending = new Map<number, PendingCall>()
+  private performanceListeners = new Set<(report: WorkerPerformanceReport) => void>()
+  private disposed = false
+
+  constructor(private worker: Worker, private defaultTimeoutMs = DEFAULT_RPC_TIMEOUT_MS) {
+    worker.addEventListener('message', this.handleMessage)
+    worker.addEventListener('error', this.handleError)
+  }
+
+  call<K extends keyof M & string>(
+    method: K,
+    data: M[K]['request'],
+    { timeoutMs = this.defaultTimeoutMs, signal, transfer = [] }: RpcCallOptions = {}
+  ): Promise<M[K]['response']> {
+    if (this.disposed) {
+      return Promise.reject(new WorkerRpcError(method, 'Worker has been terminated'))
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('The operation was aborted', 'AbortError'))
+    }
+
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const cancel = (error: unknown) => {
+        this.settle(id)?.reject(error)
+        this.worker.postMessage({ id, type: 'CANCEL' })
+      }
+      const timer = setTimeout(() => cancel(new WorkerTimeoutError(method, timeoutMs)), timeoutMs)
+      const onAbort = () => cancel(new DOMException('The operation was aborted', 'AbortError'))
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(id, {
+        method,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        },
+      })
+      this.worker.postMessage({ id, type: method, data }, transfer)
+    })
+  }
+
+  // Timing the worker reports after each call
+  onPerformance(listener: (report: WorkerPerformanceReport) => void): () => void {
+    this.performanceListeners.add(listener)
+    return () => {
+      this.performanceListeners.delete(listener)
+    }
+  }
+
+  // Rejects everything in flight; the caller terminates the worker
+  dispose() {
+    this.disposed = true
+    this.worker.removeEventListener('message', this.handleMessage)
+    this.worker.removeEventListener('error', this.handleError)
+    for (const id of [...this.pending.keys()]) {
+      const call = this.settle(id)
+      call?.reject(new WorkerRpcError(call.method, 'Worker has been terminated'))
+    }
+    this.performanceListeners.clear()
+  }
+
+  // Removes a call from the pending set, returning it if it was still open
+  private settle(id: number): PendingCall | undefined {
+    const call = this.pending.get(id)
+    if (!call) return undefined
+    this.pending.delete(id)
+    call.cleanup()
+    return call
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    const reply = event.data as WorkerReply
+    if (typeof reply?.id !== 'number') return
+
+    switch (reply.type) {
+      case 'RESULT':
+        this.settle(reply.id)?.resolve(reply.data)
+        break
+      case 'ERROR': {
+        const call = this.settle(reply.id)
+        call?.reject(new WorkerRpcError(call.method, reply.error))
+        break
+      }
+      case 'PERFORMANCE_DATA':
+        for (const listener of this.performanceListeners) listener(reply.data)
+        break
+    }
+  }
+
+  // Uncaught worker errors can't be tied to one call, so fail them all
+  private handleError = (event: ErrorEvent) => {
+    for (const id of [...this.pending.keys()]) {
+      const call = this.settle(id)
+      call?.reject(new WorkerRpcError(call.method, event.message || 'Worker error'))
+    }
+  }
+}
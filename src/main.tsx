@@ -10,10 +10,34 @@ if (loading) {
   loading.style.display = 'none'
 }
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <BrowserRouter>
-      <App />
-    </BrowserRouter>
-  </StrictMode>,
-)
\ No newline at end of file
+// VITE_MOCK_BACKEND=true (npm run dev:mock) serves the whole API from the
+// browser. Development builds only: production bundles leave the mock out.
+async function startMockBackendIfRequested() {
+  if (import.meta.env.DEV && import.meta.env.VITE_MOCK_BACKEND === 'true') {
+    const { startMockBackend } = await import('./mock/server')
+    startMockBackend()
+  }
+}
+
+// ?record= / ?replay= start a traffic recording or replay before first
+// render, in development builds only
+async function startDevSessionIfRequested() {
+  if (import.meta.env.DEV) {
+    const { startDevSessionFromUrl } = await import('./lib/replay')
+    await startDevSessionFromUrl()
+  }
+}
+
+startMockBackendIfRequested()
+  .catch((error) => console.error('Failed to start mock backend:', error))
+  .then(() => startDevSessionIfRequested())
+  .catch((error) => console.error('Failed to start record/replay session:', error))
+  .finally(() => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <BrowserRouter>
+          <App />
+        </BrowserRouter>
+      </StrictMode>,
+    )
+  })
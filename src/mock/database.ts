@@ -0,0 +1,171 @@
+import { calculateEV, calculateNextRoundEV, getBlockPosition } from '../lib/utils'
+import { eliminationRateForRound } from '../lib/gameConfig'
+import type {
+  BlockData,
+  BlockDelta,
+  GameConfig,
+  GameData,
+  OrderData,
+  RoundData,
+  RoundResult,
+  ServerEventName,
+  TradeData,
+  WebSocketEvents,
+} from '../shared/types'
+
+// In-memory state of the mock backend. Holds the same records the real
+// server keeps and derives GameData aggregates from them after every change.
+
+export const DEFAULT_ELIMINATION_RATE = 0.2
+
+// Sends a server event to the clients in the game's room
+export type Broadcast = <K extends ServerEventName>(event: K, data: WebSocketEvents[K]) => void
+
+export class MockHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'MockHttpError'
+  }
+}
+
+export interface MockGame {
+  game: GameData
+  // Dense: one entry per block id, unsold ones included
+  blocks: BlockData[]
+  rounds: RoundData[]
+  // Reveal results by round number
+  results: Map<number, RoundResult[]>
+  orders: Map<string, OrderData>
+  trades: TradeData[]
+  seq: number
+}
+
+let idCounter = 0
+
+export function mockId(prefix: string): string {
+  idCounter++
+  return `${prefix}_${Date.now().toString(36)}${idCounter.toString(36)}`
+}
+
+export class MockDatabase {
+  readonly games = new Map<string, MockGame>()
+  readonly startedAt = Date.now()
+
+  createGame(title: string, config: GameConfig, creatorAddress?: string, description?: string): MockGame {
+    const gameId = mockId('game')
+    const { rows, cols } = config.gridSize
+    const totalBlocks = rows * cols
+    const record: MockGame = {
+      game: {
+        gameId,
+        title,
+        description,
+        creatorAddress,
+        status: 'pending',
+        config,
+        totalBlocks,
+        soldBlocks: 0,
+        aliveBlocks: 0,
+        prizePool: 0,
+        currentEV: 0,
+        nextRoundEV: 0,
+        survivalProbability: 1 - (eliminationRateForRound(config, 1) ?? DEFAULT_ELIMINATION_RATE),
+        currentRound: 0,
+        createdAt: new Date().toISOString(),
+        saleEndTime: config.saleEndTime,
+      },
+      blocks: Array.from({ length: totalBlocks }, (_, blockId) => ({
+        blockId,
+        gameId,
+        position: getBlockPosition(blockId, cols),
+        status: 'unsold',
+        purchasePrice: 0,
+      })),
+      rounds: [],
+      results: new Map(),
+      orders: new Map(),
+      trades: [],
+      seq: 0,
+    }
+    this.games.set(gameId, record)
+    return record
+  }
+
+  get(gameId: string): MockGame {
+    const record = this.games.get(gameId)
+    if (!record) throw new MockHttpError(404, `Game ${gameId} not found`)
+    return record
+  }
+
+  findOrder(orderId: string): { record: MockGame; order: OrderData } {
+    for (const record of this.games.values()) {
+      const order = record.orders.get(orderId)
+      if (order) return { record, order }
+    }
+    throw new MockHttpError(404, `Order ${orderId} not found`)
+  }
+
+  // Blocks the API returns: sold ones only, like the real server
+  soldBlocks(record: MockGame): BlockData[] {
+    return record.blocks.filter(b => b.status !== 'unsold')
+  }
+
+  currentRound(record: MockGame): RoundData | null {
+    return record.rounds[record.rounds.length - 1] ?? null
+  }
+
+  // Applies block deltas and bumps the sequence; returns the new seq
+  applyDeltas(record: MockGame, deltas: BlockDelta[]): number {
+    for (const delta of deltas) {
+      const block = record.blocks[delta.blockId]
+      if (delta.kind === 'status') {
+        block.status = delta.status
+        block.eliminatedInRound = delta.eliminatedInRound ?? block.eliminatedInRound
+      } else {
+        block.ownerId = delta.ownerId ?? undefined
+        block.purchasePrice = delta.purchasePrice ?? block.purchasePrice
+        block.purchasedAt = delta.purchasedAt ?? block.purchasedAt
+      }
+    }
+    this.refreshAggregates(record)
+    record.seq++
+    return record.seq
+  }
+
+  refreshAggregates(record: MockGame) {
+    const { game } = record
+    let sold = 0
+    let alive = 0
+    for (const block of record.blocks) {
+      if (block.status !== 'unsold') sold++
+      if (block.status === 'alive') alive++
+    }
+    const eliminationRate = this.currentRound(record)?.eliminationRate
+      ?? eliminationRateForRound(game.config, record.rounds.length + 1)
+      ?? DEFAULT_ELIMINATION_RATE
+    const prizePool = sold * game.config.blockPrice * (1 - game.config.feeRate)
+
+    game.soldBlocks = sold
+    game.aliveBlocks = alive
+    game.prizePool = prizePool
+    game.currentEV = calculateEV(prizePool, alive)
+    game.nextRoundEV = calculateNextRoundEV(prizePool, alive, eliminationRate)
+    game.survivalProbability = 1 - eliminationRate
+  }
+
+  uniquePlayers(record: MockGame): number {
+    return new Set(record.blocks.map(b => b.ownerId).filter(Boolean)).size
+  }
+}
+
+// Applies deltas and announces them as the next event in the game's sequence
+export function publishDeltas(
+  db: MockDatabase,
+  broadcast: Broadcast,
+  record: MockGame,
+  deltas: BlockDelta[]
+) {
+  if (deltas.length === 0) return
+  const seq = db.applyDeltas(record, deltas)
+  broadcast('block_deltas', { gameId: record.game.gameId, seq, deltas, game: { ...record.game } })
+}
@@ -0,0 +1,120 @@
+import bs58 from 'bs58'
+import {
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  type BlockhashWithExpiryBlockHeight,
+  type RpcResponseAndContext,
+  type SignatureStatus,
+  type TransactionConfirmationStatus,
+} from '@solana/web3.js'
+import { MockHttpError } from './database'
+import type { PaymentConnection } from '../lib/payments'
+
+// In-memory stand-in for the Solana RPC the mint payments go through. Accepts
+// signed SOL transfers, walks them from processed to finalized on a short
+// timer and lets the mock server look a transfer up before it mints.
+
+// Block height advances once per slot, as on mainnet
+const SLOT_MS = 400
+// Blockhashes stay valid for this many blocks
+const BLOCKHASH_LIFETIME = 150
+// Time since submission each commitment level is reached at
+const CONFIRMED_AFTER_MS = 800
+const FINALIZED_AFTER_MS = 2_000
+
+export interface MockTransfer {
+  signature: string
+  from: string
+  to: string
+  lamports: number
+  submittedAt: number
+  slot: number
+}
+
+export class MockLedger implements PaymentConnection {
+  private startedAt = Date.now()
+  private blockhashes = new Map<string, number>()
+  private transfers = new Map<string, MockTransfer>()
+
+  private height(): number {
+    return Math.floor((Date.now() - this.startedAt) / SLOT_MS)
+  }
+
+  async getLatestBlockhash(): Promise<BlockhashWithExpiryBlockHeight> {
+    const blockhash = bs58.encode(crypto.getRandomValues(new Uint8Array(32)))
+    const lastValidBlockHeight = this.height() + BLOCKHASH_LIFETIME
+    this.blockhashes.set(blockhash, lastValidBlockHeight)
+    return { blockhash, lastValidBlockHeight }
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.height()
+  }
+
+  // Rejects what a real RPC would refuse at preflight: bad signatures,
+  // unknown or expired blockhashes and anything but one plain transfer
+  async sendRawTransaction(raw: Uint8Array | Buffer | number[]): Promise<string> {
+    const transaction = Transaction.from(raw)
+    if (!transaction.signature || !transaction.verifySignatures()) {
+      throw new Error('Transaction signature verification failure')
+    }
+    const lastValid = transaction.recentBlockhash && this.blockhashes.get(transaction.recentBlockhash)
+    if (!lastValid || this.height() > lastValid) {
+      throw new Error('Blockhash not found')
+    }
+    const transfers = transaction.instructions.filter(ix => ix.programId.equals(SystemProgram.programId))
+    if (transfers.length !== 1 || SystemInstruction.decodeInstructionType(transfers[0]) !== 'Transfer') {
+      throw new Error('Mock ledger only settles a single SOL transfer')
+    }
+
+    const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(transfers[0])
+    const signature = bs58.encode(transaction.signature)
+    if (!this.transfers.has(signature)) {
+      this.transfers.set(signature, {
+        signature,
+        from: fromPubkey.toBase58(),
+        to: toPubkey.toBase58(),
+        lamports: Number(lamports),
+        submittedAt: Date.now(),
+        slot: this.height(),
+      })
+    }
+    return signature
+  }
+
+  async getSignatureStatuses(signatures: string[]): Promise<RpcResponseAndContext<(SignatureStatus | null)[]>> {
+    return {
+      context: { slot: this.height() },
+      value: signatures.map(signature => {
+        const transfer = this.transfers.get(signature)
+        if (!transfer) return null
+        const confirmationStatus = this.confirmationOf(transfer)
+        return {
+          slot: transfer.slot,
+          confirmations: confirmationStatus === 'finalized' ? null : this.height() - transfer.slot,
+          err: null,
+          confirmationStatus,
+        }
+      }),
+    }
+  }
+
+  private confirmationOf(transfer: MockTransfer): TransactionConfirmationStatus {
+    const age = Date.now() - transfer.submittedAt
+    if (age >= FINALIZED_AFTER_MS) return 'finalized'
+    if (age >= CONFIRMED_AFTER_MS) return 'confirmed'
+    return 'processed'
+  }
+
+  // The finalized transfer behind a mint or refund request, as the server
+  // would check it on chain
+  finalizedTransfer(signature: string | undefined): MockTransfer {
+    const transfer = signature ? this.transfers.get(signature) : undefined
+    if (!transfer) throw new MockHttpError(400, 'Payment transaction not found')
+    if (this.confirmationOf(transfer) !== 'finalized') {
+      throw new MockHttpError(400, 'Payment transaction is not finalized')
+    }
+    return transfer
+  }
+}
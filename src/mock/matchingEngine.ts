@@ -0,0 +1,210 @@
+import {
+  MockHttpError,
+  mockId,
+  publishDeltas,
+  type Broadcast,
+  type MockDatabase,
+  type MockGame,
+} from './database'
+import type {
+  BlockDelta,
+  CreateOrderRequest,
+  MarketStats,
+  OrderBook,
+  OrderData,
+  TradeData,
+} from '../shared/types'
+
+// Price-time priority matching between asks (one specific block) and
+// any-block bids. A trade executes at the price of the order that rested
+// first; nobody trades with themselves.
+
+function isOpen(order: OrderData): boolean {
+  return order.status === 'active' || order.status === 'partially_filled'
+}
+
+function byTime(a: OrderData, b: OrderData): number {
+  return a.createdAt.localeCompare(b.createdAt)
+}
+
+export class MatchingEngine {
+  constructor(private db: MockDatabase, private broadcast: Broadcast) {}
+
+  placeOrder(record: MockGame, request: CreateOrderRequest): OrderData {
+    const round = this.db.currentRound(record)
+    if (record.game.status !== 'active' || round?.status !== 'trading') {
+      throw new MockHttpError(409, 'Trading is closed')
+    }
+    if (!(request.price > 0)) {
+      throw new MockHttpError(400, 'Price must be positive')
+    }
+
+    let quantity = Math.floor(request.quantity)
+    if (request.type === 'ask') {
+      const block = request.blockId !== undefined ? record.blocks[request.blockId] : undefined
+      if (!block) throw new MockHttpError(400, 'Ask needs a valid blockId')
+      if (block.ownerId !== request.userId) throw new MockHttpError(403, 'You do not own this block')
+      if (block.status !== 'alive') throw new MockHttpError(409, 'Only alive blocks can be sold')
+      const listed = [...record.orders.values()].some(
+        o => isOpen(o) && o.type === 'ask' && o.blockId === block.blockId
+      )
+      if (listed) throw new MockHttpError(409, 'Block already has an open ask')
+      quantity = 1
+    } else if (quantity < 1) {
+      throw new MockHttpError(400, 'Quantity must be at least 1')
+    }
+
+    const now = new Date().toISOString()
+    const order: OrderData = {
+      orderId: mockId('order'),
+      gameId: record.game.gameId,
+      userId: request.userId,
+      type: request.type,
+      blockId: request.type === 'ask' ? request.blockId : undefined,
+      price: request.price,
+      quantity,
+      filledQuantity: 0,
+      fillPercentage: 0,
+      status: 'active',
+      carryOver: request.carryOver ?? false,
+      roundNumber: round.roundNumber,
+      createdAt: now,
+      updatedAt: now,
+    }
+    record.orders.set(order.orderId, order)
+
+    this.match(record)
+    this.publishBook(record)
+    return order
+  }
+
+  cancelOrder(orderId: string, userId: string): OrderData {
+    const { record, order } = this.db.findOrder(orderId)
+    if (order.userId !== userId) throw new MockHttpError(403, 'Not your order')
+    if (!isOpen(order)) throw new MockHttpError(409, `Order is already ${order.status}`)
+    order.status = 'cancelled'
+    order.updatedAt = new Date().toISOString()
+    this.publishBook(record)
+    return order
+  }
+
+  // Crosses the book until no bid meets an ask; returns the number of trades
+  match(record: MockGame): number {
+    const deltas: BlockDelta[] = []
+    let trades = 0
+
+    for (;;) {
+      const { asks, bids } = this.orderBook(record)
+      const pair = this.findCross(record, asks, bids)
+      if (!pair) break
+      deltas.push(this.execute(record, pair.ask, pair.bid))
+      trades++
+    }
+
+    publishDeltas(this.db, this.broadcast, record, deltas)
+    return trades
+  }
+
+  private findCross(
+    record: MockGame,
+    asks: OrderData[],
+    bids: OrderData[]
+  ): { ask: OrderData; bid: OrderData } | null {
+    for (const bid of bids) {
+      for (const ask of asks) {
+        if (ask.price > bid.price) break
+        if (ask.userId === bid.userId) continue
+        // The seller may have lost the block since listing it
+        const block = record.blocks[ask.blockId!]
+        if (block.ownerId !== ask.userId || block.status !== 'alive') {
+          ask.status = 'expired'
+          ask.updatedAt = new Date().toISOString()
+          return this.findCross(record, asks.filter(o => o !== ask), bids)
+        }
+        return { ask, bid }
+      }
+    }
+    return null
+  }
+
+  private execute(record: MockGame, ask: OrderData, bid: OrderData): BlockDelta {
+    const price = byTime(ask, bid) <= 0 ? ask.price : bid.price
+    const now = new Date().toISOString()
+
+    ask.filledQuantity = 1
+    ask.fillPercentage = 100
+    ask.status = 'filled'
+    ask.updatedAt = now
+
+    bid.filledQuantity = (bid.filledQuantity ?? 0) + 1
+    bid.fillPercentage = (bid.filledQuantity / bid.quantity) * 100
+    bid.status = bid.filledQuantity >= bid.quantity ? 'filled' : 'partially_filled'
+    bid.updatedAt = now
+
+    const trade: TradeData = {
+      tradeId: mockId('trade'),
+      gameId: record.game.gameId,
+      blockId: ask.blockId!,
+      buyerId: bid.userId,
+      sellerId: ask.userId,
+      price,
+      roundNumber: ask.roundNumber,
+      buyOrderId: bid.orderId,
+      sellOrderId: ask.orderId,
+      executedAt: now,
+    }
+    record.trades.push(trade)
+
+    return { kind: 'owner', blockId: trade.blockId, ownerId: bid.userId, purchasePrice: price, purchasedAt: now }
+  }
+
+  // Trading closed: orders that don't carry over lapse, as do asks on
+  // blocks that were eliminated
+  expireOrders(record: MockGame) {
+    const now = new Date().toISOString()
+    for (const order of record.orders.values()) {
+      if (!isOpen(order)) continue
+      const eliminated = order.type === 'ask' && record.blocks[order.blockId!].status !== 'alive'
+      if (!order.carryOver || eliminated) {
+        order.status = 'expired'
+        order.updatedAt = now
+      }
+    }
+    this.publishBook(record)
+  }
+
+  orderBook(record: MockGame): OrderBook {
+    const open = [...record.orders.values()].filter(isOpen)
+    return {
+      asks: open.filter(o => o.type === 'ask').sort((a, b) => a.price - b.price || byTime(a, b)),
+      bids: open.filter(o => o.type === 'any_bid').sort((a, b) => b.price - a.price || byTime(a, b)),
+    }
+  }
+
+  userOrders(record: MockGame, userId: string): OrderData[] {
+    return [...record.orders.values()]
+      .filter(o => o.userId === userId)
+      .sort((a, b) => byTime(b, a))
+  }
+
+  marketStats(record: MockGame): MarketStats {
+    const { asks, bids } = this.orderBook(record)
+    const last = record.trades[record.trades.length - 1]
+    return {
+      activeAsks: asks.length,
+      activeBids: bids.length,
+      bestAsk: asks[0]?.price,
+      bestBid: bids[0]?.price,
+      lastPrice: last?.price,
+      volume: record.trades.reduce((sum, t) => sum + t.price, 0),
+      tradeCount: record.trades.length,
+    }
+  }
+
+  publishBook(record: MockGame) {
+    this.broadcast('order_book_update', {
+      gameId: record.game.gameId,
+      orderBook: this.orderBook(record),
+    })
+  }
+}
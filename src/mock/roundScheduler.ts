@@ -0,0 +1,211 @@
+import {
+  DEFAULT_ELIMINATION_RATE,
+  MockHttpError,
+  publishDeltas,
+  type Broadcast,
+  type MockDatabase,
+  type MockGame,
+} from './database'
+import type { MatchingEngine } from './matchingEngine'
+import { eliminationRateForRound } from '../lib/gameConfig'
+import type { BlockDelta, RoundData, RoundResult } from '../shared/types'
+
+// Drives active games through rounds on timers:
+//   trading (config.roundDuration) -> trading_closed -> vrf_requested
+//   -> revealing -> completed -> next round, until at most one block survives.
+
+const CLOSE_TO_VRF_MS = 2_000
+const VRF_TO_REVEAL_MS = 2_000
+const INTERMISSION_MS = 5_000
+
+async function sha256(text: string): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+}
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Same derivation as public/vrf-worker.js, so the client's check passes
+export async function mockVrfValue(seed: string, roundNumber: number, blockId: number): Promise<number> {
+  const digest = await sha256(`${seed}:${roundNumber}:${blockId}`)
+  return new DataView(digest).getUint32(0) / 4294967296
+}
+
+// Stand-in VRF: a random proof whose SHA-256 is the published seed
+async function randomVrf(): Promise<{ seed: string; proof: string }> {
+  const proof = toHex(crypto.getRandomValues(new Uint8Array(32)))
+  return { seed: toHex(await sha256(proof)), proof }
+}
+
+export class RoundScheduler {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>()
+  // What the pending timer will do, so admin actions can run it early
+  private pending = new Map<string, () => void>()
+
+  constructor(
+    private db: MockDatabase,
+    private engine: MatchingEngine,
+    private broadcast: Broadcast,
+    // Lets simulated players act at the start of each round
+    private onRoundStarted?: (record: MockGame) => void
+  ) {}
+
+  startGame(record: MockGame) {
+    const { game } = record
+    if (game.status !== 'minting' && game.status !== 'pending') {
+      throw new MockHttpError(409, `Game is already ${game.status}`)
+    }
+    if (game.soldBlocks === 0) {
+      throw new MockHttpError(409, 'No blocks have been minted')
+    }
+    game.status = 'active'
+    game.gameStartTime = new Date().toISOString()
+    this.startRound(record)
+  }
+
+  // Runs the next scheduled phase now
+  forceRound(record: MockGame) {
+    const next = this.pending.get(record.game.gameId)
+    if (!next) throw new MockHttpError(409, 'Game has no scheduled round phase')
+    next()
+  }
+
+  // Reveals the given round now, optionally with a chosen seed (which then
+  // comes without a proof)
+  async forceVRF(record: MockGame, roundNumber: number, seed?: string) {
+    const round = this.db.currentRound(record)
+    if (!round || round.roundNumber !== roundNumber || round.status === 'completed' || round.status === 'revealing') {
+      throw new MockHttpError(409, `Round ${roundNumber} is not awaiting VRF`)
+    }
+    if (round.status === 'trading') this.closeTrading(record, round)
+    await this.reveal(record, round, seed ? { seed } : undefined)
+  }
+
+  stop(gameId: string) {
+    const timer = this.timers.get(gameId)
+    if (timer) clearTimeout(timer)
+    this.timers.delete(gameId)
+    this.pending.delete(gameId)
+  }
+
+  dispose() {
+    for (const gameId of [...this.timers.keys()]) this.stop(gameId)
+  }
+
+  private schedule(record: MockGame, delayMs: number, phase: () => void) {
+    const { gameId } = record.game
+    this.stop(gameId)
+    const run = () => {
+      this.stop(gameId)
+      phase()
+    }
+    this.pending.set(gameId, run)
+    this.timers.set(gameId, setTimeout(run, delayMs))
+  }
+
+  private startRound(record: MockGame) {
+    const { game } = record
+    const start = Date.now()
+    const duration = game.config.roundDuration * 1000
+    const roundNumber = record.rounds.length + 1
+    const round: RoundData = {
+      roundNumber,
+      gameId: game.gameId,
+      status: 'trading',
+      eliminationRate: eliminationRateForRound(game.config, roundNumber) ?? DEFAULT_ELIMINATION_RATE,
+      blocksAtStart: game.aliveBlocks,
+      prizePoolSnapshot: game.prizePool,
+      startTime: new Date(start).toISOString(),
+      tradeCloseTime: new Date(start + duration).toISOString(),
+    }
+    record.rounds.push(round)
+    game.currentRound = round.roundNumber
+    this.db.refreshAggregates(record)
+
+    this.broadcast('round_started', {
+      gameId: game.gameId,
+      roundNumber: round.roundNumber,
+      duration,
+      eliminationRate: round.eliminationRate,
+    })
+    this.publishState(record)
+    this.onRoundStarted?.(record)
+    this.schedule(record, duration, () => {
+      this.closeTrading(record, round)
+      this.schedule(record, CLOSE_TO_VRF_MS, () => this.requestVRF(record, round))
+    })
+  }
+
+  private closeTrading(record: MockGame, round: RoundData) {
+    round.status = 'trading_closed'
+    this.engine.match(record)
+    this.engine.expireOrders(record)
+    this.broadcast('trading_closed', { gameId: record.game.gameId, roundNumber: round.roundNumber })
+  }
+
+  private requestVRF(record: MockGame, round: RoundData) {
+    round.status = 'vrf_requested'
+    this.publishState(record)
+    this.schedule(record, VRF_TO_REVEAL_MS, () => void this.reveal(record, round))
+  }
+
+  private async reveal(record: MockGame, round: RoundData, vrf?: { seed: string; proof?: string }) {
+    this.stop(record.game.gameId)
+    round.status = 'revealing'
+
+    const { seed, proof } = vrf ?? await randomVrf()
+    const alive = record.blocks.filter(b => b.status === 'alive')
+    const results: RoundResult[] = await Promise.all(alive.map(async block => {
+      const vrfValue = await mockVrfValue(seed, round.roundNumber, block.blockId)
+      return { blockId: block.blockId, eliminated: vrfValue < round.eliminationRate, vrfValue }
+    }))
+
+    const deltas: BlockDelta[] = results
+      .filter(r => r.eliminated)
+      .map(r => ({ kind: 'status', blockId: r.blockId, status: 'eliminated', eliminatedInRound: round.roundNumber }))
+    publishDeltas(this.db, this.broadcast, record, deltas)
+
+    record.results.set(round.roundNumber, results)
+    const survivorCount = results.length - deltas.length
+    Object.assign(round, {
+      status: 'completed',
+      vrfSeed: seed,
+      vrfProof: proof,
+      eliminatedCount: deltas.length,
+      survivorCount,
+      completedAt: new Date().toISOString(),
+    })
+    this.engine.expireOrders(record)
+
+    this.broadcast('round_completed', {
+      gameId: record.game.gameId,
+      roundNumber: round.roundNumber,
+      results,
+      eliminatedCount: deltas.length,
+      survivorCount,
+      eliminationRate: round.eliminationRate,
+      vrfSeed: seed,
+      vrfProof: proof,
+    })
+
+    if (survivorCount <= 1) {
+      const { game } = record
+      game.status = 'finished'
+      game.winnerId = record.blocks.find(b => b.status === 'alive')?.ownerId
+    } else {
+      this.schedule(record, INTERMISSION_MS, () => this.startRound(record))
+    }
+    this.publishState(record)
+  }
+
+  publishState(record: MockGame) {
+    this.broadcast('game_state_update', {
+      gameId: record.game.gameId,
+      game: { ...record.game },
+      blocks: this.db.soldBlocks(record).map(b => ({ ...b })),
+      currentRound: this.db.currentRound(record) && { ...this.db.currentRound(record)! },
+      seq: record.seq,
+    })
+  }
+}
@@ -0,0 +1,592 @@
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+import { IDEMPOTENCY_KEY_HEADER, setFetchTransport, type FetchTransport } from '../lib/api'
+import { isAdminAddress } from '../lib/admin'
+import { PACKED_BLOCKS_CONTENT_TYPE, PackedBlocks } from '../lib/blockCodec'
+import { setPaymentConnection, solToLamports } from '../lib/payments'
+import { verifyRequestSignature } from '../lib/signing'
+import { websocket, type SocketTransport } from '../lib/websocket'
+import {
+  MockDatabase,
+  MockHttpError,
+  publishDeltas,
+  type Broadcast,
+  type MockGame,
+} from './database'
+import { MockLedger } from './ledger'
+import { MatchingEngine } from './matchingEngine'
+import { RoundScheduler } from './roundScheduler'
+import type {
+  AdminActionRequest,
+  BlockDelta,
+  CancelOrderRequest,
+  ClientEventName,
+  CreateGameRequest,
+  CreateOrderRequest,
+  ForceVRFRequest,
+  GameLifecycleRequest,
+  GameStats,
+  MintBlocksRequest,
+  RefundPaymentRequest,
+  RequestSignature,
+  Signed,
+  SignedAction,
+} from '../shared/types'
+
+// In-browser stand-in for the game server: every gameAPI, orderAPI and
+// adminAPI route plus the socket events, backed by MockDatabase, a real
+// matching engine, a round scheduler and an in-memory ledger for mint
+// payments. Plugs into the fetch, socket and payment transports, so the rest
+// of the app can't tell it from the real thing.
+
+interface MockRequest {
+  params: string[]
+  query: URLSearchParams
+  body: unknown
+  accept: string
+}
+
+interface MockResponse {
+  status: number
+  body: unknown
+  contentType?: string
+}
+
+type RouteHandler = (request: MockRequest) => Promise<unknown> | unknown
+
+interface MockServerOptions {
+  // Simulated response time range in ms
+  latencyMs?: [number, number]
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+// Payloads go through JSON like on the wire, so clients never share objects
+// with the server state
+function wire<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+export class MockServer {
+  readonly db = new MockDatabase()
+  readonly engine: MatchingEngine
+  readonly scheduler: RoundScheduler
+  readonly ledger = new MockLedger()
+  private routes: { method: string; pattern: RegExp; handler: RouteHandler }[] = []
+  private rooms = new Set<string>()
+  private deliver: ((event: string, data: unknown) => void) | null = null
+  private idempotentResponses = new Map<string, MockResponse>()
+  private usedNonces = new Set<string>()
+  // Payment signatures already spent on a mint or refunded
+  private settledPayments = new Set<string>()
+  private latencyMs: [number, number]
+
+  constructor({ latencyMs = [30, 120] }: MockServerOptions = {}) {
+    this.latencyMs = latencyMs
+    this.engine = new MatchingEngine(this.db, this.broadcast)
+    this.scheduler = new RoundScheduler(this.db, this.engine, this.broadcast, record => this.simulatePlayers(record))
+    this.registerRoutes()
+  }
+
+  // Socket side
+
+  private broadcast: Broadcast = (event, data) => {
+    const gameId = (data as { gameId?: string }).gameId
+    if (!this.deliver || (gameId && !this.rooms.has(gameId))) return
+    const deliver = this.deliver
+    const payload = wire(data)
+    setTimeout(() => deliver(event, payload), 0)
+  }
+
+  readonly socket: SocketTransport = {
+    start: (deliver) => {
+      this.deliver = deliver
+    },
+    stop: () => {
+      this.deliver = null
+      this.rooms.clear()
+    },
+    send: (event: ClientEventName, data: unknown) => {
+      const { gameId } = data as { gameId?: string }
+      const record = gameId ? this.db.games.get(gameId) : undefined
+      switch (event) {
+        case 'join_game':
+          if (gameId) this.rooms.add(gameId)
+          break
+        case 'leave_game':
+          if (gameId) this.rooms.delete(gameId)
+          break
+        case 'request_game_state':
+          if (record) this.scheduler.publishState(record)
+          break
+        case 'request_order_book':
+          if (record) this.engine.publishBook(record)
+          break
+      }
+    },
+  }
+
+  // HTTP side
+
+  readonly fetch: FetchTransport = async (endpoint, init) => {
+    const method = (init.method ?? 'GET').toUpperCase()
+    const headers = (init.headers ?? {}) as Record<string, string>
+    const [min, max] = this.latencyMs
+    await delay(min + Math.random() * (max - min), init.signal)
+
+    const idempotencyKey = method !== 'GET' ? headers[IDEMPOTENCY_KEY_HEADER] : undefined
+    let response = idempotencyKey ? this.idempotentResponses.get(idempotencyKey) : undefined
+    if (!response) {
+      response = await this.dispatch(method, endpoint, init.body, headers.Accept ?? '')
+      if (idempotencyKey && response.status < 500) {
+        this.idempotentResponses.set(idempotencyKey, response)
+      }
+    }
+
+    if (response.body instanceof ArrayBuffer) {
+      return new Response(response.body, {
+        status: response.status,
+        headers: { 'Content-Type': response.contentType ?? 'application/octet-stream' },
+      })
+    }
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  private async dispatch(method: string, endpoint: string, rawBody: unknown, accept: string): Promise<MockResponse> {
+    const url = new URL(endpoint, 'http://mock')
+    try {
+      for (const route of this.routes) {
+        if (route.method !== method) continue
+        const match = route.pattern.exec(url.pathname)
+        if (!match) continue
+        const body = typeof rawBody === 'string' && rawBody ? JSON.parse(rawBody) : {}
+        const result = await route.handler({ params: match.slice(1), query: url.searchParams, body, accept })
+        if (result instanceof PackedBlocks) {
+          return { status: 200, body: result.encode(), contentType: PACKED_BLOCKS_CONTENT_TYPE }
+        }
+        return { status: 200, body: { success: true, ...wire(result as object) } }
+      }
+      throw new MockHttpError(404, `No mock route for ${method} ${url.pathname}`)
+    } catch (error) {
+      const status = error instanceof MockHttpError ? error.status : 500
+      const message = error instanceof Error ? error.message : String(error)
+      if (status === 500) console.error('Mock backend error:', error)
+      return { status, body: { success: false, error: message } }
+    }
+  }
+
+  private route(method: string, path: string, handler: RouteHandler) {
+    // ':param' segments capture one path segment each
+    const pattern = new RegExp(`^${path.replace(/:[a-zA-Z]+/g, '([^/]+)')}$`)
+    this.routes.push({ method, pattern, handler })
+  }
+
+  // Mirrors the server's check: fresh, unused, covering this body and signed
+  // by the party the request acts for
+  private async verify(
+    signature: RequestSignature | undefined,
+    action: SignedAction,
+    gameId: string,
+    signer: string,
+    payload: unknown
+  ) {
+    if (!signature) throw new MockHttpError(401, 'Missing request signature')
+    const check = await verifyRequestSignature(signature, payload, { action, gameId, address: signer })
+    if (!check.valid) {
+      const status = check.reason === 'wrong_signer' ? 403 : 401
+      throw new MockHttpError(status, `Invalid signature: ${check.reason}`)
+    }
+    if (this.usedNonces.has(signature.nonce)) {
+      throw new MockHttpError(409, 'Signature nonce already used')
+    }
+    this.usedNonces.add(signature.nonce)
+  }
+
+  // Only the wallet that created a game moves it through its lifecycle
+  private async verifyCreator(
+    signature: RequestSignature | undefined,
+    action: SignedAction,
+    record: MockGame,
+    payload: GameLifecycleRequest
+  ) {
+    if (!record.game.creatorAddress || payload.creatorAddress !== record.game.creatorAddress) {
+      throw new MockHttpError(403, 'Only the game creator can do this')
+    }
+    await this.verify(signature, action, record.game.gameId, payload.creatorAddress, payload)
+  }
+
+  // Destructive admin routes take a request signed by an admin wallet
+  private async verifyAdmin(
+    signature: RequestSignature | undefined,
+    action: SignedAction,
+    gameId: string,
+    payload: AdminActionRequest
+  ) {
+    await this.verify(signature, action, gameId, payload.adminAddress, payload)
+    if (!isAdminAddress(payload.adminAddress)) {
+      throw new MockHttpError(403, 'Wallet is not an admin')
+    }
+  }
+
+  // A mint or refund needs a finalized transfer from the buyer to the game
+  // treasury that no earlier mint or refund has used
+  private checkPayment(record: MockGame, buyer: string, paymentSignature: string | undefined, amount?: number) {
+    const transfer = this.ledger.finalizedTransfer(paymentSignature)
+    if (transfer.from !== buyer || transfer.to !== (record.game.config.treasuryAddress ?? MOCK_TREASURY)) {
+      throw new MockHttpError(400, 'Payment is not a transfer from the buyer to the game treasury')
+    }
+    if (amount !== undefined && transfer.lamports < solToLamports(amount)) {
+      throw new MockHttpError(400, `Payment of ${transfer.lamports} lamports does not cover ${amount} SOL`)
+    }
+    if (this.settledPayments.has(transfer.signature)) {
+      throw new MockHttpError(409, 'Payment already used')
+    }
+  }
+
+  private registerRoutes() {
+    const { db, engine, scheduler } = this
+    const withGame = (handler: (record: MockGame, request: MockRequest) => unknown): RouteHandler =>
+      (request) => handler(db.get(request.params[0]), request)
+
+    // Games
+    this.route('GET', '/games', () => ({
+      games: [...db.games.values()].map(r => r.game).filter(g => g.status !== 'cancelled'),
+    }))
+
+    this.route('POST', '/games', async (request) => {
+      const { signature, ...body } = request.body as Signed<CreateGameRequest>
+      await this.verify(signature, 'create_game', '', body.creatorAddress, body)
+      const { rows, cols } = body.config?.gridSize ?? {}
+      if (!body.title || !(rows > 0) || !(cols > 0)) {
+        throw new MockHttpError(400, 'Game needs a title and a grid size')
+      }
+      const rates = [body.config.eliminationRate, ...(body.config.eliminationSchedule ?? [])]
+      if (rates.some(rate => rate !== undefined && !(rate > 0 && rate < 1))) {
+        throw new MockHttpError(400, 'Elimination rates must be between 0 and 1')
+      }
+      const config = { ...body.config, treasuryAddress: body.config.treasuryAddress ?? MOCK_TREASURY }
+      return { game: db.createGame(body.title, config, body.creatorAddress, body.description).game }
+    })
+
+    this.route('GET', '/games/:id', withGame((record, { query }) => ({
+      game: record.game,
+      blocks: query.get('blocks') === 'none' ? undefined : db.soldBlocks(record),
+      currentRound: db.currentRound(record),
+      seq: record.seq,
+    })))
+
+    this.route('POST', '/games/:id/start-minting', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<GameLifecycleRequest>
+      await this.verifyCreator(signature, 'start_minting', record, payload)
+      if (record.game.status !== 'pending') {
+        throw new MockHttpError(409, `Game is already ${record.game.status}`)
+      }
+      record.game.status = 'minting'
+      scheduler.publishState(record)
+      return { game: record.game }
+    }))
+
+    this.route('POST', '/games/:id/start-game', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<GameLifecycleRequest>
+      await this.verifyCreator(signature, 'start_game', record, payload)
+      scheduler.startGame(record)
+      return { game: record.game }
+    }))
+
+    this.route('POST', '/games/:id/mint', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<MintBlocksRequest>
+      await this.verify(signature, 'mint', record.game.gameId, payload.buyerAddress, payload)
+      this.checkPayment(record, payload.buyerAddress, payload.paymentSignature, payload.paymentAmount)
+      const blocks = this.mint(record, payload)
+      this.settledPayments.add(payload.paymentSignature!)
+      return { blocks }
+    }))
+
+    this.route('POST', '/games/:id/refunds', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<RefundPaymentRequest>
+      await this.verify(signature, 'refund_payment', record.game.gameId, payload.buyerAddress, payload)
+      this.checkPayment(record, payload.buyerAddress, payload.paymentSignature)
+      this.settledPayments.add(payload.paymentSignature)
+      return {}
+    }))
+
+    // Packed binary snapshot when the client accepts it, JSON otherwise
+    this.route('GET', '/games/:id/blocks', withGame((record, { accept }) =>
+      accept.includes(PACKED_BLOCKS_CONTENT_TYPE)
+        ? PackedBlocks.fromBlocks(db.soldBlocks(record), record.game.totalBlocks, record.seq)
+        : { blocks: db.soldBlocks(record) }
+    ))
+
+    this.route('GET', '/games/:id/blocks/player/:address', withGame((record, { params }) => ({
+      blocks: db.soldBlocks(record).filter(b => b.ownerId === params[1]),
+    })))
+
+    this.route('GET', '/games/:id/rounds', withGame(record => ({ rounds: record.rounds })))
+
+    this.route('GET', '/games/:id/rounds/current', withGame(record => ({ round: db.currentRound(record) })))
+
+    this.route('GET', '/games/:id/stats', withGame((record): { stats: GameStats } => ({
+      stats: {
+        totalBlocks: record.game.totalBlocks,
+        soldBlocks: record.game.soldBlocks,
+        aliveBlocks: record.game.aliveBlocks,
+        eliminatedBlocks: record.blocks.filter(b => b.status === 'eliminated').length,
+        uniquePlayers: db.uniquePlayers(record),
+        prizePool: record.game.prizePool,
+        currentEV: record.game.currentEV,
+        roundsCompleted: record.rounds.filter(r => r.status === 'completed').length,
+      },
+    })))
+
+    this.route('POST', '/games/:id/rounds/:round/reveal', withGame((record, { params }) => {
+      const results = record.results.get(Number(params[1]))
+      if (!results) throw new MockHttpError(409, `Round ${params[1]} has not been revealed`)
+      return { results }
+    }))
+
+    // Orders
+    this.route('POST', '/orders', async ({ body }) => {
+      const { signature, ...payload } = body as Signed<CreateOrderRequest>
+      const record = db.get(payload.gameId)
+      await this.verify(signature, 'create_order', payload.gameId, payload.userId, payload)
+      return { order: engine.placeOrder(record, payload) }
+    })
+
+    this.route('DELETE', '/orders/:id', async ({ params, body }) => {
+      const { signature, ...payload } = body as Signed<CancelOrderRequest>
+      const { record } = db.findOrder(params[0])
+      await this.verify(signature, 'cancel_order', record.game.gameId, payload.userId, {
+        orderId: params[0],
+        ...payload,
+      })
+      engine.cancelOrder(params[0], payload.userId)
+      return {}
+    })
+
+    this.route('GET', '/orders/game/:id', withGame(record => ({ orderBook: engine.orderBook(record) })))
+
+    this.route('GET', '/orders/game/:id/user/:user', withGame((record, { params }) => ({
+      orders: engine.userOrders(record, params[1]),
+    })))
+
+    this.route('GET', '/orders/game/:id/history', withGame((record, { query }) => {
+      const limit = Number(query.get('limit')) || 50
+      const before = query.get('before')
+      const cursor = before ? record.trades.findIndex(t => t.tradeId === before) : -1
+      const older = cursor >= 0 ? record.trades.slice(0, cursor) : record.trades
+      return { trades: older.slice(-limit).reverse() }
+    }))
+
+    this.route('GET', '/orders/game/:id/stats', withGame(record => ({ stats: engine.marketStats(record) })))
+
+    this.route('POST', '/orders/game/:id/match', withGame(record => {
+      const matches = engine.match(record)
+      if (matches > 0) engine.publishBook(record)
+      return { matches }
+    }))
+
+    // Admin
+    this.route('GET', '/admin/status', () => ({
+      status: {
+        uptime: Math.floor((Date.now() - db.startedAt) / 1000),
+        activeGames: [...db.games.values()].filter(r => r.game.status === 'active').length,
+        connectedClients: this.deliver ? 1 : 0,
+        schedulerRunning: true,
+        version: 'mock',
+      },
+    }))
+
+    this.route('POST', '/admin/seed-demo-game', () => ({ game: seedDemoGame(this).game }))
+
+    this.route('POST', '/admin/games/:id/force-vrf', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<ForceVRFRequest>
+      await this.verifyAdmin(signature, 'admin_force_vrf', record.game.gameId, payload)
+      await scheduler.forceVRF(record, payload.roundNumber, payload.seed)
+      return {}
+    }))
+
+    this.route('POST', '/admin/games/:id/force-round', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<AdminActionRequest>
+      await this.verifyAdmin(signature, 'admin_force_round', record.game.gameId, payload)
+      scheduler.forceRound(record)
+      return {}
+    }))
+
+    this.route('GET', '/admin/games/:id/debug', withGame(record => ({
+      debug: {
+        seq: record.seq,
+        status: record.game.status,
+        rounds: record.rounds.length,
+        currentRound: db.currentRound(record),
+        orders: record.orders.size,
+        openOrders: engine.orderBook(record).asks.length + engine.orderBook(record).bids.length,
+        trades: record.trades.length,
+        uniquePlayers: db.uniquePlayers(record),
+        joined: this.rooms.has(record.game.gameId),
+      },
+    })))
+
+    this.route('DELETE', '/admin/games/:id', withGame(async (record, { body }) => {
+      const { signature, ...payload } = body as Signed<AdminActionRequest>
+      await this.verifyAdmin(signature, 'admin_delete_game', record.game.gameId, payload)
+      scheduler.stop(record.game.gameId)
+      db.games.delete(record.game.gameId)
+      return {}
+    }))
+
+    this.route('GET', '/admin/games', ({ query }) => {
+      const status = query.get('status')
+      const limit = Number(query.get('limit')) || Infinity
+      return {
+        games: [...db.games.values()]
+          .map(r => r.game)
+          .filter(g => !status || g.status === status)
+          .slice(0, limit),
+      }
+    })
+  }
+
+  // Sells the requested blocks (or `quantity` random unsold ones) to the buyer
+  mint(record: MockGame, request: MintBlocksRequest) {
+    const { game } = record
+    if (game.status !== 'minting') {
+      throw new MockHttpError(409, 'Game is not minting')
+    }
+
+    let blockIds = request.blockIds
+    if (!blockIds?.length) {
+      const unsold = record.blocks.filter(b => b.status === 'unsold').map(b => b.blockId)
+      const quantity = Math.floor(request.quantity ?? 0)
+      if (quantity < 1) throw new MockHttpError(400, 'Give blockIds or a quantity')
+      if (quantity > unsold.length) throw new MockHttpError(409, 'Not enough unsold blocks')
+      blockIds = unsold.sort(() => Math.random() - 0.5).slice(0, quantity)
+    }
+    for (const blockId of blockIds) {
+      const block = record.blocks[blockId]
+      if (!block) throw new MockHttpError(400, `Block ${blockId} does not exist`)
+      if (block.status !== 'unsold') throw new MockHttpError(409, `Block ${blockId} is already sold`)
+    }
+    const cost = blockIds.length * game.config.blockPrice
+    if (request.paymentAmount + 1e-9 < cost) {
+      throw new MockHttpError(400, `Payment of ${request.paymentAmount} SOL does not cover ${cost} SOL`)
+    }
+
+    const purchasedAt = new Date().toISOString()
+    const deltas: BlockDelta[] = blockIds.flatMap(blockId => [
+      { kind: 'owner' as const, blockId, ownerId: request.buyerAddress, purchasePrice: game.config.blockPrice, purchasedAt },
+      { kind: 'status' as const, blockId, status: 'alive' as const },
+    ])
+    publishDeltas(this.db, this.broadcast, record, deltas)
+    return blockIds.map(blockId => record.blocks[blockId])
+  }
+
+  // Simulated players keep the order book moving: a few asks on their own
+  // blocks and a bid or two around the current EV
+  private simulatePlayers(record: MockGame) {
+    const bots = new Set(DEMO_PLAYERS)
+    const ev = record.game.currentEV || record.game.config.blockPrice
+    const owned = record.blocks.filter(b => b.status === 'alive' && b.ownerId && bots.has(b.ownerId))
+    const place = (request: Omit<CreateOrderRequest, 'gameId'>) => {
+      try {
+        this.engine.placeOrder(record, { ...request, gameId: record.game.gameId })
+      } catch {
+        // Bots just skip orders the engine refuses
+      }
+    }
+
+    for (const block of owned.sort(() => Math.random() - 0.5).slice(0, 3)) {
+      place({ userId: block.ownerId!, type: 'ask', blockId: block.blockId, price: round4(ev * (1.05 + Math.random() * 0.3)), quantity: 1 })
+    }
+    for (const userId of DEMO_PLAYERS.slice(0, 2)) {
+      place({ userId, type: 'any_bid', price: round4(ev * (0.8 + Math.random() * 0.15)), quantity: 1 + Math.floor(Math.random() * 3) })
+    }
+  }
+
+  dispose() {
+    this.scheduler.dispose()
+    this.socket.stop()
+  }
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10_000) / 10_000
+}
+
+// Deterministic-looking base58 addresses for the simulated players
+const DEMO_PLAYERS = Array.from({ length: 6 }, (_, i) =>
+  bs58.encode(nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(i + 1)).publicKey)
+)
+
+// Treasury of the seeded games; payments to it settle on the mock ledger
+const MOCK_TREASURY = bs58.encode(nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(255)).publicKey)
+
+// A running game: most blocks sold to simulated players, round 1 trading
+export function seedDemoGame(server: MockServer, rows = 20, cols = 20): MockGame {
+  const record = server.db.createGame('Demo Arena', {
+    gridSize: { rows, cols },
+    blockPrice: 0.1,
+    feeRate: 0.05,
+    roundDuration: 60,
+    eliminationRate: 0.25,
+    treasuryAddress: MOCK_TREASURY,
+  }, DEMO_PLAYERS[0], 'Simulated game served by the in-browser mock backend')
+  record.game.status = 'minting'
+  seedMint(server, record, 0.7)
+  server.scheduler.startGame(record)
+  return record
+}
+
+function seedMint(server: MockServer, record: MockGame, share: number) {
+  const count = Math.floor(record.game.totalBlocks * share)
+  for (let i = 0; i < count; i += 50) {
+    const buyerAddress = DEMO_PLAYERS[(i / 50) % DEMO_PLAYERS.length]
+    const quantity = Math.min(50, count - i)
+    server.mint(record, { buyerAddress, quantity, paymentAmount: quantity * record.game.config.blockPrice })
+  }
+}
+
+function seedGames(server: MockServer) {
+  seedDemoGame(server)
+
+  // Large grid still minting, to exercise the canvas renderers
+  const large = server.db.createGame('Mega Grid', {
+    gridSize: { rows: 100, cols: 100 },
+    blockPrice: 0.01,
+    feeRate: 0.05,
+    roundDuration: 120,
+    eliminationRate: 0.3,
+    treasuryAddress: MOCK_TREASURY,
+  }, DEMO_PLAYERS[1], '10,000 blocks, minting now')
+  large.game.status = 'minting'
+  seedMint(server, large, 0.3)
+}
+
+let activeServer: MockServer | null = null
+
+// Routes all API and socket traffic to a fresh mock server with demo games
+export function startMockBackend(options?: MockServerOptions): MockServer {
+  activeServer?.dispose()
+  const server = new MockServer(options)
+  seedGames(server)
+  setFetchTransport(server.fetch)
+  websocket.setTransport(server.socket)
+  setPaymentConnection(server.ledger)
+  activeServer = server
+  console.log('🧪 Mock backend active: API and socket traffic stays in the browser')
+  return server
+}
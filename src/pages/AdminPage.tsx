@@ -0,0 +1,566 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  ArrowLeft,
+  RefreshCw,
+  AlertCircle,
+  ShieldAlert,
+  Activity,
+  Users,
+  Clock,
+  Server,
+  Search,
+  Bug,
+  FastForward,
+  Dices,
+  Trash2,
+  ExternalLink,
+  Loader2,
+  X
+} from 'lucide-react'
+import { adminAPI, isAbortError } from '../lib/api'
+import { isAdminAddress } from '../lib/admin'
+import { signRequest } from '../lib/signing'
+import { cn, formatSOL, formatDate } from '../lib/utils'
+import { useWallet } from '../hooks/useWallet'
+import { WalletButton } from '../components/WalletButton'
+import { getRoundNumber, type GameData, type GameStatus, type SystemStatus } from '../shared/types'
+
+const STATUS_FILTERS: Array<GameStatus | ''> = ['', 'pending', 'minting', 'active', 'finished', 'cancelled']
+const STATUS_REFRESH_MS = 10000
+
+type PendingAction =
+  | { kind: 'delete'; game: GameData }
+  | { kind: 'force-round'; game: GameData }
+  | { kind: 'force-vrf'; game: GameData }
+
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${mins}m`
+  return `${mins}m ${seconds % 60}s`
+}
+
+interface ConfirmDialogProps {
+  title: string
+  message: React.ReactNode
+  confirmLabel: string
+  danger?: boolean
+  busy: boolean
+  error: string | null
+  onConfirm: () => void
+  onCancel: () => void
+  children?: React.ReactNode
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  title,
+  message,
+  confirmLabel,
+  danger,
+  busy,
+  error,
+  onConfirm,
+  onCancel,
+  children
+}) => (
+  <div className="fixed inset-0 z-40 bg-black/50 flex items-center justify-center p-4" onClick={busy ? undefined : onCancel}>
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="bg-white rounded-lg shadow-xl w-full max-w-md"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <button onClick={onCancel} disabled={busy} className="p-1 rounded hover:bg-gray-100 disabled:opacity-50">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="p-4 space-y-4">
+        <div className="text-sm text-gray-700">{message}</div>
+        {children}
+        {error && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2 p-4 border-t">
+        <button
+          onClick={onCancel}
+          disabled={busy}
+          className="px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={busy}
+          className={cn(
+            'flex items-center gap-2 px-4 py-2 rounded text-sm text-white disabled:opacity-50',
+            danger ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+          )}
+        >
+          {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+          {confirmLabel}
+        </button>
+      </div>
+    </motion.div>
+  </div>
+)
+
+interface DebugInspectorProps {
+  game: GameData
+  onClose: () => void
+}
+
+// Raw debug info of one game, as the backend reports it
+const DebugInspector: React.FC<DebugInspectorProps> = ({ game, onClose }) => {
+  const [debug, setDebug] = useState<Record<string, unknown> | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reloads, setReloads] = useState(0)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+    adminAPI.getDebugInfo(game.gameId, { signal: controller.signal })
+      .then(setDebug)
+      .catch(err => {
+        if (isAbortError(err)) return
+        setError(err instanceof Error ? err.message : 'Failed to load debug info')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [game.gameId, reloads])
+
+  return (
+    <div className="bg-white rounded-lg border">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="font-semibold flex items-center gap-2">
+          <Bug className="w-4 h-4" />
+          Debug: {game.title}
+          <span className="font-mono text-xs text-gray-500">{game.gameId}</span>
+        </h2>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setReloads(n => n + 1)} disabled={loading} className="p-1 rounded hover:bg-gray-100 disabled:opacity-50">
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="p-4">
+        {error ? (
+          <div className="text-sm text-red-600">{error}</div>
+        ) : debug ? (
+          <pre className="text-xs font-mono bg-gray-50 rounded p-3 overflow-x-auto max-h-96">
+            {JSON.stringify(debug, null, 2)}
+          </pre>
+        ) : (
+          <div className="text-sm text-gray-500">Loading…</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Operator console over adminAPI; only rendered for admin wallets
+export const AdminPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { address, signer, status: walletStatus } = useWallet()
+  const isAdmin = isAdminAddress(address)
+
+  const [systemStatus, setSystemStatus] = useState<SystemStatus | null>(null)
+  const [statusError, setStatusError] = useState<string | null>(null)
+  const [games, setGames] = useState<GameData[]>([])
+  const [gamesLoading, setGamesLoading] = useState(false)
+  const [gamesError, setGamesError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<GameStatus | ''>('')
+  const [search, setSearch] = useState('')
+  const [inspecting, setInspecting] = useState<GameData | null>(null)
+
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [vrfRound, setVrfRound] = useState('')
+  const [vrfSeed, setVrfSeed] = useState('')
+  const [actionBusy, setActionBusy] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setSystemStatus(await adminAPI.getStatus())
+      setStatusError(null)
+    } catch (err) {
+      setStatusError(err instanceof Error ? err.message : 'Failed to load system status')
+    }
+  }, [])
+
+  const loadGames = useCallback(async () => {
+    setGamesLoading(true)
+    setGamesError(null)
+    try {
+      setGames(await adminAPI.getAllGames(statusFilter || undefined))
+    } catch (err) {
+      setGamesError(err instanceof Error ? err.message : 'Failed to load games')
+    } finally {
+      setGamesLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    if (!isAdmin) return
+    loadStatus()
+    const interval = setInterval(loadStatus, STATUS_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [isAdmin, loadStatus])
+
+  useEffect(() => {
+    if (isAdmin) loadGames()
+  }, [isAdmin, loadGames])
+
+  const openAction = (action: PendingAction) => {
+    setPending(action)
+    setActionError(null)
+    if (action.kind === 'force-vrf') {
+      setVrfRound(String(Math.max(1, getRoundNumber(action.game))))
+      setVrfSeed('')
+    }
+  }
+
+  const runAction = async () => {
+    if (!pending) return
+    if (!signer) {
+      setActionError('Connect the admin wallet')
+      return
+    }
+    const { game } = pending
+    setActionBusy(true)
+    setActionError(null)
+    try {
+      const body = { adminAddress: signer.address }
+      if (pending.kind === 'delete') {
+        const signature = await signRequest(signer, 'admin_delete_game', game.gameId, body)
+        await adminAPI.deleteGame(game.gameId, { ...body, signature })
+        if (inspecting?.gameId === game.gameId) setInspecting(null)
+        setNotice(`Deleted "${game.title}"`)
+      } else if (pending.kind === 'force-round') {
+        const signature = await signRequest(signer, 'admin_force_round', game.gameId, body)
+        await adminAPI.forceRound(game.gameId, { ...body, signature })
+        setNotice(`Forced the next round of "${game.title}"`)
+      } else {
+        const roundNumber = Number(vrfRound)
+        if (!Number.isInteger(roundNumber) || roundNumber < 1) {
+          throw new Error('Round number must be a positive integer')
+        }
+        const payload = { ...body, roundNumber, seed: vrfSeed.trim() || undefined }
+        const signature = await signRequest(signer, 'admin_force_vrf', game.gameId, payload)
+        await adminAPI.forceVRF(game.gameId, { ...payload, signature })
+        setNotice(`Forced VRF for round ${roundNumber} of "${game.title}"`)
+      }
+      setPending(null)
+      loadGames()
+      loadStatus()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setActionBusy(false)
+    }
+  }
+
+  const query = search.trim().toLowerCase()
+  const visibleGames = query
+    ? games.filter(g => g.title.toLowerCase().includes(query) || g.gameId.toLowerCase().includes(query))
+    : games
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg border p-8 max-w-md w-full text-center space-y-4">
+          {walletStatus === 'connecting' ? (
+            <RefreshCw className="w-8 h-8 animate-spin text-gray-400 mx-auto" />
+          ) : (
+            <>
+              <ShieldAlert className="w-12 h-12 text-red-500 mx-auto" />
+              <h1 className="text-xl font-bold">Admin access required</h1>
+              <p className="text-gray-600 text-sm">
+                {address
+                  ? 'The connected wallet is not an admin.'
+                  : 'Connect an admin wallet to open the console.'}
+              </p>
+              <div className="flex justify-center gap-2">
+                <WalletButton />
+                <button
+                  onClick={() => navigate('/')}
+                  className="px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                >
+                  Back to games
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded">
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="text-xl md:text-2xl font-bold text-gray-900">Admin Console</h1>
+            </div>
+            <WalletButton />
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {notice && (
+          <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded text-sm text-green-800">
+            {notice}
+            <button onClick={() => setNotice(null)} className="p-1 rounded hover:bg-green-100">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* System status */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold">System status</h2>
+            <button onClick={loadStatus} className="p-2 text-gray-600 hover:text-gray-900">
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+          {statusError && (
+            <div className="flex items-center gap-2 p-3 mb-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {statusError}
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white p-4 rounded-lg border">
+              <div className="flex items-center gap-2 text-gray-500 text-sm"><Clock className="w-4 h-4" />Uptime</div>
+              <div className="text-xl font-bold mt-1">{systemStatus ? formatUptime(systemStatus.uptime) : '—'}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg border">
+              <div className="flex items-center gap-2 text-gray-500 text-sm"><Activity className="w-4 h-4" />Active games</div>
+              <div className="text-xl font-bold mt-1 text-green-600">{systemStatus?.activeGames ?? '—'}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg border">
+              <div className="flex items-center gap-2 text-gray-500 text-sm"><Users className="w-4 h-4" />Connected clients</div>
+              <div className="text-xl font-bold mt-1 text-blue-600">{systemStatus?.connectedClients ?? '—'}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg border">
+              <div className="flex items-center gap-2 text-gray-500 text-sm"><Server className="w-4 h-4" />Scheduler</div>
+              <div className={cn(
+                'text-xl font-bold mt-1',
+                systemStatus && (systemStatus.schedulerRunning ? 'text-green-600' : 'text-red-600')
+              )}>
+                {systemStatus ? (systemStatus.schedulerRunning ? 'Running' : 'Stopped') : '—'}
+              </div>
+              {systemStatus?.version && (
+                <div className="text-xs text-gray-500 mt-1">v{systemStatus.version}</div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Games */}
+        <div className="bg-white rounded-lg border">
+          <div className="flex flex-wrap items-center gap-3 p-4 border-b">
+            <h2 className="text-lg font-semibold mr-auto">All games</h2>
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Title or game id"
+                className="pl-8 pr-3 py-1.5 border rounded text-sm"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={e => setStatusFilter(e.target.value as GameStatus | '')}
+              className="px-3 py-1.5 border rounded text-sm"
+            >
+              {STATUS_FILTERS.map(s => (
+                <option key={s} value={s}>{s ? s : 'All statuses'}</option>
+              ))}
+            </select>
+            <button onClick={loadGames} disabled={gamesLoading} className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50">
+              <RefreshCw className={cn('w-4 h-4', gamesLoading && 'animate-spin')} />
+            </button>
+          </div>
+
+          {gamesError ? (
+            <div className="p-4 text-sm text-red-600">{gamesError}</div>
+          ) : visibleGames.length === 0 ? (
+            <div className="p-8 text-center text-sm text-gray-500">
+              {gamesLoading ? 'Loading games…' : 'No games match.'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-2">Game</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Round</th>
+                    <th className="px-4 py-2">Alive / Sold</th>
+                    <th className="px-4 py-2">Prize pool</th>
+                    <th className="px-4 py-2">Created</th>
+                    <th className="px-4 py-2 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleGames.map(game => (
+                    <tr
+                      key={game.gameId}
+                      className={cn('border-t', inspecting?.gameId === game.gameId && 'bg-blue-50')}
+                    >
+                      <td className="px-4 py-2">
+                        <div className="font-medium">{game.title}</div>
+                        <div className="font-mono text-xs text-gray-500">{game.gameId}</div>
+                      </td>
+                      <td className="px-4 py-2">{game.status}</td>
+                      <td className="px-4 py-2">{getRoundNumber(game)}</td>
+                      <td className="px-4 py-2">
+                        {game.aliveBlocks.toLocaleString()} / {game.soldBlocks.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2">{formatSOL(game.prizePool)}</td>
+                      <td className="px-4 py-2 text-gray-500">{formatDate(game.createdAt)}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => navigate(`/game/${game.gameId}`)}
+                            title="Open game"
+                            className="p-1.5 rounded hover:bg-gray-100"
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setInspecting(game)}
+                            title="Inspect"
+                            className="p-1.5 rounded hover:bg-gray-100"
+                          >
+                            <Bug className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openAction({ kind: 'force-round', game })}
+                            disabled={game.status !== 'active'}
+                            title="Force round"
+                            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-30"
+                          >
+                            <FastForward className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openAction({ kind: 'force-vrf', game })}
+                            disabled={game.status !== 'active'}
+                            title="Force VRF"
+                            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-30"
+                          >
+                            <Dices className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openAction({ kind: 'delete', game })}
+                            title="Delete"
+                            className="p-1.5 rounded text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {inspecting && (
+          <DebugInspector
+            key={inspecting.gameId}
+            game={inspecting}
+            onClose={() => setInspecting(null)}
+          />
+        )}
+      </div>
+
+      <AnimatePresence>
+        {pending?.kind === 'delete' && (
+          <ConfirmDialog
+            title="Delete game"
+            message={<>Permanently delete <strong>{pending.game.title}</strong>? Its blocks, orders and history are removed.</>}
+            confirmLabel="Delete"
+            danger
+            busy={actionBusy}
+            error={actionError}
+            onConfirm={runAction}
+            onCancel={() => setPending(null)}
+          />
+        )}
+        {pending?.kind === 'force-round' && (
+          <ConfirmDialog
+            title="Force round"
+            message={<>Close trading and run the next elimination of <strong>{pending.game.title}</strong> now?</>}
+            confirmLabel="Force round"
+            danger
+            busy={actionBusy}
+            error={actionError}
+            onConfirm={runAction}
+            onCancel={() => setPending(null)}
+          />
+        )}
+        {pending?.kind === 'force-vrf' && (
+          <ConfirmDialog
+            title="Force VRF"
+            message={<>Run the VRF reveal for <strong>{pending.game.title}</strong>. Leave the seed empty to let the backend generate one.</>}
+            confirmLabel="Force VRF"
+            danger
+            busy={actionBusy}
+            error={actionError}
+            onConfirm={runAction}
+            onCancel={() => setPending(null)}
+          >
+            <div className="space-y-3">
+              <label className="block text-sm font-medium">
+                Round number
+                <input
+                  type="number"
+                  min={1}
+                  value={vrfRound}
+                  onChange={e => setVrfRound(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border rounded text-sm"
+                />
+              </label>
+              <label className="block text-sm font-medium">
+                Seed (optional)
+                <input
+                  value={vrfSeed}
+                  onChange={e => setVrfSeed(e.target.value)}
+                  placeholder="Generated by the backend"
+                  className="mt-1 w-full px-3 py-2 border rounded font-mono text-sm"
+                />
+              </label>
+            </div>
+          </ConfirmDialog>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
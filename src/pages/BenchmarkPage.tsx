@@ -0,0 +1,125 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowLeft, Cpu, Play, Square } from 'lucide-react'
+import { useVRFBenchmark, usePerformanceMonitor } from '../hooks/useWebWorker'
+import { DEFAULT_BENCHMARK_SIZES } from '../lib/vrfBenchmark'
+import { defaultPoolSize } from '../lib/workerPool'
+import { cn } from '../lib/utils'
+
+function formatRate(perSecond: number): string {
+  return perSecond >= 1000 ? `${(perSecond / 1000).toFixed(1)}k/s` : `${perSecond.toFixed(0)}/s`
+}
+
+// Dev page: VRF elimination throughput on one worker vs the worker pool
+export const BenchmarkPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { run, cancel, results, running, progress } = useVRFBenchmark()
+  const { getAllMetrics } = usePerformanceMonitor()
+  const [sizes, setSizes] = useState(DEFAULT_BENCHMARK_SIZES.join(', '))
+
+  const start = () => {
+    const gridSizes = sizes
+      .split(',')
+      .map(s => Number(s.trim().replace(/_/g, '')))
+      .filter(n => Number.isInteger(n) && n > 0)
+    run(gridSizes).catch(error => console.error('Benchmark failed:', error))
+  }
+
+  const singleWorker = new Map(results.filter(r => r.workers === 1).map(r => [r.blocks, r]))
+  const metrics = Object.entries(getAllMetrics())
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto p-4 md:p-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-200 rounded">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-2xl font-bold">VRF Worker Benchmark</h1>
+        </div>
+
+        <div className="bg-white p-4 rounded-lg border space-y-3">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Cpu className="w-4 h-4" />
+            {defaultPoolSize()} workers available (navigator.hardwareConcurrency)
+          </div>
+          <label className="block text-sm font-medium">
+            Grid sizes (blocks, comma separated)
+            <input
+              value={sizes}
+              onChange={e => setSizes(e.target.value)}
+              disabled={running}
+              className="mt-1 w-full px-3 py-2 border rounded font-mono text-sm"
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={running ? cancel : start}
+              className={cn(
+                'flex items-center gap-2 px-4 py-2 text-white rounded transition-colors',
+                running ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              )}
+            >
+              {running ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {running ? 'Cancel' : 'Run benchmark'}
+            </button>
+            {running && (
+              <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress * 100}%` }} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {results.length > 0 && (
+          <div className="bg-white rounded-lg border overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 text-left">
+                <tr>
+                  <th className="px-4 py-2">Blocks</th>
+                  <th className="px-4 py-2">Workers</th>
+                  <th className="px-4 py-2">Time</th>
+                  <th className="px-4 py-2">Throughput</th>
+                  <th className="px-4 py-2">Speedup</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => {
+                  const baseline = singleWorker.get(result.blocks)
+                  return (
+                    <tr key={`${result.blocks}-${result.workers}`} className="border-t">
+                      <td className="px-4 py-2 font-mono">{result.blocks.toLocaleString()}</td>
+                      <td className="px-4 py-2">{result.workers}</td>
+                      <td className="px-4 py-2">{(result.durationMs / 1000).toFixed(2)}s</td>
+                      <td className="px-4 py-2">{formatRate(result.throughput)}</td>
+                      <td className="px-4 py-2">
+                        {baseline ? `${(baseline.durationMs / result.durationMs).toFixed(2)}x` : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {metrics.length > 0 && (
+          <div className="bg-white p-4 rounded-lg border">
+            <h2 className="font-semibold mb-2">Performance metrics</h2>
+            <div className="space-y-1 text-sm font-mono">
+              {metrics.map(([operation, metric]) => (
+                <div key={operation} className="flex justify-between">
+                  <span>{operation}</span>
+                  <span className="text-gray-600">
+                    avg {metric.avg.toFixed(0)}ms • {metric.count} runs
+                    {metric.throughput !== undefined && ` • ${formatRate(metric.throughput)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,611 @@
+import React, { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  Plus,
+  Trash2,
+  Loader2,
+  ExternalLink
+} from 'lucide-react'
+import { gameAPI } from '../lib/api'
+import { signRequest } from '../lib/signing'
+import { projectRounds } from '../lib/gameConfig'
+import { cn, formatSOL, formatPercentage } from '../lib/utils'
+import { useWallet } from '../hooks/useWallet'
+import { WalletButton } from '../components/WalletButton'
+import { CreatorControls } from '../components/CreatorControls'
+import { EliminationSimulator } from '../components/EliminationSimulator'
+import type { SimulationConfig } from '../lib/eliminationSimulator'
+import type { GameConfig, GameData } from '../shared/types'
+
+type Step = 'details' | 'grid' | 'eliminations' | 'timing' | 'review'
+
+const STEPS: Array<{ id: Step; label: string }> = [
+  { id: 'details', label: 'Details' },
+  { id: 'grid', label: 'Grid & price' },
+  { id: 'eliminations', label: 'Eliminations' },
+  { id: 'timing', label: 'Timing' },
+  { id: 'review', label: 'Review' }
+]
+
+const MAX_SIDE = 1000
+const MAX_BLOCKS = 1_000_000
+// Width the preview is laid out for; grid lines are dropped below 4px cells
+const PREVIEW_WIDTH = 320
+
+// Form state; rates and the fee are percentages here
+interface Draft {
+  title: string
+  description: string
+  rows: number
+  cols: number
+  blockPrice: number
+  feePercent: number
+  useSchedule: boolean
+  ratePercent: number
+  schedulePercent: number[]
+  mintingHours: number
+  roundDuration: number
+}
+
+const INITIAL_DRAFT: Draft = {
+  title: '',
+  description: '',
+  rows: 20,
+  cols: 20,
+  blockPrice: 0.1,
+  feePercent: 5,
+  useSchedule: false,
+  ratePercent: 25,
+  schedulePercent: [10, 20, 30],
+  mintingHours: 24,
+  roundDuration: 120
+}
+
+function toConfig(draft: Draft): GameConfig {
+  return {
+    gridSize: { rows: draft.rows, cols: draft.cols },
+    blockPrice: draft.blockPrice,
+    feeRate: draft.feePercent / 100,
+    roundDuration: draft.roundDuration,
+    eliminationRate: draft.useSchedule ? undefined : draft.ratePercent / 100,
+    eliminationSchedule: draft.useSchedule ? draft.schedulePercent.map(p => p / 100) : undefined,
+    saleEndTime: draft.mintingHours > 0
+      ? new Date(Date.now() + draft.mintingHours * 3600 * 1000).toISOString()
+      : undefined
+  }
+}
+
+function simulationConfig(draft: Draft): SimulationConfig {
+  const { eliminationRate, eliminationSchedule } = toConfig(draft)
+  const blocks = draft.rows * draft.cols
+  return {
+    blocks,
+    prizePool: blocks * draft.blockPrice * (1 - draft.feePercent / 100),
+    eliminationRate,
+    eliminationSchedule,
+    defaultRate: draft.ratePercent / 100
+  }
+}
+
+const validRate = (percent: number) => percent > 0 && percent < 100
+
+function stepErrors(step: Step, draft: Draft): string[] {
+  const errors: string[] = []
+  switch (step) {
+    case 'details':
+      if (!draft.title.trim()) errors.push('Give the game a title')
+      break
+    case 'grid':
+      if (!Number.isInteger(draft.rows) || !Number.isInteger(draft.cols) || draft.rows < 2 || draft.cols < 2) {
+        errors.push('Rows and columns must be whole numbers of at least 2')
+      } else if (draft.rows > MAX_SIDE || draft.cols > MAX_SIDE || draft.rows * draft.cols > MAX_BLOCKS) {
+        errors.push(`Grids are limited to ${MAX_SIDE} per side and ${MAX_BLOCKS.toLocaleString()} blocks`)
+      }
+      if (!(draft.blockPrice > 0)) errors.push('Block price must be above 0')
+      if (!(draft.feePercent >= 0 && draft.feePercent <= 50)) errors.push('Fee must be between 0% and 50%')
+      break
+    case 'eliminations':
+      if (draft.useSchedule) {
+        if (draft.schedulePercent.length === 0) errors.push('Add at least one round to the schedule')
+        if (!draft.schedulePercent.every(validRate)) errors.push('Every rate must be between 0% and 100%')
+      } else if (!validRate(draft.ratePercent)) {
+        errors.push('Elimination rate must be between 0% and 100%')
+      }
+      break
+    case 'timing':
+      if (!(draft.mintingHours >= 0)) errors.push('Minting window cannot be negative')
+      if (!Number.isInteger(draft.roundDuration) || draft.roundDuration < 10) {
+        errors.push('Rounds must last at least 10 seconds')
+      }
+      break
+    case 'review':
+      return STEPS.filter(s => s.id !== 'review').flatMap(s => stepErrors(s.id, draft))
+  }
+  return errors
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`
+  const hours = Math.floor(seconds / 3600)
+  const mins = Math.round((seconds % 3600) / 60)
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`
+}
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  step?: number
+  min?: number
+  suffix?: string
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step, min, suffix }) => (
+  <label className="block text-sm font-medium">
+    {label}
+    <div className="mt-1 flex items-center gap-2">
+      <input
+        type="number"
+        value={Number.isNaN(value) ? '' : value}
+        step={step}
+        min={min}
+        onChange={e => onChange(e.target.valueAsNumber)}
+        className="w-full px-3 py-2 border rounded text-sm"
+      />
+      {suffix && <span className="text-gray-500 text-sm">{suffix}</span>}
+    </div>
+  </label>
+)
+
+// Scaled outline of the grid; lines are drawn while cells stay visible
+const GridPreview: React.FC<{ rows: number; cols: number }> = ({ rows, cols }) => {
+  const valid = rows >= 1 && cols >= 1 && Number.isFinite(rows * cols)
+  if (!valid) return <div className="h-40 bg-gray-100 rounded" />
+
+  const cell = PREVIEW_WIDTH / Math.max(rows, cols)
+  const width = cell * cols
+  const height = cell * rows
+  const lines = cell >= 4
+    ? {
+        backgroundImage:
+          'linear-gradient(to right, rgba(255,255,255,0.9) 1px, transparent 1px),' +
+          'linear-gradient(to bottom, rgba(255,255,255,0.9) 1px, transparent 1px)',
+        backgroundSize: `${cell}px ${cell}px`
+      }
+    : {}
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="bg-blue-400 rounded-sm" style={{ width, height, ...lines }} />
+      <div className="text-xs text-gray-500">
+        {rows} × {cols} = {(rows * cols).toLocaleString()} blocks
+      </div>
+    </div>
+  )
+}
+
+const Projection: React.FC<{ draft: Draft }> = ({ draft }) => {
+  const totalBlocks = draft.rows * draft.cols
+  const prizePool = totalBlocks * draft.blockPrice * (1 - draft.feePercent / 100)
+  const rounds = useMemo(
+    () => projectRounds(toConfig(draft), totalBlocks, prizePool, draft.ratePercent / 100),
+    [draft, totalBlocks, prizePool]
+  )
+
+  if (rounds.length === 0) {
+    return <div className="text-sm text-gray-500">Fix the settings above to see a projection.</div>
+  }
+
+  const last = rounds[rounds.length - 1]
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-gray-700">
+        With every block sold, the prize pool is <strong>{formatSOL(prizePool)}</strong> and the game is expected
+        to last <strong>{rounds.length} rounds</strong> (about {formatDuration(last.endsAfter)} of trading).
+      </div>
+      <div className="max-h-72 overflow-y-auto border rounded">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left sticky top-0">
+            <tr>
+              <th className="px-3 py-2">Round</th>
+              <th className="px-3 py-2">Rate</th>
+              <th className="px-3 py-2">Expected survivors</th>
+              <th className="px-3 py-2">EV per block</th>
+              <th className="px-3 py-2">Reveal at</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rounds.map(round => (
+              <tr key={round.roundNumber} className="border-t">
+                <td className="px-3 py-1.5">{round.roundNumber}</td>
+                <td className="px-3 py-1.5">{formatPercentage(round.eliminationRate)}</td>
+                <td className="px-3 py-1.5">
+                  <div className="flex items-center gap-2">
+                    <div className="w-24 bg-gray-200 rounded-full h-1.5">
+                      <div
+                        className="bg-green-500 rounded-full h-1.5"
+                        style={{ width: `${(round.expectedSurvivors / totalBlocks) * 100}%` }}
+                      />
+                    </div>
+                    {Math.round(round.expectedSurvivors).toLocaleString()}
+                  </div>
+                </td>
+                <td className="px-3 py-1.5">{formatSOL(round.expectedEV)}</td>
+                <td className="px-3 py-1.5 text-gray-500">+{formatDuration(round.endsAfter)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-gray-500">
+        Expected values; actual eliminations are drawn from each round's VRF seed.
+      </div>
+    </div>
+  )
+}
+
+// Multi-step create-game flow, then lifecycle controls for the new game
+export const CreateGamePage: React.FC = () => {
+  const navigate = useNavigate()
+  const { address, signer } = useWallet()
+  const [draft, setDraft] = useState<Draft>(INITIAL_DRAFT)
+  const [step, setStep] = useState<Step>('details')
+  const [showErrors, setShowErrors] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
+  const [created, setCreated] = useState<GameData | null>(null)
+
+  const update = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft(prev => ({ ...prev, [key]: value }))
+
+  const index = STEPS.findIndex(s => s.id === step)
+  const errors = stepErrors(step, draft)
+
+  const goNext = () => {
+    if (errors.length > 0) {
+      setShowErrors(true)
+      return
+    }
+    setShowErrors(false)
+    setStep(STEPS[index + 1].id)
+  }
+
+  const goBack = () => {
+    setShowErrors(false)
+    if (index > 0) setStep(STEPS[index - 1].id)
+    else navigate('/')
+  }
+
+  const create = async () => {
+    if (!signer || errors.length > 0) {
+      setShowErrors(true)
+      return
+    }
+    setCreating(true)
+    setCreateError(null)
+    try {
+      const request = {
+        config: toConfig(draft),
+        creatorAddress: signer.address,
+        title: draft.title.trim(),
+        description: draft.description.trim() || undefined
+      }
+      const signature = await signRequest(signer, 'create_game', '', request)
+      setCreated(await gameAPI.createGame({ ...request, signature }))
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create game')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded">
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="text-xl md:text-2xl font-bold text-gray-900">Create Game</h1>
+            </div>
+            <WalletButton />
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {created ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-lg border p-6 space-y-4"
+          >
+            <div className="flex items-center gap-2 text-green-700">
+              <Check className="w-5 h-5" />
+              <h2 className="text-lg font-semibold">{created.title} was created</h2>
+            </div>
+            <div className="text-sm text-gray-600">
+              The game is <strong>{created.status}</strong>. Open the sale of blocks when you are ready, and start
+              the game once players have minted.
+            </div>
+            <CreatorControls game={created} onGameUpdate={setCreated} />
+            <button
+              onClick={() => navigate(`/game/${created.gameId}`)}
+              className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Open game page
+            </button>
+          </motion.div>
+        ) : (
+          <>
+            {/* Steps */}
+            <div className="flex items-center gap-2 overflow-x-auto">
+              {STEPS.map((s, i) => (
+                <React.Fragment key={s.id}>
+                  {i > 0 && <div className="w-6 h-px bg-gray-300 shrink-0" />}
+                  <div className={cn(
+                    'flex items-center gap-2 text-sm whitespace-nowrap',
+                    i === index ? 'text-blue-600 font-semibold' : i < index ? 'text-gray-700' : 'text-gray-400'
+                  )}>
+                    <span className={cn(
+                      'w-6 h-6 rounded-full flex items-center justify-center text-xs border',
+                      i === index && 'border-blue-600 bg-blue-50',
+                      i < index && 'border-green-600 bg-green-50 text-green-700'
+                    )}>
+                      {i < index ? <Check className="w-3 h-3" /> : i + 1}
+                    </span>
+                    {s.label}
+                  </div>
+                </React.Fragment>
+              ))}
+            </div>
+
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={step}
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: -20 }}
+                className="bg-white rounded-lg border p-6 space-y-4"
+              >
+                {step === 'details' && (
+                  <>
+                    <label className="block text-sm font-medium">
+                      Title
+                      <input
+                        value={draft.title}
+                        onChange={e => update('title', e.target.value)}
+                        placeholder="Friday Night Survival"
+                        className="mt-1 w-full px-3 py-2 border rounded text-sm"
+                      />
+                    </label>
+                    <label className="block text-sm font-medium">
+                      Description (optional)
+                      <textarea
+                        value={draft.description}
+                        onChange={e => update('description', e.target.value)}
+                        rows={3}
+                        className="mt-1 w-full px-3 py-2 border rounded text-sm"
+                      />
+                    </label>
+                  </>
+                )}
+
+                {step === 'grid' && (
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-3">
+                        <NumberField label="Rows" value={draft.rows} min={2} onChange={v => update('rows', v)} />
+                        <NumberField label="Columns" value={draft.cols} min={2} onChange={v => update('cols', v)} />
+                      </div>
+                      <NumberField
+                        label="Block price"
+                        value={draft.blockPrice}
+                        step={0.01}
+                        min={0}
+                        suffix="SOL"
+                        onChange={v => update('blockPrice', v)}
+                      />
+                      <NumberField
+                        label="Platform fee"
+                        value={draft.feePercent}
+                        step={0.5}
+                        min={0}
+                        suffix="%"
+                        onChange={v => update('feePercent', v)}
+                      />
+                      {draft.rows > 0 && draft.cols > 0 && draft.blockPrice > 0 && (
+                        <div className="text-sm text-gray-600">
+                          Sold out, the prize pool is{' '}
+                          <strong>{formatSOL(draft.rows * draft.cols * draft.blockPrice * (1 - draft.feePercent / 100))}</strong>
+                        </div>
+                      )}
+                    </div>
+                    <GridPreview rows={draft.rows} cols={draft.cols} />
+                  </div>
+                )}
+
+                {step === 'eliminations' && (
+                  <>
+                    <div className="flex gap-2">
+                      {[false, true].map(schedule => (
+                        <button
+                          key={String(schedule)}
+                          onClick={() => update('useSchedule', schedule)}
+                          className={cn(
+                            'px-4 py-2 rounded border text-sm',
+                            draft.useSchedule === schedule ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300'
+                          )}
+                        >
+                          {schedule ? 'Per-round schedule' : 'Same rate every round'}
+                        </button>
+                      ))}
+                    </div>
+
+                    {draft.useSchedule ? (
+                      <div className="space-y-2">
+                        <div className="text-sm text-gray-600">The last rate repeats for every later round.</div>
+                        {draft.schedulePercent.map((percent, i) => (
+                          <div key={i} className="flex items-center gap-3">
+                            <span className="text-sm text-gray-500 w-20">Round {i + 1}{i === draft.schedulePercent.length - 1 ? '+' : ''}</span>
+                            <input
+                              type="number"
+                              value={Number.isNaN(percent) ? '' : percent}
+                              min={1}
+                              max={99}
+                              onChange={e => update(
+                                'schedulePercent',
+                                draft.schedulePercent.map((p, j) => (j === i ? e.target.valueAsNumber : p))
+                              )}
+                              className="w-24 px-3 py-1.5 border rounded text-sm"
+                            />
+                            <span className="text-sm text-gray-500">%</span>
+                            <button
+                              onClick={() => update('schedulePercent', draft.schedulePercent.filter((_, j) => j !== i))}
+                              className="p-1 rounded text-gray-500 hover:bg-gray-100"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => update('schedulePercent', [
+                            ...draft.schedulePercent,
+                            draft.schedulePercent[draft.schedulePercent.length - 1] ?? draft.ratePercent
+                          ])}
+                          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          <Plus className="w-4 h-4" />
+                          Add round
+                        </button>
+                      </div>
+                    ) : (
+                      <NumberField
+                        label="Elimination rate per round"
+                        value={draft.ratePercent}
+                        min={1}
+                        suffix="%"
+                        onChange={v => update('ratePercent', v)}
+                      />
+                    )}
+                  </>
+                )}
+
+                {step === 'timing' && (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <NumberField
+                      label="Minting window (0 for no deadline)"
+                      value={draft.mintingHours}
+                      min={0}
+                      suffix="hours"
+                      onChange={v => update('mintingHours', v)}
+                    />
+                    <NumberField
+                      label="Trading time per round"
+                      value={draft.roundDuration}
+                      min={10}
+                      suffix="seconds"
+                      onChange={v => update('roundDuration', v)}
+                    />
+                  </div>
+                )}
+
+                {step === 'review' && (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-500">Title</div>
+                        <div className="font-semibold truncate">{draft.title}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Grid</div>
+                        <div className="font-semibold">{draft.rows} × {draft.cols}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Block price</div>
+                        <div className="font-semibold">{formatSOL(draft.blockPrice)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">Minting window</div>
+                        <div className="font-semibold">
+                          {draft.mintingHours > 0 ? formatDuration(draft.mintingHours * 3600) : 'No deadline'}
+                        </div>
+                      </div>
+                    </div>
+                    <Projection draft={draft} />
+                    {!address && (
+                      <div className="flex items-center justify-between p-3 bg-yellow-50 border border-yellow-200 rounded text-sm">
+                        Connect the wallet that will own this game.
+                        <WalletButton />
+                      </div>
+                    )}
+                    {createError && (
+                      <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{createError}</div>
+                    )}
+                  </>
+                )}
+
+                {(step === 'eliminations' || step === 'timing') && (
+                  <div className="pt-4 border-t">
+                    <h3 className="font-semibold mb-2 text-sm">Projected rounds</h3>
+                    {errors.length === 0 && <Projection draft={draft} />}
+                  </div>
+                )}
+
+                {step === 'eliminations' && errors.length === 0 && (
+                  <div className="pt-4 border-t">
+                    <h3 className="font-semibold mb-2 text-sm">Monte Carlo simulation</h3>
+                    <EliminationSimulator config={simulationConfig(draft)} />
+                  </div>
+                )}
+
+                {showErrors && errors.length > 0 && (
+                  <ul className="text-sm text-red-600 list-disc pl-5">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+              </motion.div>
+            </AnimatePresence>
+
+            <div className="flex justify-between">
+              <button
+                onClick={goBack}
+                disabled={creating}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                {index === 0 ? 'Cancel' : 'Back'}
+              </button>
+              {step === 'review' ? (
+                <button
+                  onClick={create}
+                  disabled={creating || !address}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+                >
+                  {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  Create game
+                </button>
+              ) : (
+                <button
+                  onClick={goNext}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                >
+                  Next
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
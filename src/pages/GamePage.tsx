@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
@@ -10,7 +10,9 @@ import {
   AlertCircle,
   CheckCircle,
   Timer,
-  ArrowLeft
+  ArrowLeft,
+  Wallet,
+  ChevronDown
 } from 'lucide-react'
 import { GameGrid } from '../components/GameGrid'
 import { MintingInterface } from '../components/MintingInterface'
@@ -19,45 +21,79 @@ import { LiveReveal } from '../components/LiveReveal'
 import { RoundTimer } from '../components/RoundTimer'
 import { TradingStatus } from '../components/TradingStatus'
 import { GameTimeline } from '../components/GameTimeline'
+import { RoundHistory } from '../components/RoundHistory'
+import { RoundScrubber } from '../components/RoundScrubber'
+import { CreatorControls } from '../components/CreatorControls'
+import { PortfolioPanel } from '../components/PortfolioPanel'
+import { PnLPanel } from '../components/PnLPanel'
 import { useGameWebSocket, useWebSocketEvent } from '../lib/websocket'
-import { gameAPI, orderAPI } from '../lib/api'
-import { cn, formatSOL, generateMockAddress } from '../lib/utils'
-import type {
-  GameData,
-  BlockData,
-  OrderData,
-  OrderBook as OrderBookType,
-  RoundData,
-} from '../../../shared/types'
-
-type TabType = 'game' | 'mint' | 'trade' | 'reveal'
+import { isAbortError } from '../lib/api'
+import { reconcileIntents } from '../lib/intents'
+import { cn, formatSOL } from '../lib/utils'
+import { useWallet } from '../hooks/useWallet'
+import { useGameStore, useGameStoreSync } from '../hooks/useGameStore'
+import {
+  selectBlocks,
+  selectCurrentRound,
+  selectError,
+  selectGame,
+  selectOrderBook,
+  selectPackedBlocks,
+  selectStatus,
+  selectUserBlocks,
+  selectUserOrders,
+  type GameState,
+} from '../lib/gameStore'
+import { WalletButton } from '../components/WalletButton'
+import { ConnectionStatusBadge } from '../components/ConnectionStatusBadge'
+import { getRoundNumber, type BlockData, type WebSocketEvents } from '../shared/types'
+
+type TabType = 'game' | 'mint' | 'trade' | 'reveal' | 'portfolio'
+
+// Shown in place of minting and trading until a wallet is connected
+const ConnectWalletPrompt: React.FC<{ action: string }> = ({ action }) => (
+  <div className="bg-white rounded-lg border p-8 text-center">
+    <Wallet className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+    <h3 className="text-lg font-semibold mb-1">Connect a wallet</h3>
+    <p className="text-gray-600 text-sm mb-4">You need a connected wallet to {action}.</p>
+    <WalletButton className="inline-block" />
+  </div>
+)
+
+// Notifications raised in the same tick still need distinct ids
+let notificationCounter = 0
 
 export const GamePage: React.FC = () => {
-  const { gameId } = useParams<{ gameId: string }>()
+  const { gameId = '' } = useParams<{ gameId: string }>()
   const navigate = useNavigate()
-  const [userAddress, setUserAddress] = useState<string>('')
-  
-  // Initialize user address only on client side
-  useEffect(() => {
-    setUserAddress(generateMockAddress())
-  }, [])
-
-  // State
-  const [game, setGame] = useState<GameData | null>(null)
-  const [blocks, setBlocks] = useState<BlockData[]>([])
-  const [currentRound, setCurrentRound] = useState<RoundData | null>(null)
-  const [orderBook, setOrderBook] = useState<OrderBookType>({
-    asks: [],
-    bids: [],
-  })
-  const [userOrders, setUserOrders] = useState<OrderData[]>([])
+  const { address, signer } = useWallet()
+  const userAddress = address ?? ''
+
+  // Game data lives in the shared store; this page only owns UI state
+  const store = useGameStoreSync(gameId, address)
+  const game = useGameStore(gameId, selectGame)
+  const blocks = useGameStore(gameId, selectBlocks)
+  const packedBlocks = useGameStore(gameId, selectPackedBlocks)
+  const currentRound = useGameStore(gameId, selectCurrentRound)
+  const orderBook = useGameStore(gameId, selectOrderBook)
+  const userOrders = useGameStore(gameId, selectUserOrders)
+  const userBlocks = useGameStore(
+    gameId,
+    useCallback((state: GameState) => selectUserBlocks(state, userAddress), [userAddress])
+  )
+  const status = useGameStore(gameId, selectStatus)
+  const error = useGameStore(gameId, selectError)
+
   const [activeTab, setActiveTab] = useState<TabType>('game')
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [lastReveal, setLastReveal] = useState<{
-    results: any[]
-    roundNumber: number
-  } | null>(null)
+  // Completed round open in the history view
+  const [historyRound, setHistoryRound] = useState<number | null>(null)
+  const [showReplay, setShowReplay] = useState(false)
+  const [lastReveal, setLastReveal] = useState<Pick<
+    WebSocketEvents['round_completed'],
+    'results' | 'roundNumber' | 'eliminationRate' | 'vrfSeed' | 'vrfProof'
+  > | null>(null)
+  // round_completed may leave the seed out; the round record carries it too
+  const revealedRound = currentRound?.roundNumber === lastReveal?.roundNumber ? currentRound : null
   const [notifications, setNotifications] = useState<
     Array<{
       id: string
@@ -72,7 +108,7 @@ export const GamePage: React.FC = () => {
   // Add notification
   const addNotification = useCallback(
     (type: 'success' | 'error' | 'info', message: string) => {
-      const id = Date.now().toString()
+      const id = String(++notificationCounter)
       setNotifications((prev) => [...prev, { id, type, message }])
 
       // Auto remove after 3 seconds (shorter for mobile)
@@ -83,83 +119,61 @@ export const GamePage: React.FC = () => {
     []
   )
 
-  // Load initial data
-  const loadGameData = useCallback(async () => {
-    if (!gameId || !userAddress) return
-
-    setLoading(true)
-    setError(null)
-
-    try {
-      const [gameResponse, orderBookResponse, userOrdersResponse] =
-        await Promise.all([
-          gameAPI.getGame(gameId),
-          orderAPI.getOrderBook(gameId),
-          orderAPI.getUserOrders(gameId, userAddress),
-        ])
-
-      if (gameResponse.success) {
-        setGame(gameResponse.game)
-        setBlocks(gameResponse.blocks || [])
-        setCurrentRound(gameResponse.currentRound)
-
-        // Set initial tab based on game status
-        if (gameResponse.game.status === 'minting') {
-          setActiveTab('mint')
-        } else if (gameResponse.game.status === 'active') {
-          setActiveTab('game')
-        }
-      }
-
-      if (orderBookResponse.success) {
-        setOrderBook(orderBookResponse.orderBook)
-      }
-
-      if (userOrdersResponse.success) {
-        setUserOrders(userOrdersResponse.orders)
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load game data')
-    } finally {
-      setLoading(false)
-    }
-  }, [gameId, userAddress])
-
-  // Load data after userAddress is set
+  // Set initial tab based on game status, once per game
+  const initialTabGameRef = useRef<string | null>(null)
   useEffect(() => {
-    if (userAddress && gameId) {
-      loadGameData()
+    if (!game || initialTabGameRef.current === gameId) return
+    initialTabGameRef.current = gameId
+
+    if (game.status === 'minting') {
+      setActiveTab('mint')
+    } else if (game.status === 'active') {
+      setActiveTab('game')
     }
-  }, [userAddress, gameId, loadGameData])
+  }, [gameId, game])
 
-  // WebSocket Event Handlers
-  useWebSocketEvent(
-    'game_state_update',
-    useCallback(
-      (data) => {
-        if (data.gameId === gameId) {
-          setGame(data.game)
-          setBlocks(data.blocks)
-          if (data.currentRound) {
-            setCurrentRound(data.currentRound)
+  // Settle mints and orders left pending by a previous visit or a dropped response
+  useEffect(() => {
+    if (!gameId || !signer) return
+
+    const controller = new AbortController()
+    reconcileIntents(gameId, signer, controller.signal)
+      .then((outcomes) => {
+        for (const outcome of outcomes) {
+          switch (outcome.status) {
+            case 'minted':
+              addNotification('success', `Confirmed pending mint of ${outcome.blocks.length} blocks`)
+              store.upsertBlocks(outcome.blocks)
+              break
+            case 'order_created':
+              addNotification('success', 'Confirmed pending order')
+              store.upsertUserOrder(outcome.order)
+              break
+            case 'rejected':
+              addNotification('error', `Pending request failed: ${outcome.message}`)
+              break
           }
         }
-      },
-      [gameId]
-    )
-  )
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) {
+          console.error('Failed to reconcile pending intents:', err)
+        }
+      })
 
+    return () => controller.abort()
+  }, [gameId, signer, store, addNotification])
+
+  // WebSocket Event Handlers (the store applies the data itself)
   useWebSocketEvent(
     'round_started',
     useCallback(
       (data) => {
         if (data.gameId === gameId) {
           addNotification('info', `🎯 Round ${data.roundNumber} started! Trading for ${Math.floor(data.duration/1000)}s`)
-          // Refresh data to get latest round info
-          loadGameData()
         }
       },
-      [gameId, addNotification, loadGameData]
+      [gameId, addNotification]
     )
   )
 
@@ -168,7 +182,7 @@ export const GamePage: React.FC = () => {
     useCallback(
       (data) => {
         if (data.gameId === gameId) {
-          addNotification('warning', `📈 Trading closed for Round ${data.roundNumber}. VRF requested.`)
+          addNotification('info', `📈 Trading closed for Round ${data.roundNumber}. VRF requested.`)
         }
       },
       [gameId, addNotification]
@@ -183,6 +197,9 @@ export const GamePage: React.FC = () => {
           setLastReveal({
             results: data.results,
             roundNumber: data.roundNumber,
+            eliminationRate: data.eliminationRate,
+            vrfSeed: data.vrfSeed,
+            vrfProof: data.vrfProof,
           })
           setActiveTab('reveal')
           addNotification(
@@ -195,25 +212,13 @@ export const GamePage: React.FC = () => {
     )
   )
 
-  useWebSocketEvent(
-    'order_book_update',
-    useCallback(
-      (data) => {
-        if (data.gameId === gameId) {
-          setOrderBook(data.orderBook)
-        }
-      },
-      [gameId]
-    )
-  )
-
   // Event handlers
   const handleMintSuccess = useCallback(
     (mintedBlocks: BlockData[]) => {
       addNotification('success', `Minted ${mintedBlocks.length} blocks!`)
-      loadGameData()
+      store.upsertBlocks(mintedBlocks)
     },
-    [addNotification, loadGameData]
+    [store, addNotification]
   )
 
   const handleMintError = useCallback(
@@ -223,7 +228,8 @@ export const GamePage: React.FC = () => {
     [addNotification]
   )
 
-  if (loading) {
+  // Cached data stays on screen while a refresh is in flight
+  if (!game && (status === 'idle' || status === 'loading')) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="flex items-center gap-3">
@@ -234,7 +240,7 @@ export const GamePage: React.FC = () => {
     )
   }
 
-  if (error || !game) {
+  if (!game) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
         <div className="text-center max-w-md">
@@ -252,7 +258,6 @@ export const GamePage: React.FC = () => {
     )
   }
 
-  const userBlocks = blocks.filter((b) => b.ownerId === userAddress)
   const aliveUserBlocks = userBlocks.filter((b) => b.status === 'alive')
 
   return (
@@ -312,6 +317,8 @@ export const GamePage: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-2">
+              <ConnectionStatusBadge />
+              <WalletButton />
               <div className="text-right text-xs md:text-sm">
                 <div className="font-semibold">
                   {formatSOL(game.currentEV)}
@@ -345,7 +352,7 @@ export const GamePage: React.FC = () => {
               <div className="text-gray-500">Alive</div>
             </div>
             <div>
-              <div className="font-semibold text-purple-600">R{typeof game.currentRound === 'object' ? game.currentRound?.roundNumber || 0 : game.currentRound}</div>
+              <div className="font-semibold text-purple-600">R{getRoundNumber(game)}</div>
               <div className="text-gray-500">Round</div>
             </div>
             <div>
@@ -374,7 +381,7 @@ export const GamePage: React.FC = () => {
             </div>
             <div>
               <div className="font-semibold text-purple-600">
-                Round {typeof game.currentRound === 'object' ? game.currentRound?.roundNumber || 0 : game.currentRound}
+                Round {getRoundNumber(game)}
               </div>
               <div className="text-gray-500">Current</div>
             </div>
@@ -407,7 +414,8 @@ export const GamePage: React.FC = () => {
             { id: 'game' as TabType, label: 'Game', icon: Trophy },
             { id: 'mint' as TabType, label: 'Mint', icon: Settings, disabled: game.status !== 'minting' },
             { id: 'trade' as TabType, label: 'Trade', icon: Users, disabled: game.status !== 'active' },
-            { id: 'reveal' as TabType, label: 'Reveal', icon: Timer, disabled: !lastReveal }
+            { id: 'reveal' as TabType, label: 'Reveal', icon: Timer, disabled: !lastReveal },
+            { id: 'portfolio' as TabType, label: 'Mine', icon: Wallet }
           ].map(tab => (
             <button
               key={tab.id}
@@ -436,7 +444,8 @@ export const GamePage: React.FC = () => {
               { id: 'game' as TabType, label: 'Game View', icon: Trophy },
               { id: 'mint' as TabType, label: 'Mint Blocks', icon: Settings, disabled: game.status !== 'minting' },
               { id: 'trade' as TabType, label: 'Trading', icon: Users, disabled: game.status !== 'active' },
-              { id: 'reveal' as TabType, label: 'Live Reveal', icon: Timer, disabled: !lastReveal }
+              { id: 'reveal' as TabType, label: 'Live Reveal', icon: Timer, disabled: !lastReveal },
+              { id: 'portfolio' as TabType, label: 'My Blocks', icon: Wallet }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -463,11 +472,19 @@ export const GamePage: React.FC = () => {
         <GameTimeline 
           game={game}
           currentRound={currentRound}
+          onRoundSelect={setHistoryRound}
         />
       </div>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-2 md:px-4 lg:px-8 py-4 md:py-8">
+        {/* Lifecycle controls for the game's creator */}
+        {userAddress && game.creatorAddress === userAddress && (game.status === 'pending' || game.status === 'minting') && (
+          <div className="mb-4 p-4 bg-white rounded-lg border">
+            <CreatorControls game={game} onGameUpdate={updated => store.setGame(updated)} />
+          </div>
+        )}
+
         <AnimatePresence mode="wait">
           {activeTab === 'game' && (
             <motion.div
@@ -480,9 +497,31 @@ export const GamePage: React.FC = () => {
               <GameGrid
                 game={game}
                 blocks={blocks}
+                packed={packedBlocks}
                 userAddress={userAddress}
                 mode="view"
               />
+
+              {/* Replay rounds */}
+              {game.status !== 'minting' && (
+                <div>
+                  <button
+                    onClick={() => setShowReplay(open => !open)}
+                    className="flex items-center gap-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    <ChevronDown className={cn('w-4 h-4 transition-transform', !showReplay && '-rotate-90')} />
+                    Replay rounds
+                  </button>
+                  {showReplay && (
+                    <RoundScrubber
+                      game={game}
+                      blocks={blocks}
+                      userAddress={userAddress}
+                      className="mt-3"
+                    />
+                  )}
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -493,13 +532,17 @@ export const GamePage: React.FC = () => {
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
             >
-              <MintingInterface
-                game={game}
-                blocks={blocks}
-                userAddress={userAddress}
-                onMintSuccess={handleMintSuccess}
-                onMintError={handleMintError}
-              />
+              {userAddress ? (
+                <MintingInterface
+                  game={game}
+                  blocks={blocks}
+                  userAddress={userAddress}
+                  onMintSuccess={handleMintSuccess}
+                  onMintError={handleMintError}
+                />
+              ) : (
+                <ConnectWalletPrompt action="mint blocks" />
+              )}
             </motion.div>
           )}
 
@@ -510,22 +553,52 @@ export const GamePage: React.FC = () => {
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
             >
-              <OrderBook
-                gameId={gameId!}
-                orderBook={orderBook}
-                userOrders={userOrders}
-                userAddress={userAddress}
-                game={game}
-                onOrderCreated={(order) => {
-                  addNotification('success', 'Order created!')
-                  setUserOrders(prev => [order, ...prev])
-                }}
-                onOrderCancelled={(orderId) => {
-                  addNotification('info', 'Order cancelled')
-                  setUserOrders(prev => prev.filter(o => o.orderId !== orderId))
-                }}
-                onError={(error) => addNotification('error', `Order error: ${error}`)}
-              />
+              {userAddress ? (
+                <OrderBook
+                  gameId={gameId}
+                  orderBook={orderBook}
+                  userOrders={userOrders}
+                  userAddress={userAddress}
+                  game={game}
+                  onOrderCreated={(order) => {
+                    addNotification('success', 'Order created!')
+                    store.upsertUserOrder(order)
+                  }}
+                  onOrderCancelled={(orderId) => {
+                    addNotification('info', 'Order cancelled')
+                    store.removeUserOrder(orderId)
+                  }}
+                  onError={(error) => addNotification('error', `Order error: ${error}`)}
+                />
+              ) : (
+                <ConnectWalletPrompt action="trade blocks" />
+              )}
+            </motion.div>
+          )}
+
+          {activeTab === 'portfolio' && (
+            <motion.div
+              key="portfolio"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              {userAddress ? (
+                <div className="space-y-6">
+                  <PortfolioPanel
+                    game={game}
+                    userBlocks={userBlocks}
+                    userOrders={userOrders}
+                  />
+                  <PnLPanel
+                    game={game}
+                    userAddress={userAddress}
+                    userBlocks={userBlocks}
+                  />
+                </div>
+              ) : (
+                <ConnectWalletPrompt action="see your blocks" />
+              )}
             </motion.div>
           )}
 
@@ -540,6 +613,10 @@ export const GamePage: React.FC = () => {
                 game={game}
                 blocks={blocks}
                 roundResults={lastReveal.results}
+                roundNumber={lastReveal.roundNumber}
+                vrfSeed={lastReveal.vrfSeed ?? revealedRound?.vrfSeed}
+                vrfProof={lastReveal.vrfProof ?? revealedRound?.vrfProof}
+                eliminationRate={lastReveal.eliminationRate ?? revealedRound?.eliminationRate}
                 userAddress={userAddress}
                 onRevealComplete={() => {
                   addNotification('info', 'Reveal completed')
@@ -557,6 +634,17 @@ export const GamePage: React.FC = () => {
           )}
         </AnimatePresence>
       </div>
+
+      {historyRound !== null && (
+        <RoundHistory
+          game={game}
+          blocks={blocks}
+          userAddress={userAddress || undefined}
+          roundNumber={historyRound}
+          onSelectRound={setHistoryRound}
+          onClose={() => setHistoryRound(null)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -10,11 +10,16 @@ import {
   RefreshCw,
   AlertCircle,
   ExternalLink,
-  Settings
+  Settings,
+  Shield,
+  Wallet
 } from 'lucide-react'
 import { gameAPI, adminAPI } from '../lib/api'
-import { cn, formatSOL, formatDate, generateMockAddress } from '../lib/utils'
-import type { GameData } from '../../../shared/types'
+import { isAdminAddress } from '../lib/admin'
+import { cn, formatSOL, formatDate } from '../lib/utils'
+import { WalletButton } from '../components/WalletButton'
+import { useWallet } from '../hooks/useWallet'
+import { getRoundNumber, type GameData } from '../shared/types'
 
 interface GameCardProps {
   game: GameData
@@ -59,7 +64,7 @@ const GameCard: React.FC<GameCardProps> = ({ game, onJoin }) => {
                 {game.status.toUpperCase()}
               </span>
               <span className="text-xs text-gray-500">
-                Round {typeof game.currentRound === 'object' ? game.currentRound?.roundNumber || 0 : game.currentRound}
+                Round {getRoundNumber(game)}
               </span>
             </div>
           </div>
@@ -166,27 +171,17 @@ const GameCard: React.FC<GameCardProps> = ({ game, onJoin }) => {
 
 export const HomePage: React.FC = () => {
   const navigate = useNavigate()
+  const { address } = useWallet()
   const [games, setGames] = useState<GameData[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [userAddress, setUserAddress] = useState<string>('')
-  
-  // Initialize user address only on client side
-  useEffect(() => {
-    setUserAddress(generateMockAddress())
-  }, [])
 
   const loadGames = useCallback(async () => {
     setLoading(true)
     setError(null)
     
     try {
-      const response = await gameAPI.getGames()
-      if (response.success) {
-        setGames(response.games || [])
-      } else {
-        setError('Failed to load games')
-      }
+      setGames(await gameAPI.getGames())
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load games')
     } finally {
@@ -196,10 +191,8 @@ export const HomePage: React.FC = () => {
 
   const createDemoGame = useCallback(async () => {
     try {
-      const response = await adminAPI.createDemoGame()
-      if (response.success) {
-        navigate(`/game/${response.game.gameId}`)
-      }
+      const game = await adminAPI.createDemoGame()
+      navigate(`/game/${game.gameId}`)
     } catch (err) {
       console.error('Failed to create demo game:', err)
     }
@@ -210,14 +203,12 @@ export const HomePage: React.FC = () => {
   }, [navigate])
 
   useEffect(() => {
-    if (userAddress) {
-      loadGames()
-      
-      // Auto-refresh every 30 seconds
-      const interval = setInterval(loadGames, 30000)
-      return () => clearInterval(interval)
-    }
-  }, [loadGames, userAddress])
+    loadGames()
+
+    // Auto-refresh every 30 seconds
+    const interval = setInterval(loadGames, 30000)
+    return () => clearInterval(interval)
+  }, [loadGames])
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -235,13 +226,36 @@ export const HomePage: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-2 md:gap-4">
-              <div className="text-right text-xs md:text-sm hidden sm:block">
-                <div className="text-gray-500">Your Address</div>
-                <div className="font-mono text-xs">
-                  {userAddress}
-                </div>
-              </div>
+              <WalletButton />
+
+              {address && (
+                <button
+                  onClick={() => navigate('/portfolio')}
+                  className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <Wallet className="w-4 h-4" />
+                  <span className="hidden sm:inline">Portfolio</span>
+                </button>
+              )}
+
+              {isAdminAddress(address) && (
+                <button
+                  onClick={() => navigate('/admin')}
+                  className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <Shield className="w-4 h-4" />
+                  <span className="hidden sm:inline">Admin</span>
+                </button>
+              )}
               
+              <button
+                onClick={() => navigate('/create')}
+                className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                <span className="hidden sm:inline">Create Game</span>
+              </button>
+
               <button
                 onClick={createDemoGame}
                 className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors text-sm"
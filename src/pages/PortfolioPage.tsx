@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowLeft, RefreshCw, AlertCircle, ExternalLink, Wallet, Download } from 'lucide-react'
+import { isAbortError } from '../lib/api'
+import { getMintReceipts } from '../lib/intents'
+import { combineTotals, loadPortfolio, type GamePortfolio } from '../lib/portfolio'
+import { buildPnLStatement, downloadCSV, statementFileName, statementToCSV } from '../lib/pnl'
+import { loadRoundHistory, roundHistoryVersion } from '../lib/roundHistory'
+import { cn } from '../lib/utils'
+import { useWallet } from '../hooks/useWallet'
+import { WalletButton } from '../components/WalletButton'
+import { HoldingsTable, PortfolioTotalsBar } from '../components/PortfolioPanel'
+import { getRoundNumber, type GameData } from '../shared/types'
+
+// Holdings of the connected wallet across every game it holds blocks in
+export const PortfolioPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { address } = useWallet()
+  const [portfolios, setPortfolios] = useState<GamePortfolio[]>([])
+  const [failed, setFailed] = useState<GameData[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const load = useCallback(async () => {
+    controllerRef.current?.abort()
+    if (!address) return
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await loadPortfolio(address, { signal: controller.signal })
+      setPortfolios(result.portfolios)
+      setFailed(result.failed)
+    } catch (err) {
+      if (isAbortError(err)) return
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio')
+    } finally {
+      if (controllerRef.current === controller) setLoading(false)
+    }
+  }, [address])
+
+  const exportPnL = useCallback(async ({ game, holdings }: GamePortfolio) => {
+    if (!address) return
+    setExporting(game.gameId)
+    try {
+      const version = roundHistoryVersion(getRoundNumber(game), game.status)
+      const { rounds, trades } = await loadRoundHistory(game.gameId, version)
+      const mints = getMintReceipts(game.gameId, address)
+      const statement = buildPnLStatement(address, game, holdings.map(h => h.block), trades, rounds, mints)
+      downloadCSV(statementFileName(statement), statementToCSV(statement))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export P&L')
+    } finally {
+      setExporting(null)
+    }
+  }, [address])
+
+  useEffect(() => {
+    setPortfolios([])
+    setFailed([])
+    load()
+    return () => controllerRef.current?.abort()
+  }, [load])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded">
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+              <h1 className="text-xl md:text-2xl font-bold text-gray-900">Portfolio</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <WalletButton />
+              {address && (
+                <button
+                  onClick={load}
+                  disabled={loading}
+                  className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                >
+                  <RefreshCw className={cn('w-5 h-5', loading && 'animate-spin')} />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {!address ? (
+          <div className="bg-white rounded-lg border p-8 text-center">
+            <Wallet className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <h3 className="text-lg font-semibold mb-1">Connect a wallet</h3>
+            <p className="text-gray-600 text-sm mb-4">You need a connected wallet to see your portfolio.</p>
+            <WalletButton className="inline-block" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        ) : (
+          <>
+            <PortfolioTotalsBar totals={combineTotals(portfolios)} />
+
+            {failed.length > 0 && (
+              <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+                <AlertCircle className="w-4 h-4" />
+                Could not load holdings for {failed.map(g => g.title).join(', ')}.
+              </div>
+            )}
+
+            {portfolios.length === 0 ? (
+              <div className="text-center py-16 text-gray-500">
+                {loading ? 'Loading holdings…' : "You don't hold blocks in any listed game."}
+              </div>
+            ) : (
+              portfolios.map(portfolio => (
+                <div key={portfolio.game.gameId} className="bg-white rounded-lg border p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="font-semibold">{portfolio.game.title}</h2>
+                      <div className="text-xs text-gray-500">
+                        {portfolio.game.status.toUpperCase()} • {portfolio.totals.alive} of {portfolio.totals.blocks} alive
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => exportPnL(portfolio)}
+                        disabled={exporting === portfolio.game.gameId}
+                        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                      >
+                        <Download className="w-4 h-4" />
+                        P&L CSV
+                      </button>
+                      <button
+                        onClick={() => navigate(`/game/${portfolio.game.gameId}`)}
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                        Open
+                      </button>
+                    </div>
+                  </div>
+                  <HoldingsTable holdings={portfolio.holdings} />
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+// Contract schema version. Bump the major version whenever a field is removed
+// or changes meaning; the client refuses payloads from a different major.
+export const SCHEMA_VERSION = '1.0.0'
+
+export const SCHEMA_VERSION_HEADER = 'X-Schema-Version'
+
+export function getMajorVersion(version: string): number {
+  return parseInt(version.split('.')[0], 10)
+}
+
+export function isCompatibleSchemaVersion(version: string): boolean {
+  return getMajorVersion(version) === getMajorVersion(SCHEMA_VERSION)
+}
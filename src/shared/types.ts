@@ -0,0 +1,360 @@
+// Shared contract between the BlockChance frontend and the game server.
+// Every REST response and socket payload is described here and checked at
+// runtime by the validators in ./validators before it reaches a component.
+
+export type GameStatus = 'pending' | 'minting' | 'active' | 'finished' | 'cancelled'
+
+export type BlockStatus = 'unsold' | 'alive' | 'eliminated'
+
+export type RoundStatus =
+  | 'pending'
+  | 'trading'
+  | 'trading_closed'
+  | 'vrf_requested'
+  | 'revealing'
+  | 'completed'
+
+export type OrderType = 'ask' | 'any_bid'
+
+export type OrderStatus = 'active' | 'partially_filled' | 'filled' | 'cancelled' | 'expired'
+
+export interface GridSize {
+  rows: number
+  cols: number
+}
+
+export interface GameConfig {
+  gridSize: GridSize
+  blockPrice: number
+  feeRate: number
+  roundDuration: number // seconds
+  eliminationRate?: number
+  eliminationSchedule?: number[] // per round; the last rate repeats
+  saleEndTime?: string
+  treasuryAddress?: string // receives mint payments
+}
+
+export interface GameData {
+  gameId: string
+  title: string
+  description?: string
+  creatorAddress?: string
+  status: GameStatus
+  config: GameConfig
+  totalBlocks: number
+  soldBlocks: number
+  aliveBlocks: number
+  prizePool: number
+  currentEV: number
+  nextRoundEV: number
+  survivalProbability: number
+  currentRound: number | RoundData
+  createdAt: string
+  saleEndTime?: string
+  gameStartTime?: string
+  winnerId?: string
+}
+
+// Servers send the current round either as its number or in full
+export function getRoundNumber(game: Pick<GameData, 'currentRound'>): number {
+  return typeof game.currentRound === 'object' ? game.currentRound?.roundNumber ?? 0 : game.currentRound
+}
+
+export interface BlockData {
+  blockId: number
+  gameId?: string
+  position: {
+    row: number
+    col: number
+  }
+  status: BlockStatus
+  ownerId?: string
+  purchasePrice: number
+  purchasedAt?: string
+  eliminatedInRound?: number
+}
+
+export interface RoundData {
+  roundNumber: number
+  gameId?: string
+  status: RoundStatus
+  eliminationRate: number
+  blocksAtStart: number
+  prizePoolSnapshot: number
+  startTime: string
+  tradeCloseTime: string
+  vrfSeed?: string
+  vrfProof?: string
+  eliminatedCount?: number
+  survivorCount?: number
+  completedAt?: string
+}
+
+export interface RoundResult {
+  blockId: number
+  eliminated: boolean
+  vrfValue: number
+}
+
+export interface OrderData {
+  orderId: string
+  gameId: string
+  userId: string
+  type: OrderType
+  blockId?: number
+  price: number
+  quantity: number
+  filledQuantity?: number
+  fillPercentage: number
+  status: OrderStatus
+  carryOver?: boolean
+  roundNumber?: number
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface OrderBook {
+  asks: OrderData[]
+  bids: OrderData[]
+}
+
+export interface TradeData {
+  tradeId: string
+  gameId: string
+  blockId: number
+  buyerId: string
+  sellerId: string
+  price: number
+  roundNumber?: number
+  buyOrderId?: string
+  sellOrderId?: string
+  executedAt: string
+}
+
+export interface GameStats {
+  totalBlocks: number
+  soldBlocks: number
+  aliveBlocks: number
+  eliminatedBlocks: number
+  uniquePlayers: number
+  prizePool: number
+  currentEV: number
+  roundsCompleted: number
+}
+
+export interface MarketStats {
+  activeAsks: number
+  activeBids: number
+  bestAsk?: number
+  bestBid?: number
+  lastPrice?: number
+  volume: number
+  tradeCount: number
+}
+
+export interface SystemStatus {
+  uptime: number
+  activeGames: number
+  connectedClients: number
+  schedulerRunning: boolean
+  version?: string
+}
+
+// Socket.io events, keyed by event name. The first block is emitted by the
+// client, the second by the server.
+// Incremental block change. Deltas are broadcast in events numbered by a
+// per-game sequence; snapshots carry the sequence they were taken at.
+export type BlockDelta =
+  | {
+      kind: 'status'
+      blockId: number
+      status: BlockStatus
+      eliminatedInRound?: number
+    }
+  | {
+      kind: 'owner'
+      blockId: number
+      ownerId: string | null
+      purchasePrice?: number
+      purchasedAt?: string
+    }
+
+export interface WebSocketEvents {
+  join_game: { gameId: string }
+  leave_game: { gameId: string }
+  request_game_state: { gameId: string }
+  request_order_book: { gameId: string }
+
+  game_state_update: {
+    gameId: string
+    game: GameData
+    blocks: BlockData[]
+    currentRound?: RoundData | null
+    seq?: number
+  }
+  block_deltas: {
+    gameId: string
+    seq: number
+    deltas: BlockDelta[]
+    game?: GameData // aggregates after the deltas were applied
+  }
+  round_started: {
+    gameId: string
+    roundNumber: number
+    duration: number // ms
+    eliminationRate?: number
+  }
+  trading_closed: {
+    gameId: string
+    roundNumber: number
+  }
+  round_completed: {
+    gameId: string
+    roundNumber: number
+    results: RoundResult[]
+    eliminatedCount: number
+    survivorCount?: number
+    eliminationRate?: number
+    vrfSeed?: string
+    vrfProof?: string
+  }
+  order_book_update: {
+    gameId: string
+    orderBook: OrderBook
+  }
+  error: {
+    message: string
+    code?: string
+  }
+}
+
+export type ClientEventName =
+  | 'join_game'
+  | 'leave_game'
+  | 'request_game_state'
+  | 'request_order_book'
+
+export type ServerEventName = Exclude<keyof WebSocketEvents, ClientEventName>
+
+// REST responses. The server wraps every payload in a `{ success, ... }`
+// envelope; a failed call carries a message instead of the payload.
+export interface APIFailure {
+  success: false
+  message?: string
+  error?: string
+  schemaVersion?: string
+}
+
+export type APISuccess<T> = T & { success: true; message?: string; schemaVersion?: string }
+
+export type APIResponse<T> = APISuccess<T> | APIFailure
+
+export type GamesResponse = APIResponse<{ games: GameData[] }>
+export type GameResponse = APIResponse<{
+  game: GameData
+  blocks?: BlockData[]
+  currentRound?: RoundData | null
+  seq?: number
+}>
+export type CreatedGameResponse = APIResponse<{ game: GameData }>
+export type GameMutationResponse = APIResponse<{ game?: GameData }>
+export type BlocksResponse = APIResponse<{ blocks: BlockData[] }>
+export type RoundsResponse = APIResponse<{ rounds: RoundData[] }>
+export type CurrentRoundResponse = APIResponse<{ round: RoundData | null }>
+export type GameStatsResponse = APIResponse<{ stats: GameStats }>
+export type RevealResponse = APIResponse<{ results?: RoundResult[] }>
+export type OrderResponse = APIResponse<{ order: OrderData }>
+export type OrdersResponse = APIResponse<{ orders: OrderData[] }>
+export type OrderBookResponse = APIResponse<{ orderBook: OrderBook }>
+export type TradeHistoryResponse = APIResponse<{ trades: TradeData[] }>
+export type MarketStatsResponse = APIResponse<{ stats: MarketStats }>
+export type MatchingResponse = APIResponse<{ matches?: number }>
+export type SystemStatusResponse = APIResponse<{ status: SystemStatus }>
+export type DebugInfoResponse = APIResponse<{ debug: Record<string, unknown> }>
+export type AckResponse = APIResponse<object>
+
+// REST request bodies
+
+export interface CreateGameRequest {
+  config: GameConfig
+  creatorAddress: string
+  title: string
+  description?: string
+}
+
+// Lifecycle requests (start minting, start game) are signed by the creator
+export interface GameLifecycleRequest {
+  creatorAddress: string
+}
+
+export interface MintBlocksRequest {
+  buyerAddress: string
+  blockIds?: number[]
+  quantity?: number
+  paymentAmount: number
+  paymentSignature?: string // finalized SOL transfer to the game treasury
+}
+
+export interface CreateOrderRequest {
+  gameId: string
+  userId: string
+  type: OrderType
+  blockId?: number
+  price: number
+  quantity: number
+  carryOver?: boolean
+}
+
+export interface CancelOrderRequest {
+  userId: string
+}
+
+// Asks for a mint payment back when the server refused the mint it paid for
+export interface RefundPaymentRequest {
+  buyerAddress: string
+  paymentSignature: string
+}
+
+// Wallet signature over the canonical message for a mutating request.
+// The server recomputes payloadHash from the body and checks the signature
+// against `address` before applying the action.
+export type SignedAction =
+  | 'mint'
+  | 'create_order'
+  | 'cancel_order'
+  | 'refund_payment'
+  | 'create_game'
+  | 'start_minting'
+  | 'start_game'
+  | 'admin_delete_game'
+  | 'admin_force_round'
+  | 'admin_force_vrf'
+
+export interface RequestSignature {
+  address: string
+  action: SignedAction
+  gameId: string
+  payloadHash: string // hex SHA-256 of the canonical JSON payload
+  nonce: string
+  expiresAt: number // ms since epoch
+  signature: string // base58 ed25519 signature
+}
+
+export type Signed<T> = T & { signature: RequestSignature }
+
+// Admin requests name the acting wallet; the server checks it is an admin
+export interface AdminActionRequest {
+  adminAddress: string
+}
+
+export interface ForceVRFRequest extends AdminActionRequest {
+  roundNumber: number
+  seed?: string
+}
+
+export interface GameDetail {
+  game: GameData
+  blocks: BlockData[]
+  currentRound: RoundData | null
+  seq: number | null // block delta sequence the snapshot was taken at
+}
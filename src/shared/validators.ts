@@ -0,0 +1,423 @@
+import { SCHEMA_VERSION, isCompatibleSchemaVersion } from './schema'
+import type {
+  APIFailure,
+  APIResponse,
+  BlockData,
+  BlockDelta,
+  GameConfig,
+  GameData,
+  GameStats,
+  MarketStats,
+  OrderBook,
+  OrderData,
+  RoundData,
+  RoundResult,
+  ServerEventName,
+  SystemStatus,
+  TradeData,
+  WebSocketEvents,
+} from './types'
+
+export class ContractError extends Error {
+  constructor(public path: string, message: string) {
+    super(`${path}: ${message}`)
+    this.name = 'ContractError'
+  }
+}
+
+export type Validator<T> = (value: unknown, path?: string) => T
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> }
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Primitive validators
+
+export const asString: Validator<string> = (value, path = '$') => {
+  if (typeof value !== 'string') {
+    throw new ContractError(path, `expected string, got ${describe(value)}`)
+  }
+  return value
+}
+
+export const asNumber: Validator<number> = (value, path = '$') => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ContractError(path, `expected number, got ${describe(value)}`)
+  }
+  return value
+}
+
+export const asBoolean: Validator<boolean> = (value, path = '$') => {
+  if (typeof value !== 'boolean') {
+    throw new ContractError(path, `expected boolean, got ${describe(value)}`)
+  }
+  return value
+}
+
+// Dates come over the wire as ISO strings, but older server builds send epoch ms
+export const asTimestamp: Validator<string> = (value, path = '$') => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value).toISOString()
+  }
+  const str = asString(value, path)
+  if (Number.isNaN(Date.parse(str))) {
+    throw new ContractError(path, `expected timestamp, got "${str}"`)
+  }
+  return str
+}
+
+export const asUnknownRecord: Validator<Record<string, unknown>> = (value, path = '$') => {
+  if (!isRecord(value)) {
+    throw new ContractError(path, `expected object, got ${describe(value)}`)
+  }
+  return value
+}
+
+// Combinators
+
+export function oneOf<T extends string>(...allowed: T[]): Validator<T> {
+  return (value, path = '$') => {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      throw new ContractError(path, `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`)
+    }
+    return value as T
+  }
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path = '$') => (value === undefined || value === null ? undefined : validator(value, path))
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path = '$') => (value === undefined || value === null ? null : validator(value, path))
+}
+
+export function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path = '$') => {
+    if (!Array.isArray(value)) {
+      throw new ContractError(path, `expected array, got ${describe(value)}`)
+    }
+    return value.map((item, index) => validator(item, `${path}[${index}]`))
+  }
+}
+
+// Builds a fresh object containing only the fields described by the shape,
+// so unknown server fields never leak into component state.
+export function shape<T>(fields: Shape<T>): Validator<T> {
+  return (value, path = '$') => {
+    if (!isRecord(value)) {
+      throw new ContractError(path, `expected object, got ${describe(value)}`)
+    }
+    const result: Record<string, unknown> = {}
+    for (const key of Object.keys(fields) as Array<keyof T & string>) {
+      const parsed = fields[key](value[key], `${path}.${key}`)
+      if (parsed !== undefined) {
+        result[key] = parsed
+      }
+    }
+    return result as T
+  }
+}
+
+// Domain validators
+
+export const validateGameConfig = shape<GameConfig>({
+  gridSize: shape({ rows: asNumber, cols: asNumber }),
+  blockPrice: asNumber,
+  feeRate: asNumber,
+  roundDuration: asNumber,
+  eliminationRate: optional(asNumber),
+  eliminationSchedule: optional(arrayOf(asNumber)),
+  saleEndTime: optional(asTimestamp),
+  treasuryAddress: optional(asString),
+})
+
+export const validateRoundData = shape<RoundData>({
+  roundNumber: asNumber,
+  gameId: optional(asString),
+  status: oneOf('pending', 'trading', 'trading_closed', 'vrf_requested', 'revealing', 'completed'),
+  eliminationRate: asNumber,
+  blocksAtStart: asNumber,
+  prizePoolSnapshot: asNumber,
+  startTime: asTimestamp,
+  tradeCloseTime: asTimestamp,
+  vrfSeed: optional(asString),
+  vrfProof: optional(asString),
+  eliminatedCount: optional(asNumber),
+  survivorCount: optional(asNumber),
+  completedAt: optional(asTimestamp),
+})
+
+// The server sends either the round number or the embedded round document
+const asRoundRef: Validator<number | RoundData> = (value, path = '$') => {
+  if (value === null || value === undefined) return 0
+  if (typeof value === 'number') return asNumber(value, path)
+  return validateRoundData(value, path)
+}
+
+export const validateGameData = shape<GameData>({
+  gameId: asString,
+  title: asString,
+  description: optional(asString),
+  creatorAddress: optional(asString),
+  status: oneOf('pending', 'minting', 'active', 'finished', 'cancelled'),
+  config: validateGameConfig,
+  totalBlocks: asNumber,
+  soldBlocks: asNumber,
+  aliveBlocks: asNumber,
+  prizePool: asNumber,
+  currentEV: asNumber,
+  nextRoundEV: asNumber,
+  survivalProbability: asNumber,
+  currentRound: asRoundRef,
+  createdAt: asTimestamp,
+  saleEndTime: optional(asTimestamp),
+  gameStartTime: optional(asTimestamp),
+  winnerId: optional(asString),
+})
+
+export const validateBlockData = shape<BlockData>({
+  blockId: asNumber,
+  gameId: optional(asString),
+  position: shape({ row: asNumber, col: asNumber }),
+  status: oneOf('unsold', 'alive', 'eliminated'),
+  ownerId: optional(asString),
+  purchasePrice: asNumber,
+  purchasedAt: optional(asTimestamp),
+  eliminatedInRound: optional(asNumber),
+})
+
+const validateStatusDelta = shape<Extract<BlockDelta, { kind: 'status' }>>({
+  kind: oneOf('status'),
+  blockId: asNumber,
+  status: oneOf('unsold', 'alive', 'eliminated'),
+  eliminatedInRound: optional(asNumber),
+})
+
+const validateOwnerDelta = shape<Extract<BlockDelta, { kind: 'owner' }>>({
+  kind: oneOf('owner'),
+  blockId: asNumber,
+  ownerId: nullable(asString),
+  purchasePrice: optional(asNumber),
+  purchasedAt: optional(asTimestamp),
+})
+
+export const validateBlockDelta: Validator<BlockDelta> = (value, path = '$') => {
+  const kind = asUnknownRecord(value, path).kind
+  if (kind === 'status') return validateStatusDelta(value, path)
+  if (kind === 'owner') return validateOwnerDelta(value, path)
+  throw new ContractError(`${path}.kind`, `expected one of status, owner, got ${JSON.stringify(kind)}`)
+}
+
+export const validateRoundResult = shape<RoundResult>({
+  blockId: asNumber,
+  eliminated: asBoolean,
+  vrfValue: asNumber,
+})
+
+export const validateOrderData = shape<OrderData>({
+  orderId: asString,
+  gameId: asString,
+  userId: asString,
+  type: oneOf('ask', 'any_bid'),
+  blockId: optional(asNumber),
+  price: asNumber,
+  quantity: asNumber,
+  filledQuantity: optional(asNumber),
+  fillPercentage: asNumber,
+  status: oneOf('active', 'partially_filled', 'filled', 'cancelled', 'expired'),
+  carryOver: optional(asBoolean),
+  roundNumber: optional(asNumber),
+  createdAt: asTimestamp,
+  updatedAt: optional(asTimestamp),
+})
+
+export const validateOrderBook = shape<OrderBook>({
+  asks: arrayOf(validateOrderData),
+  bids: arrayOf(validateOrderData),
+})
+
+export const validateTradeData = shape<TradeData>({
+  tradeId: asString,
+  gameId: asString,
+  blockId: asNumber,
+  buyerId: asString,
+  sellerId: asString,
+  price: asNumber,
+  roundNumber: optional(asNumber),
+  buyOrderId: optional(asString),
+  sellOrderId: optional(asString),
+  executedAt: asTimestamp,
+})
+
+export const validateGameStats = shape<GameStats>({
+  totalBlocks: asNumber,
+  soldBlocks: asNumber,
+  aliveBlocks: asNumber,
+  eliminatedBlocks: asNumber,
+  uniquePlayers: asNumber,
+  prizePool: asNumber,
+  currentEV: asNumber,
+  roundsCompleted: asNumber,
+})
+
+export const validateMarketStats = shape<MarketStats>({
+  activeAsks: asNumber,
+  activeBids: asNumber,
+  bestAsk: optional(asNumber),
+  bestBid: optional(asNumber),
+  lastPrice: optional(asNumber),
+  volume: asNumber,
+  tradeCount: asNumber,
+})
+
+export const validateSystemStatus = shape<SystemStatus>({
+  uptime: asNumber,
+  activeGames: asNumber,
+  connectedClients: asNumber,
+  schedulerRunning: asBoolean,
+  version: optional(asString),
+})
+
+// Response envelopes
+
+const validateFailure = shape<APIFailure>({
+  success: (value, path) => {
+    if (value !== false) throw new ContractError(path ?? '$', 'expected false')
+    return false
+  },
+  message: optional(asString),
+  error: optional(asString),
+  schemaVersion: optional(asString),
+})
+
+function checkSchemaVersion(value: Record<string, unknown>, path: string) {
+  const version = value.schemaVersion
+  if (version === undefined) return
+  if (typeof version !== 'string' || !isCompatibleSchemaVersion(version)) {
+    throw new ContractError(
+      `${path}.schemaVersion`,
+      `server schema ${String(version)} is incompatible with client schema ${SCHEMA_VERSION}`
+    )
+  }
+}
+
+// Wraps a payload shape in the `{ success, ... }` envelope. Failed responses
+// only need a valid envelope; the payload is validated on success.
+export function envelope<T>(payload: Shape<T>): Validator<APIResponse<T>> {
+  const validatePayload = shape<T>(payload)
+
+  return (value, path = '$') => {
+    const record = asUnknownRecord(value, path)
+    checkSchemaVersion(record, path)
+
+    if (record.success === false) {
+      return validateFailure(record, path)
+    }
+    if (record.success !== true) {
+      throw new ContractError(`${path}.success`, `expected boolean, got ${describe(record.success)}`)
+    }
+
+    return {
+      ...validatePayload(record, path),
+      success: true,
+      ...(typeof record.message === 'string' && { message: record.message }),
+      ...(typeof record.schemaVersion === 'string' && { schemaVersion: record.schemaVersion }),
+    } as APIResponse<T>
+  }
+}
+
+export const responseValidators = {
+  games: envelope({ games: arrayOf(validateGameData) }),
+  game: envelope({
+    game: validateGameData,
+    blocks: optional(arrayOf(validateBlockData)),
+    currentRound: optional(nullable(validateRoundData)),
+    seq: optional(asNumber),
+  }),
+  createdGame: envelope({ game: validateGameData }),
+  gameMutation: envelope({ game: optional(validateGameData) }),
+  blocks: envelope({ blocks: arrayOf(validateBlockData) }),
+  rounds: envelope({ rounds: arrayOf(validateRoundData) }),
+  currentRound: envelope({ round: nullable(validateRoundData) }),
+  gameStats: envelope({ stats: validateGameStats }),
+  reveal: envelope({ results: optional(arrayOf(validateRoundResult)) }),
+  order: envelope({ order: validateOrderData }),
+  orders: envelope({ orders: arrayOf(validateOrderData) }),
+  orderBook: envelope({ orderBook: validateOrderBook }),
+  tradeHistory: envelope({ trades: arrayOf(validateTradeData) }),
+  marketStats: envelope({ stats: validateMarketStats }),
+  matching: envelope({ matches: optional(asNumber) }),
+  systemStatus: envelope({ status: validateSystemStatus }),
+  debugInfo: envelope({ debug: asUnknownRecord }),
+  ack: envelope<object>({}),
+}
+
+// Socket payloads
+
+const gameIdField = { gameId: asString }
+
+export const socketPayloadValidators: {
+  [K in ServerEventName]: Validator<WebSocketEvents[K]>
+} = {
+  game_state_update: shape<WebSocketEvents['game_state_update']>({
+    ...gameIdField,
+    game: validateGameData,
+    blocks: arrayOf(validateBlockData),
+    currentRound: optional(nullable(validateRoundData)),
+    seq: optional(asNumber),
+  }),
+  block_deltas: shape<WebSocketEvents['block_deltas']>({
+    ...gameIdField,
+    seq: asNumber,
+    deltas: arrayOf(validateBlockDelta),
+    game: optional(validateGameData),
+  }),
+  round_started: shape<WebSocketEvents['round_started']>({
+    ...gameIdField,
+    roundNumber: asNumber,
+    duration: asNumber,
+    eliminationRate: optional(asNumber),
+  }),
+  trading_closed: shape<WebSocketEvents['trading_closed']>({
+    ...gameIdField,
+    roundNumber: asNumber,
+  }),
+  round_completed: shape<WebSocketEvents['round_completed']>({
+    ...gameIdField,
+    roundNumber: asNumber,
+    results: arrayOf(validateRoundResult),
+    eliminatedCount: asNumber,
+    survivorCount: optional(asNumber),
+    eliminationRate: optional(asNumber),
+    vrfSeed: optional(asString),
+    vrfProof: optional(asString),
+  }),
+  order_book_update: shape<WebSocketEvents['order_book_update']>({
+    ...gameIdField,
+    orderBook: validateOrderBook,
+  }),
+  error: shape<WebSocketEvents['error']>({
+    message: asString,
+    code: optional(asString),
+  }),
+}
+
+export function isServerEvent(event: string): event is ServerEventName {
+  return event in socketPayloadValidators
+}
+
+export function validateSocketPayload<K extends ServerEventName>(
+  event: K,
+  data: unknown
+): WebSocketEvents[K] {
+  return socketPayloadValidators[event](data, event) as WebSocketEvents[K]
+}
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  readonly VITE_WS_URL?: string
+  readonly VITE_SOLANA_RPC_URL?: string
+  readonly VITE_TREASURY_ADDRESS?: string
+  readonly VITE_MOCK_BACKEND?: string
+  readonly VITE_ADMIN_ADDRESSES?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}